@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import { resolvedDbPath } from '../src/db/index';
+import { createBackup, createDump, restoreDump, RestoreValidationError } from '../src/services/backupService';
+
+const args = process.argv.slice(2);
+const readArg = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+
+const stamp = () => new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+const defaultDir = resolvedDbPath === ':memory:' ? process.cwd() : path.join(path.dirname(resolvedDbPath), 'backups');
+
+const run = async () => {
+  const restorePath = readArg('restore');
+  if (restorePath) {
+    const dryRun = args.includes('--dry-run');
+    if (!dryRun && !args.includes('--yes')) {
+      console.error('Restoring replaces all portfolios, holdings and ledgers. Re-run with --yes or --dry-run.');
+      process.exit(1);
+    }
+    const dump = JSON.parse(fs.readFileSync(path.resolve(restorePath), 'utf-8'));
+    const result = restoreDump(dump, { dryRun });
+    console.log(dryRun ? 'Dump is valid:' : 'Restored:', result.tables);
+    return;
+  }
+
+  if (args.includes('--json')) {
+    const target = path.resolve(readArg('out') || path.join(defaultDir, `portfolio-dump-${stamp()}.json`));
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, JSON.stringify(createDump(), null, 2));
+    console.log(`JSON dump written to ${target}`);
+    return;
+  }
+
+  const target = path.resolve(readArg('out') || path.join(defaultDir, `portfolio-${stamp()}.db`));
+  const backup = await createBackup(target);
+  console.log(`SQLite snapshot written to ${backup.path} (${backup.size} bytes)`);
+};
+
+run().catch((error) => {
+  if (error instanceof RestoreValidationError) {
+    console.error(error.message);
+    error.problems.forEach((problem) => console.error(`- ${problem}`));
+  } else {
+    console.error(error instanceof Error ? error.message : error);
+  }
+  process.exit(1);
+});
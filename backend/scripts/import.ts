@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import { getPortfolio } from '../src/services/portfolioService';
+import { runImport } from '../src/services/importService';
+import { listImporters } from '../src/importers';
+
+const args = process.argv.slice(2);
+const readArg = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+
+if (args.includes('--list')) {
+  listImporters().forEach(({ id, label }) => console.log(`${id}\t${label}`));
+  process.exit(0);
+}
+
+const file = readArg('file');
+if (!file) {
+  console.error('Usage: tsx scripts/import.ts --file=<path> [--format=<id>] [--portfolio=1] [--currency=PLN]');
+  console.error('       [--mapping=<json>] [--dry-run] [--list]');
+  process.exit(1);
+}
+
+const portfolioId = Number(readArg('portfolio') || 1);
+const portfolio = getPortfolio(portfolioId);
+if (!portfolio) {
+  console.error(`Portfolio ${portfolioId} not found`);
+  process.exit(1);
+}
+
+const mappingArg = readArg('mapping');
+const summary = runImport({
+  portfolioId,
+  content: fs.readFileSync(path.resolve(file)),
+  filename: path.basename(file),
+  format: readArg('format'),
+  mapping: mappingArg ? JSON.parse(mappingArg) : undefined,
+  currency: (readArg('currency') || portfolio.base_currency).toUpperCase(),
+  dryRun: args.includes('--dry-run')
+});
+
+console.log('Import summary:', {
+  format: summary.format,
+  records: summary.records,
+  inserted: summary.inserted,
+  duplicates: summary.duplicates,
+  skipped: summary.skipped.length,
+  failed: summary.failed.length
+});
+summary.failed.forEach(({ row, reason }) => console.log(`Row ${row} failed: ${reason}`));
+if (summary.unsupported_markets.length) {
+  console.log('Unsupported market codes:', summary.unsupported_markets);
+}
+if (summary.dry_run) {
+  console.log('Dry run enabled. No rows were inserted.');
+}
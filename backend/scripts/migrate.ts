@@ -0,0 +1,35 @@
+import { openDatabase, resolvedDbPath } from '../src/db/connection';
+import { getMigrationStatus, runMigrations } from '../src/db/migrate';
+
+// Opens the database directly instead of through src/db/index, which would apply pending migrations on import.
+const args = process.argv.slice(2);
+const command = args.find((arg) => !arg.startsWith('--')) || 'status';
+const targetArg = args.find((arg) => arg.startsWith('--to='));
+
+const database = openDatabase();
+
+const printStatus = () => {
+  console.log(`SQLite at ${resolvedDbPath}`);
+  for (const migration of getMigrationStatus(database)) {
+    const state = migration.applied_at ? `applied ${migration.applied_at}` : 'pending';
+    console.log(`${String(migration.version).padStart(3, '0')}  ${migration.name.padEnd(28)} ${state}`);
+  }
+};
+
+try {
+  if (command === 'status') {
+    printStatus();
+  } else if (command === 'up') {
+    const ran = runMigrations(database, { target: targetArg ? Number(targetArg.split('=')[1]) : undefined });
+    console.log(ran.length ? `Applied ${ran.map((migration) => migration.version).join(', ')}` : 'Nothing to apply');
+    printStatus();
+  } else {
+    console.error('Usage: tsx scripts/migrate.ts [status|up] [--to=<version>]');
+    process.exitCode = 1;
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  database.close();
+}
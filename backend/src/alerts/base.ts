@@ -0,0 +1,32 @@
+export type AlertMessage = {
+  id: number;
+  portfolio_id: number;
+  rule_id: number | null;
+  ticker: string;
+  market: string;
+  type: string;
+  threshold: number;
+  value: number;
+  message: string;
+  triggered_at: string;
+};
+
+export class ChannelError extends Error {
+  details?: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = 'ChannelError';
+    this.details = details;
+  }
+}
+
+export abstract class AlertChannel {
+  name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  abstract deliver(alert: AlertMessage): Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { AlertChannel, AlertMessage } from './base';
+
+// The alerts log is what the UI reads, so in-app delivery needs no extra work.
+export class InAppChannel extends AlertChannel {
+  constructor() {
+    super('in_app');
+  }
+
+  async deliver(_alert: AlertMessage) {}
+}
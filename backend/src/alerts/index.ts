@@ -0,0 +1,41 @@
+import { AlertChannel } from './base';
+import { InAppChannel } from './inApp';
+import { WebhookChannel, WebhookFileChannel } from './webhook';
+import { SmtpChannel, SmtpOutboxChannel } from './smtp';
+
+export const createAlertChannels = (): AlertChannel[] => {
+  const channels: AlertChannel[] = [new InAppChannel()];
+
+  // A file: URL selects the local stand-in, e.g. ALERT_WEBHOOK_URL=file:../data/webhook.jsonl
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
+  if (webhookUrl?.startsWith('file:')) {
+    channels.push(new WebhookFileChannel({ filePath: webhookUrl.slice('file:'.length) }));
+  } else if (webhookUrl) {
+    channels.push(new WebhookChannel({ url: webhookUrl }));
+  }
+
+  const from = process.env.ALERT_SMTP_FROM || 'portfolio@localhost';
+  const to = (process.env.ALERT_SMTP_TO || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (to.length && process.env.ALERT_SMTP_OUTBOX_DIR) {
+    channels.push(new SmtpOutboxChannel({ dir: process.env.ALERT_SMTP_OUTBOX_DIR, from, to }));
+  } else if (to.length && process.env.ALERT_SMTP_HOST) {
+    const port = Number(process.env.ALERT_SMTP_PORT || 587);
+    channels.push(
+      new SmtpChannel({
+        host: process.env.ALERT_SMTP_HOST,
+        port,
+        secure: port === 465,
+        user: process.env.ALERT_SMTP_USER,
+        pass: process.env.ALERT_SMTP_PASS,
+        allowInsecureAuth: process.env.ALERT_SMTP_ALLOW_INSECURE_AUTH === 'true',
+        from,
+        to
+      })
+    );
+  }
+
+  return channels;
+};
@@ -0,0 +1,174 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import tls from 'tls';
+import { AlertChannel, AlertMessage, ChannelError } from './base';
+
+type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Lets AUTH go out over a connection that never got encrypted; only for local test servers.
+  allowInsecureAuth?: boolean;
+  from: string;
+  to: string[];
+};
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+const buildEmail = (alert: AlertMessage, from: string, to: string[]) =>
+  [
+    `From: ${from}`,
+    `To: ${to.join(', ')}`,
+    `Subject: Portfolio alert: ${alert.ticker} ${alert.type}`,
+    `Date: ${new Date(alert.triggered_at.replace(' ', 'T') + 'Z').toUTCString()}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    alert.message,
+    '',
+    `Rule ${alert.rule_id ?? '-'} · portfolio ${alert.portfolio_id} · threshold ${alert.threshold} · value ${alert.value}`
+  ].join('\r\n');
+
+// Reads whole (possibly multi-line) replies and checks the status code of each step.
+const createSession = (socket: net.Socket) => {
+  let buffer = '';
+  let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | null = null;
+
+  const flush = () => {
+    const lines = buffer.split('\r\n');
+    const last = lines.findIndex((line) => /^\d{3} /.test(line));
+    if (last < 0 || !waiting) return;
+    const reply = lines.slice(0, last + 1).join('\n');
+    buffer = lines.slice(last + 1).join('\r\n');
+    const pending = waiting;
+    waiting = null;
+    pending.resolve(reply);
+  };
+
+  const onData = (chunk: string) => {
+    buffer += chunk;
+    flush();
+  };
+  const onError = (error: Error) => waiting?.reject(error);
+  // A server that hangs up without an error would otherwise leave the pending read waiting forever.
+  const onClose = () => waiting?.reject(new ChannelError('SMTP server closed the connection'));
+
+  socket.setEncoding('utf-8');
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('end', onClose);
+  socket.on('close', onClose);
+
+  const read = (expected: number) =>
+    new Promise<string>((resolve, reject) => {
+      waiting = {
+        resolve: (reply) => {
+          if (!reply.startsWith(String(expected))) {
+            reject(new ChannelError(`SMTP server replied: ${reply}`));
+            return;
+          }
+          resolve(reply);
+        },
+        reject
+      };
+      flush();
+    });
+
+  const send = (line: string, expected: number) => {
+    socket.write(`${line}\r\n`);
+    return read(expected);
+  };
+
+  // Hands the socket over, e.g. to the TLS layer after STARTTLS.
+  const detach = () => {
+    socket.off('data', onData);
+    socket.off('error', onError);
+    socket.off('end', onClose);
+    socket.off('close', onClose);
+  };
+
+  return { read, send, detach };
+};
+
+const upgradeToTls = (socket: net.Socket, host: string) =>
+  new Promise<tls.TLSSocket>((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => {
+      secured.off('error', reject);
+      resolve(secured);
+    });
+    secured.once('error', reject);
+  });
+
+export class SmtpChannel extends AlertChannel {
+  private config: SmtpConfig;
+
+  constructor(config: SmtpConfig) {
+    super('smtp');
+    this.config = config;
+  }
+
+  async deliver(alert: AlertMessage) {
+    const { host, port, secure, user, pass, allowInsecureAuth = false, from, to } = this.config;
+    let socket: net.Socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    const armTimeout = (target: net.Socket) =>
+      target.setTimeout(SMTP_TIMEOUT_MS, () => target.destroy(new ChannelError('SMTP connection timed out')));
+    armTimeout(socket);
+
+    try {
+      let session = createSession(socket);
+      await session.read(220);
+      const greeting = await session.send(`EHLO ${host}`, 250);
+      let encrypted = secure;
+      if (!encrypted && /^250[- ]STARTTLS\b/im.test(greeting)) {
+        await session.send('STARTTLS', 220);
+        session.detach();
+        socket = await upgradeToTls(socket, host);
+        armTimeout(socket);
+        session = createSession(socket);
+        // The server forgets everything it was told before the upgrade.
+        await session.send(`EHLO ${host}`, 250);
+        encrypted = true;
+      }
+      if (user && pass) {
+        if (!encrypted && !allowInsecureAuth) {
+          throw new ChannelError('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted');
+        }
+        await session.send('AUTH LOGIN', 334);
+        await session.send(Buffer.from(user).toString('base64'), 334);
+        await session.send(Buffer.from(pass).toString('base64'), 235);
+      }
+      await session.send(`MAIL FROM:<${from}>`, 250);
+      for (const recipient of to) {
+        await session.send(`RCPT TO:<${recipient}>`, 250);
+      }
+      await session.send('DATA', 354);
+      // Dot-stuffing keeps a line that starts with "." from ending the message early.
+      const body = buildEmail(alert, from, to).replace(/^\./gm, '..');
+      await session.send(`${body}\r\n.`, 250);
+      await session.send('QUIT', 221);
+    } finally {
+      socket.end();
+    }
+  }
+}
+
+// Local stand-in: writes each message as an .eml file instead of talking to a server.
+export class SmtpOutboxChannel extends AlertChannel {
+  private dir: string;
+  private from: string;
+  private to: string[];
+
+  constructor({ dir, from, to }: { dir: string; from: string; to: string[] }) {
+    super('smtp');
+    this.dir = dir;
+    this.from = from;
+    this.to = to;
+  }
+
+  async deliver(alert: AlertMessage) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, `alert-${alert.id}.eml`), buildEmail(alert, this.from, this.to));
+  }
+}
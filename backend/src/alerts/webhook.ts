@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import { AlertChannel, AlertMessage, ChannelError } from './base';
+
+export class WebhookChannel extends AlertChannel {
+  private url: string;
+
+  constructor({ url }: { url: string }) {
+    super('webhook');
+    this.url = url;
+  }
+
+  async deliver(alert: AlertMessage) {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ alert })
+    });
+    if (!response.ok) {
+      throw new ChannelError(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+// Local stand-in: appends the payload that would have been posted to a JSON-lines file.
+export class WebhookFileChannel extends AlertChannel {
+  private filePath: string;
+
+  constructor({ filePath }: { filePath: string }) {
+    super('webhook');
+    this.filePath = filePath;
+  }
+
+  async deliver(alert: AlertMessage) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify({ alert })}\n`);
+  }
+}
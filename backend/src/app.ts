@@ -1,23 +1,156 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import { z } from 'zod';
-import { validateSymbol } from './services/validationService';
+import { normalizeTicker, validateSymbol } from './services/validationService';
 import {
   addHolding,
+  countPortfolioData,
+  createPortfolio,
   deleteHolding,
+  deletePortfolio,
+  getHolding,
+  getLotSoldQuantity,
+  getPortfolio,
+  listHoldings,
+  listPortfolios,
+  setPortfolioArchived,
+  updateHolding,
+  updatePortfolio,
   listHoldingsWithQuotes,
   getPerformanceSeries
 } from './services/portfolioService';
+import type { PortfolioRow } from './services/portfolioService';
+import {
+  addSellTransaction,
+  deleteSellTransaction,
+  getBuyTransactionForHolding,
+  getTransaction,
+  listTransactions
+} from './services/transactionService';
+import { addDividend, deleteDividend, listDividends } from './services/dividendService';
+import {
+  addCashMovement,
+  deleteCashMovement,
+  getCashSummary,
+  listCashMovements,
+  listUnsettledCash,
+  openCashAccount
+} from './services/cashService';
+import { getPortfolioReturns } from './services/returnsService';
+import { getAggregateHoldings, getAggregatePerformance, getAllocation } from './services/aggregateService';
+import {
+  addBenchmark,
+  deleteBenchmark,
+  getBenchmarkSeries,
+  listBenchmarks
+} from './services/benchmarkService';
+import { runImport } from './services/importService';
+import {
+  renderExport,
+  toHoldingExportRows,
+  toPerformanceExportRows,
+  toTransactionExportRows
+} from './services/exportService';
+import type { ExportFormat, ExportRow } from './services/exportService';
+import {
+  createDump,
+  createTemporaryBackup,
+  restoreDump,
+  RestoreValidationError
+} from './services/backupService';
+import { listImporters } from './importers';
+import { ImportError } from './importers/base';
+import {
+  acknowledgeAlert,
+  addAlertRule,
+  deleteAlertRule,
+  evaluatePortfolioAlerts,
+  listAlertRules,
+  listAlerts
+} from './services/alertService';
+import { AlertChannel } from './alerts/base';
+import { createAlertChannels } from './alerts';
+import { getProviderMetrics } from './providers/governor';
+import type { Scheduler } from './services/schedulerService';
+import { getMarketStatus } from './services/calendarService';
+import { getDiagnostics } from './services/diagnosticsService';
+import {
+  deleteInstrument,
+  deleteInstrumentPrice,
+  getInstrumentById,
+  listInstrumentPrices,
+  listInstrumentRates,
+  listInstruments,
+  saveInstrument,
+  setInstrumentPrice,
+  setInstrumentRate
+} from './services/instrumentService';
 import { db } from './db/index';
 import { MarketDataProvider } from './providers/base';
-import { getSupportedMarkets } from './config/markets';
+import { ASSET_TYPES, getMarketDefinition, getSupportedMarkets } from './config/markets';
 
 const holdingSchema = z.object({
   ticker: z.string().min(1).max(32).transform((val) => val.toUpperCase()),
   market: z.string().min(1).max(16).transform((val) => val.toUpperCase()),
   buy_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   buy_price: z.coerce.number().positive(),
-  quantity: z.coerce.number().positive()
+  quantity: z.coerce.number().positive(),
+  fee: z.coerce.number().min(0).optional()
+});
+
+const transactionSchema = z.object({
+  type: z.enum(['BUY', 'SELL']),
+  ticker: z.string().min(1).max(32).transform((val) => val.toUpperCase()),
+  market: z.string().min(1).max(16).transform((val) => val.toUpperCase()),
+  trade_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  price: z.coerce.number().positive(),
+  quantity: z.coerce.number().positive(),
+  fee: z.coerce.number().min(0).optional()
+});
+
+const dividendSchema = z.object({
+  ticker: z.string().min(1).max(32).transform((val) => val.toUpperCase()),
+  market: z.string().min(1).max(16).transform((val) => val.toUpperCase()),
+  pay_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  gross_amount: z.coerce.number().positive(),
+  withholding_tax: z.coerce.number().min(0).optional(),
+  currency: z.string().length(3).transform((val) => val.toUpperCase()).optional()
+});
+
+const currencySchema = z.string().length(3).transform((val) => val.toUpperCase());
+
+const cashMovementSchema = z.object({
+  type: z.enum(['DEPOSIT', 'WITHDRAWAL', 'FEE', 'FX_CONVERSION']),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  currency: currencySchema,
+  amount: z.coerce.number().positive(),
+  counter_currency: currencySchema.optional(),
+  counter_amount: z.coerce.number().positive().optional(),
+  note: z.string().max(256).optional()
+});
+
+const instrumentSchema = z.object({
+  ticker: z.string().min(1).max(32).transform((val) => val.toUpperCase()),
+  market: z.string().min(1).max(16).transform((val) => val.toUpperCase()),
+  name: z.string().max(128).optional(),
+  asset_class: z.enum(ASSET_TYPES),
+  currency: currencySchema.optional(),
+  pricing: z.enum(['PROVIDER', 'MANUAL', 'ACCRUAL']).optional(),
+  face_value: z.coerce.number().positive().optional(),
+  issue_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  maturity_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  capitalization: z.enum(['ANNUAL', 'NONE']).optional()
+});
+
+const instrumentPriceSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  price: z.coerce.number().positive()
+});
+
+// Rates are decimals: 0.068 for 6.8%.
+const instrumentRateSchema = z.object({
+  from_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  rate: z.coerce.number().min(-1).max(1)
 });
 
 const portfolioSchema = z.object({
@@ -25,8 +158,29 @@ const portfolioSchema = z.object({
   base_currency: z.enum(['USD', 'EUR', 'GBP', 'PLN']).optional()
 });
 
+const importMappingSchema = z.object({
+  ticker: z.string().min(1),
+  date: z.string().min(1),
+  price: z.string().min(1),
+  quantity: z.string().min(1),
+  market: z.string().min(1).optional(),
+  side: z.string().min(1).optional(),
+  fee: z.string().min(1).optional(),
+  default_market: z.string().min(1).max(16).optional()
+});
+
+const alertRuleSchema = z.object({
+  ticker: z.string().min(1).max(32).transform((val) => val.toUpperCase()),
+  market: z.string().min(1).max(16).transform((val) => val.toUpperCase()),
+  type: z.enum(['PRICE_ABOVE', 'PRICE_BELOW', 'PCT_FROM_BUY', 'DAILY_DROP', 'POSITION_WEIGHT']),
+  threshold: z.coerce.number(),
+  channels: z.array(z.enum(['in_app', 'webhook', 'smtp'])).min(1).optional()
+});
+
 const idParamSchema = z.coerce.number().int().positive();
 
+const exportFormatSchema = z.enum(['csv', 'xlsx', 'json']).default('csv');
+
 const getPortfolioBaseCurrency = (portfolioId: number) => {
   const row = db
     .prepare('SELECT base_currency FROM portfolios WHERE id = ?')
@@ -34,11 +188,44 @@ const getPortfolioBaseCurrency = (portfolioId: number) => {
   return row?.base_currency || 'USD';
 };
 
-const createApp = ({ providers }: { providers: MarketDataProvider[] }) => {
+// `portfolioId=all` or `portfolioIds=1,2` switch holdings and performance into the aggregate view.
+// Returns null for the regular single-portfolio mode.
+const resolvePortfolioScope = (query: Request['query']) => {
+  if (typeof query.portfolioIds === 'string' && query.portfolioIds.trim()) {
+    const ids = query.portfolioIds.split(',').map((value) => idParamSchema.parse(value.trim()));
+    const portfolios = ids.map((id) => getPortfolio(id));
+    const missing = ids.filter((id, index) => !portfolios[index]);
+    if (missing.length) {
+      throw new Error(`Unknown portfolio: ${missing.join(', ')}`);
+    }
+    return portfolios as PortfolioRow[];
+  }
+  if (query.portfolioId === 'all') {
+    return listPortfolios();
+  }
+  return null;
+};
+
+const sendExport = (res: Response, { rows, format, name }: { rows: ExportRow[]; format: ExportFormat; name: string }) => {
+  const { body, contentType } = renderExport({ rows, format, sheetName: name });
+  res.attachment(`${name}-${new Date().toISOString().slice(0, 10)}.${format}`);
+  res.type(contentType).send(body);
+};
+
+const createApp = ({
+  providers,
+  alertChannels = createAlertChannels(),
+  scheduler = null
+}: {
+  providers: MarketDataProvider[];
+  alertChannels?: AlertChannel[];
+  scheduler?: Scheduler | null;
+}) => {
   const app = express();
 
   app.use(cors());
-  app.use(express.json());
+  // Restores post a whole JSON dump, which outgrows the default 100kb limit.
+  app.use(express.json({ limit: '25mb' }));
 
   app.get('/api/health', (req: Request, res: Response) => {
     res.json({ status: 'ok' });
@@ -48,30 +235,163 @@ const createApp = ({ providers }: { providers: MarketDataProvider[] }) => {
     res.json({ exchanges: getSupportedMarkets() });
   });
 
+  app.get('/api/providers/metrics', (req: Request, res: Response) => {
+    res.json({ providers: getProviderMetrics() });
+  });
+
+  app.get('/api/diagnostics', (req: Request, res: Response) => {
+    res.json(getDiagnostics());
+  });
+
+  app.get('/api/exchanges/status', (req: Request, res: Response) => {
+    const codes = typeof req.query.markets === 'string'
+      ? req.query.markets.split(',').map((code) => code.trim().toUpperCase()).filter(Boolean)
+      : getSupportedMarkets().map((market) => market.code);
+    const unknown = codes.filter((code) => !getMarketDefinition(code));
+    if (unknown.length) {
+      return res.status(400).json({ error: `Unsupported market: ${unknown.join(', ')}` });
+    }
+    res.json({ markets: codes.map((code) => getMarketStatus(code)) });
+  });
+
   app.get('/api/portfolios', (req: Request, res: Response) => {
-    const rows = db.prepare(
-      `SELECT id, name, base_currency, created_at FROM portfolios ORDER BY id`
-    ).all();
-    res.json({ portfolios: rows });
+    const includeArchived = req.query.includeArchived === 'true' || req.query.includeArchived === '1';
+    res.json({ portfolios: listPortfolios({ includeArchived }) });
   });
 
   app.post('/api/portfolios', (req: Request, res: Response) => {
     try {
       const payload = portfolioSchema.parse(req.body);
-      const baseCurrency = payload.base_currency || 'USD';
-      const result = db.prepare(
-        `INSERT INTO portfolios (name, base_currency)
-         VALUES (?, ?)`
-      ).run(payload.name, baseCurrency);
-      const portfolio = db.prepare(
-        `SELECT id, name, base_currency, created_at FROM portfolios WHERE id = ?`
-      ).get(result.lastInsertRowid);
+      const portfolio = createPortfolio({
+        name: payload.name,
+        baseCurrency: payload.base_currency || 'USD'
+      });
       res.status(201).json({ portfolio });
     } catch (error) {
       res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
     }
   });
 
+  app.patch('/api/portfolios/:id', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const payload = portfolioSchema.partial().parse(req.body);
+      if (!payload.name && !payload.base_currency) {
+        return res.status(400).json({ error: 'No fields to update' });
+      }
+      const portfolio = updatePortfolio({ id, name: payload.name, baseCurrency: payload.base_currency });
+      if (!portfolio) {
+        return res.status(404).json({ error: 'Portfolio not found' });
+      }
+      res.json({ portfolio });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.post('/api/portfolios/:id/archive', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolio = setPortfolioArchived({ id, archived: true });
+      if (!portfolio) {
+        return res.status(404).json({ error: 'Portfolio not found' });
+      }
+      res.json({ portfolio });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.post('/api/portfolios/:id/restore', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolio = setPortfolioArchived({ id, archived: false });
+      if (!portfolio) {
+        return res.status(404).json({ error: 'Portfolio not found' });
+      }
+      res.json({ portfolio });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/portfolios/:id', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      if (!getPortfolio(id)) {
+        return res.status(404).json({ error: 'Portfolio not found' });
+      }
+      const cascade = req.query.cascade === 'true' || req.query.cascade === '1';
+      const data = countPortfolioData(id);
+      if (Object.keys(data).length && !cascade) {
+        return res.status(409).json({
+          error: 'Portfolio still has data; archive it or delete with cascade=true',
+          holdings: data.holdings ?? 0,
+          data
+        });
+      }
+      deletePortfolio(id);
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/portfolios/:id/benchmarks', (req: Request, res: Response) => {
+    try {
+      const portfolioId = idParamSchema.parse(req.params.id);
+      res.json({ benchmarks: listBenchmarks(portfolioId) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.post('/api/portfolios/:id/benchmarks', async (req: Request, res: Response) => {
+    try {
+      const portfolioId = idParamSchema.parse(req.params.id);
+      const payload = holdingSchema.pick({ ticker: true, market: true }).parse(req.body);
+      if (!getPortfolio(portfolioId)) {
+        return res.status(404).json({ error: 'Portfolio not found' });
+      }
+
+      const validation = await validateSymbol({
+        ticker: payload.ticker,
+        market: payload.market,
+        providers
+      });
+
+      if (!validation.valid) {
+        return res.status(400).json({
+          error: 'Ticker validation failed',
+          details: validation
+        });
+      }
+
+      const benchmark = addBenchmark({
+        portfolioId,
+        ticker: validation.normalized?.ticker || payload.ticker,
+        market: validation.normalized?.market || payload.market
+      });
+      res.status(201).json({ benchmark });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/portfolios/:id/benchmarks/:benchmarkId', (req: Request, res: Response) => {
+    try {
+      const portfolioId = idParamSchema.parse(req.params.id);
+      const id = idParamSchema.parse(req.params.benchmarkId);
+      const deleted = deleteBenchmark({ id, portfolioId });
+      if (!deleted) {
+        return res.status(404).json({ error: 'Benchmark not found' });
+      }
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
   app.post('/api/validate', async (req: Request, res: Response) => {
     try {
       const payload = holdingSchema.pick({ ticker: true, market: true }).parse(req.body);
@@ -86,14 +406,132 @@ const createApp = ({ providers }: { providers: MarketDataProvider[] }) => {
     }
   });
 
+  app.get('/api/instruments', (req: Request, res: Response) => {
+    res.json({ instruments: listInstruments(), asset_classes: ASSET_TYPES });
+  });
+
+  app.post('/api/instruments', (req: Request, res: Response) => {
+    try {
+      const payload = instrumentSchema.parse(req.body);
+      const marketDefinition = getMarketDefinition(payload.market);
+      if (!marketDefinition) {
+        return res.status(400).json({ error: `Unsupported market: ${payload.market}` });
+      }
+      const instrument = saveInstrument({
+        ticker: payload.ticker,
+        market: marketDefinition.code,
+        name: payload.name,
+        assetClass: payload.asset_class,
+        currency: payload.currency,
+        pricing: payload.pricing,
+        faceValue: payload.face_value,
+        issueDate: payload.issue_date,
+        maturityDate: payload.maturity_date,
+        capitalization: payload.capitalization
+      });
+      res.status(201).json({ instrument });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/instruments/:id', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      if (!deleteInstrument(id)) {
+        return res.status(404).json({ error: 'Instrument not found' });
+      }
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/instruments/:id/prices', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const instrument = getInstrumentById(id);
+      if (!instrument) {
+        return res.status(404).json({ error: 'Instrument not found' });
+      }
+      res.json({ instrument, prices: listInstrumentPrices(id), rates: listInstrumentRates(id) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.post('/api/instruments/:id/prices', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const payload = instrumentPriceSchema.parse(req.body);
+      if (getInstrumentById(id)?.pricing !== 'MANUAL') {
+        return res.status(404).json({ error: 'Manually priced instrument not found' });
+      }
+      setInstrumentPrice({ instrumentId: id, date: payload.date, price: payload.price });
+      res.status(201).json({ prices: listInstrumentPrices(id) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/instruments/:id/prices/:priceId', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const priceId = idParamSchema.parse(req.params.priceId);
+      if (!deleteInstrumentPrice({ instrumentId: id, id: priceId })) {
+        return res.status(404).json({ error: 'Price not found' });
+      }
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.post('/api/instruments/:id/rates', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const payload = instrumentRateSchema.parse(req.body);
+      if (getInstrumentById(id)?.pricing !== 'ACCRUAL') {
+        return res.status(404).json({ error: 'Accrual instrument not found' });
+      }
+      setInstrumentRate({ instrumentId: id, fromDate: payload.from_date, rate: payload.rate });
+      res.status(201).json({ rates: listInstrumentRates(id) });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
   app.get('/api/holdings', async (req: Request, res: Response) => {
+    let scope: PortfolioRow[] | null;
     try {
+      scope = resolvePortfolioScope(req.query);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+
+    try {
+      if (scope) {
+        const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : 'USD';
+        const result = await getAggregateHoldings({ portfolios: scope, providers, baseCurrency: currency });
+        return res.json({ ...result, base_currency: currency });
+      }
+
       const portfolioId = Number(req.query.portfolioId || 1);
       const currency = typeof req.query.currency === 'string'
         ? req.query.currency.toUpperCase()
         : getPortfolioBaseCurrency(portfolioId);
-      const holdings = await listHoldingsWithQuotes({ portfolioId, providers, baseCurrency: currency });
-      res.json({ holdings, base_currency: currency });
+      const [holdings, cash] = await Promise.all([
+        listHoldingsWithQuotes({ portfolioId, providers, baseCurrency: currency }),
+        getCashSummary({ portfolioId, baseCurrency: currency, providers })
+      ]);
+      const cashValue = cash.reduce((sum, account) => sum + account.value, 0);
+      res.json({
+        holdings,
+        cash,
+        cash_value: cashValue,
+        allocation: getAllocation(holdings, cashValue),
+        base_currency: currency
+      });
     } catch (error) {
       res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to fetch holdings' });
     }
@@ -126,7 +564,8 @@ const createApp = ({ providers }: { providers: MarketDataProvider[] }) => {
         market: normalizedMarket,
         buyDate: payload.buy_date,
         buyPrice: payload.buy_price,
-        quantity: payload.quantity
+        quantity: payload.quantity,
+        fee: payload.fee
       });
 
       res.status(201).json({ holding });
@@ -135,10 +574,71 @@ const createApp = ({ providers }: { providers: MarketDataProvider[] }) => {
     }
   });
 
+  app.patch('/api/holdings/:id', async (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolioId = Number(req.body?.portfolioId || req.query.portfolioId || 1);
+      const payload = holdingSchema.partial().parse(req.body);
+      if (!Object.values(payload).some((value) => value !== undefined)) {
+        return res.status(400).json({ error: 'No fields to update' });
+      }
+
+      const existing = getHolding({ id, portfolioId });
+      if (!existing) {
+        return res.status(404).json({ error: 'Holding not found' });
+      }
+
+      let ticker = payload.ticker;
+      let market = payload.market;
+      if (ticker || market) {
+        const validation = await validateSymbol({
+          ticker: ticker ?? existing.ticker,
+          market: market ?? existing.market,
+          providers
+        });
+
+        if (!validation.valid) {
+          return res.status(400).json({
+            error: 'Ticker validation failed',
+            details: validation
+          });
+        }
+
+        ticker = validation.normalized?.ticker || ticker || existing.ticker;
+        market = validation.normalized?.market || market || existing.market;
+      }
+
+      const holding = updateHolding({
+        id,
+        portfolioId,
+        ticker,
+        market,
+        buyDate: payload.buy_date,
+        buyPrice: payload.buy_price,
+        quantity: payload.quantity,
+        fee: payload.fee
+      });
+      if (!holding) {
+        return res.status(404).json({ error: 'Holding not found' });
+      }
+
+      res.json({ holding });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
   app.delete('/api/holdings/:id', (req: Request, res: Response) => {
     try {
       const id = idParamSchema.parse(req.params.id);
       const portfolioId = Number(req.query.portfolioId || 1);
+      const soldQuantity = getLotSoldQuantity({ id, portfolioId });
+      if (soldQuantity > 0) {
+        return res.status(409).json({
+          error: 'Sells are matched against this lot; delete them first',
+          sold_quantity: soldQuantity
+        });
+      }
       const deleted = deleteHolding({ id, portfolioId });
       if (!deleted) {
         return res.status(404).json({ error: 'Holding not found' });
@@ -149,11 +649,435 @@ const createApp = ({ providers }: { providers: MarketDataProvider[] }) => {
     }
   });
 
-  app.get('/api/portfolio/performance', async (req: Request, res: Response) => {
+  app.get('/api/transactions', (req: Request, res: Response) => {
+    const portfolioId = Number(req.query.portfolioId || 1);
+    res.json({ transactions: listTransactions(portfolioId) });
+  });
+
+  app.post('/api/transactions', async (req: Request, res: Response) => {
+    try {
+      const payload = transactionSchema.parse(req.body);
+      const portfolioId = Number(req.body.portfolioId || 1);
+
+      if (payload.type === 'BUY') {
+        const validation = await validateSymbol({
+          ticker: payload.ticker,
+          market: payload.market,
+          providers
+        });
+
+        if (!validation.valid) {
+          return res.status(400).json({
+            error: 'Ticker validation failed',
+            details: validation
+          });
+        }
+
+        const holding = addHolding({
+          portfolioId,
+          ticker: validation.normalized?.ticker || payload.ticker,
+          market: validation.normalized?.market || payload.market,
+          buyDate: payload.trade_date,
+          buyPrice: payload.price,
+          quantity: payload.quantity,
+          fee: payload.fee
+        });
+        const transaction = getBuyTransactionForHolding(holding.id);
+        return res.status(201).json({ transaction, holding });
+      }
+
+      // Sells must match lots already in the portfolio, so only normalize locally.
+      const marketDefinition = getMarketDefinition(payload.market);
+      if (!marketDefinition) {
+        return res.status(400).json({ error: 'Unsupported market' });
+      }
+      const market = marketDefinition.code.toUpperCase();
+      const ticker = normalizeTicker(payload.ticker, market);
+
+      const transaction = addSellTransaction({
+        portfolioId,
+        ticker,
+        market,
+        tradeDate: payload.trade_date,
+        price: payload.price,
+        quantity: payload.quantity,
+        fee: payload.fee,
+        holdings: listHoldings(portfolioId)
+      });
+
+      res.status(201).json({ transaction });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/transactions/:id', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolioId = Number(req.query.portfolioId || 1);
+      const transaction = getTransaction({ id, portfolioId });
+      if (!transaction) {
+        return res.status(404).json({ error: 'Transaction not found' });
+      }
+      if (transaction.type === 'BUY') {
+        return res.status(400).json({ error: 'Buy transactions are removed by deleting their holding' });
+      }
+      deleteSellTransaction({ id, portfolioId });
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/dividends', (req: Request, res: Response) => {
+    const portfolioId = Number(req.query.portfolioId || 1);
+    res.json({ dividends: listDividends(portfolioId) });
+  });
+
+  app.post('/api/dividends', (req: Request, res: Response) => {
+    try {
+      const payload = dividendSchema.parse(req.body);
+      const portfolioId = Number(req.body.portfolioId || 1);
+      const marketDefinition = getMarketDefinition(payload.market);
+      if (!marketDefinition) {
+        return res.status(400).json({ error: 'Unsupported market' });
+      }
+      const market = marketDefinition.code.toUpperCase();
+
+      const dividend = addDividend({
+        portfolioId,
+        ticker: normalizeTicker(payload.ticker, market),
+        market,
+        payDate: payload.pay_date,
+        grossAmount: payload.gross_amount,
+        withholdingTax: payload.withholding_tax,
+        currency: payload.currency || marketDefinition.currency
+      });
+
+      res.status(201).json({ dividend });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/dividends/:id', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolioId = Number(req.query.portfolioId || 1);
+      const deleted = deleteDividend({ id, portfolioId });
+      if (!deleted) {
+        return res.status(404).json({ error: 'Dividend not found' });
+      }
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/cash', async (req: Request, res: Response) => {
     try {
       const portfolioId = Number(req.query.portfolioId || 1);
+      const currency = typeof req.query.currency === 'string'
+        ? req.query.currency.toUpperCase()
+        : getPortfolioBaseCurrency(portfolioId);
+      const accounts = await getCashSummary({ portfolioId, baseCurrency: currency, providers });
+      res.json({
+        accounts,
+        movements: listCashMovements(portfolioId),
+        unsettled: listUnsettledCash(portfolioId),
+        base_currency: currency
+      });
+    } catch (error) {
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to fetch cash' });
+    }
+  });
+
+  app.post('/api/cash/accounts', (req: Request, res: Response) => {
+    try {
+      const currency = currencySchema.parse(req.body?.currency);
+      const portfolioId = Number(req.body.portfolioId || 1);
+      const account = openCashAccount({ portfolioId, currency });
+      res.status(201).json({ account });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.post('/api/cash/movements', (req: Request, res: Response) => {
+    try {
+      const payload = cashMovementSchema.parse(req.body);
+      const portfolioId = Number(req.body.portfolioId || 1);
+      const movement = addCashMovement({
+        portfolioId,
+        type: payload.type,
+        date: payload.date,
+        currency: payload.currency,
+        amount: payload.amount,
+        counterCurrency: payload.counter_currency,
+        counterAmount: payload.counter_amount,
+        note: payload.note
+      });
+      res.status(201).json({ movement });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/cash/movements/:id', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolioId = Number(req.query.portfolioId || 1);
+      const deleted = deleteCashMovement({ id, portfolioId });
+      if (!deleted) {
+        return res.status(404).json({ error: 'Cash movement not found' });
+      }
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/alerts/rules', (req: Request, res: Response) => {
+    const portfolioId = Number(req.query.portfolioId || 1);
+    res.json({ rules: listAlertRules(portfolioId) });
+  });
+
+  app.post('/api/alerts/rules', (req: Request, res: Response) => {
+    try {
+      const payload = alertRuleSchema.parse(req.body);
+      const portfolioId = Number(req.body.portfolioId || 1);
+      const marketDefinition = getMarketDefinition(payload.market);
+      if (!marketDefinition) {
+        return res.status(400).json({ error: 'Unsupported market' });
+      }
+      if (payload.type === 'POSITION_WEIGHT' && (payload.threshold <= 0 || payload.threshold > 100)) {
+        return res.status(400).json({ error: 'Weight threshold must be between 0 and 100' });
+      }
+      const market = marketDefinition.code.toUpperCase();
+      const rule = addAlertRule({
+        portfolioId,
+        ticker: normalizeTicker(payload.ticker, market),
+        market,
+        type: payload.type,
+        threshold: payload.threshold,
+        channels: payload.channels
+      });
+      res.status(201).json({ rule });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.delete('/api/alerts/rules/:id', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolioId = Number(req.query.portfolioId || 1);
+      if (!deleteAlertRule({ id, portfolioId })) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json({ deleted: true });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/alerts/channels', (req: Request, res: Response) => {
+    res.json({ channels: alertChannels.map((channel) => channel.name) });
+  });
+
+  app.get('/api/alerts', (req: Request, res: Response) => {
+    const portfolioId = Number(req.query.portfolioId || 1);
+    const includeAcknowledged = req.query.status === 'all';
+    res.json({ alerts: listAlerts({ portfolioId, includeAcknowledged }) });
+  });
+
+  app.post('/api/alerts/evaluate', async (req: Request, res: Response) => {
+    try {
+      const portfolioId = Number(req.body?.portfolioId || 1);
+      const triggered = await evaluatePortfolioAlerts({ portfolioId, providers, channels: alertChannels });
+      res.json({ triggered });
+    } catch (error) {
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Alert evaluation failed' });
+    }
+  });
+
+  app.post('/api/alerts/:id/acknowledge', (req: Request, res: Response) => {
+    try {
+      const id = idParamSchema.parse(req.params.id);
+      const portfolioId = Number(req.body?.portfolioId || req.query.portfolioId || 1);
+      const alert = acknowledgeAlert({ id, portfolioId });
+      if (!alert) {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+      res.json({ alert });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/jobs', (req: Request, res: Response) => {
+    res.json({ enabled: Boolean(scheduler), jobs: scheduler?.getStatus() ?? [] });
+  });
+
+  app.post('/api/jobs/:name/run', async (req: Request, res: Response) => {
+    const job = await scheduler?.runJob(req.params.name);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json({ job });
+  });
+
+  app.get('/api/export/holdings', async (req: Request, res: Response) => {
+    let scope: PortfolioRow[] | null;
+    let format: ExportFormat;
+    try {
+      scope = resolvePortfolioScope(req.query);
+      format = exportFormatSchema.parse(req.query.format);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+
+    try {
+      const portfolioId = Number(req.query.portfolioId) || 1;
+      const currency = typeof req.query.currency === 'string'
+        ? req.query.currency.toUpperCase()
+        : scope ? 'USD' : getPortfolioBaseCurrency(portfolioId);
+      const holdings = scope
+        ? (await getAggregateHoldings({ portfolios: scope, providers, baseCurrency: currency })).holdings
+        : await listHoldingsWithQuotes({ portfolioId, providers, baseCurrency: currency });
+      sendExport(res, { rows: toHoldingExportRows(holdings, currency), format, name: 'holdings' });
+    } catch (error) {
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to export holdings' });
+    }
+  });
+
+  app.get('/api/export/transactions', (req: Request, res: Response) => {
+    try {
+      const scope = resolvePortfolioScope(req.query);
+      const format = exportFormatSchema.parse(req.query.format);
+      const portfolioIds = scope ? scope.map((portfolio) => portfolio.id) : [Number(req.query.portfolioId) || 1];
+      const rows = toTransactionExportRows(portfolioIds.flatMap((portfolioId) => listTransactions(portfolioId)));
+      sendExport(res, { rows, format, name: 'transactions' });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/export/performance', async (req: Request, res: Response) => {
+    let scope: PortfolioRow[] | null;
+    let format: ExportFormat;
+    try {
+      scope = resolvePortfolioScope(req.query);
+      format = exportFormatSchema.parse(req.query.format);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+
+    try {
+      const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+      const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+      const portfolioId = Number(req.query.portfolioId) || 1;
+      const currency = typeof req.query.currency === 'string'
+        ? req.query.currency.toUpperCase()
+        : scope ? 'USD' : getPortfolioBaseCurrency(portfolioId);
+      const result = scope
+        ? await getAggregatePerformance({ portfolios: scope, from, to, providers, baseCurrency: currency })
+        : await getPerformanceSeries({ portfolioId, from, to, providers, baseCurrency: currency });
+      const rows = toPerformanceExportRows(result.series, result.total_return_series, currency);
+      sendExport(res, { rows, format, name: 'performance' });
+    } catch (error) {
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to export performance' });
+    }
+  });
+
+  app.get('/api/backup', async (req: Request, res: Response) => {
+    try {
+      const backup = await createTemporaryBackup();
+      res.download(backup.path, `portfolio-${new Date().toISOString().slice(0, 10)}.db`, () => backup.cleanup());
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Backup failed' });
+    }
+  });
+
+  app.get('/api/backup/dump', (req: Request, res: Response) => {
+    res.attachment(`portfolio-dump-${new Date().toISOString().slice(0, 10)}.json`);
+    res.json(createDump());
+  });
+
+  app.post('/api/backup/restore', (req: Request, res: Response) => {
+    try {
+      const result = restoreDump(req.body, { dryRun: req.query.dryRun === 'true' });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof RestoreValidationError) {
+        return res.status(400).json({ error: error.message, details: error.problems });
+      }
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Restore failed' });
+    }
+  });
+
+  app.get('/api/importers', (req: Request, res: Response) => {
+    res.json({ importers: listImporters() });
+  });
+
+  // The file is sent as the raw request body; options travel in the query string.
+  app.post('/api/import', express.raw({ type: () => true, limit: '10mb' }), (req: Request, res: Response) => {
+    try {
+      const portfolioId = Number(req.query.portfolioId || 1);
+      if (!getPortfolio(portfolioId)) {
+        return res.status(404).json({ error: 'Portfolio not found' });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: 'Upload the file as the request body' });
+      }
+      const summary = runImport({
+        portfolioId,
+        content: req.body,
+        filename: typeof req.query.filename === 'string' ? req.query.filename : undefined,
+        format: typeof req.query.format === 'string' && req.query.format ? req.query.format : undefined,
+        mapping: typeof req.query.mapping === 'string'
+          ? importMappingSchema.parse(JSON.parse(req.query.mapping))
+          : undefined,
+        currency: typeof req.query.currency === 'string'
+          ? currencySchema.parse(req.query.currency)
+          : getPortfolioBaseCurrency(portfolioId),
+        dryRun: req.query.dryRun === 'true'
+      });
+      res.status(summary.dry_run ? 200 : 201).json(summary);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return res.status(400).json({ error: error.message, details: error.details });
+      }
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+  });
+
+  app.get('/api/portfolio/performance', async (req: Request, res: Response) => {
+    let scope: PortfolioRow[] | null;
+    try {
+      scope = resolvePortfolioScope(req.query);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid request' });
+    }
+
+    try {
       const from = typeof req.query.from === 'string' ? req.query.from : undefined;
       const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+      const tradingDaysOnly = req.query.tradingDays === 'true' || req.query.tradingDays === '1';
+      if (scope) {
+        const currency = typeof req.query.currency === 'string' ? req.query.currency.toUpperCase() : 'USD';
+        const result = await getAggregatePerformance({
+          portfolios: scope,
+          from,
+          to,
+          providers,
+          baseCurrency: currency,
+          tradingDaysOnly
+        });
+        return res.json({ ...result, benchmarks: [], base_currency: currency });
+      }
+
+      const portfolioId = Number(req.query.portfolioId || 1);
       const currency = typeof req.query.currency === 'string'
         ? req.query.currency.toUpperCase()
         : getPortfolioBaseCurrency(portfolioId);
@@ -162,14 +1086,43 @@ const createApp = ({ providers }: { providers: MarketDataProvider[] }) => {
         from,
         to,
         providers,
+        baseCurrency: currency,
+        tradingDaysOnly
+      });
+      // Benchmarks replay deposits and withdrawals, so they start from the value including cash.
+      const benchmarks = await getBenchmarkSeries({
+        portfolioId,
+        series: result.total_return_series,
+        providers,
         baseCurrency: currency
       });
-      res.json({ ...result, base_currency: currency });
+      res.json({ ...result, benchmarks, base_currency: currency });
     } catch (error) {
       res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to fetch performance' });
     }
   });
 
+  app.get('/api/portfolio/returns', async (req: Request, res: Response) => {
+    try {
+      const portfolioId = Number(req.query.portfolioId || 1);
+      const from = typeof req.query.from === 'string' ? req.query.from : undefined;
+      const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+      const currency = typeof req.query.currency === 'string'
+        ? req.query.currency.toUpperCase()
+        : getPortfolioBaseCurrency(portfolioId);
+      const result = await getPortfolioReturns({
+        portfolioId,
+        from,
+        to,
+        providers,
+        baseCurrency: currency
+      });
+      res.json({ ...result, base_currency: currency });
+    } catch (error) {
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to compute returns' });
+    }
+  });
+
   app.post('/api/refresh', async (req: Request, res: Response) => {
     try {
       const portfolioId = Number(req.body?.portfolioId || 1);
@@ -0,0 +1,15 @@
+// How crypto quote assets convert into fiat. Stablecoins are taken at their peg; other assets are
+// priced through a pair on a crypto market, whose own quote asset converts in turn.
+type CryptoQuoteAsset = { peg: string } | { pair: string; market: string };
+
+const CRYPTO_QUOTE_ASSETS: Record<string, CryptoQuoteAsset> = {
+  USDT: { peg: 'USD' },
+  USDC: { peg: 'USD' },
+  BTC: { pair: 'BTC/USDT', market: 'BINANCE' },
+  ETH: { pair: 'ETH/USDT', market: 'BINANCE' }
+};
+
+const getCryptoQuoteAsset = (currency: string) => CRYPTO_QUOTE_ASSETS[currency.toUpperCase()] ?? null;
+
+export type { CryptoQuoteAsset };
+export { CRYPTO_QUOTE_ASSETS, getCryptoQuoteAsset };
@@ -1,152 +1,166 @@
-export type MarketRegion = 'US' | 'UK' | 'EU' | 'CRYPTO';
-export type AssetType = 'equity' | 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+
+export type MarketRegion = 'US' | 'UK' | 'EU' | 'CRYPTO' | 'OTHER';
+
+export const ASSET_TYPES = ['equity', 'etf', 'bond', 'fund', 'commodity', 'cash_equivalent', 'crypto'] as const;
+export type AssetType = (typeof ASSET_TYPES)[number];
+
+// Exchange-local wall-clock times, 'HH:MM'.
+export type TradingSession = { open: string; close: string };
+
+// How one provider is asked for a market's symbols. `exchange` replaces the market's
+// providerExchange, and `symbol` rewrites the ticker, e.g. '{ticker}.L'.
+export type ProviderRoute = {
+  provider: string;
+  exchange?: string;
+  symbol?: string;
+};
 
 export type MarketDefinition = {
   code: string;
   label: string;
   region: MarketRegion;
   country: string;
+  // Default asset class of the market's listings; instruments can override it per symbol.
   assetType: AssetType;
   providerExchange: string;
   currency: string;
+  timeZone: string;
+  // Regular session; null for markets that trade around the clock.
+  session: TradingSession | null;
+  calendar?: string;
+  // Full-day weekday closures; early closes are treated as full sessions.
+  holidays: string[];
+  // Last day of the last year the holiday list covers; null when the market has no calendar.
+  holidaysThrough: string | null;
+  // Providers that support the market, highest priority first.
+  providers: ProviderRoute[];
   defaultQuote?: string;
   aliases?: string[];
   notes?: string;
 };
 
-export const SUPPORTED_MARKETS: MarketDefinition[] = [
-  {
-    code: 'NASDAQ',
-    label: 'NASDAQ (US)',
-    region: 'US',
-    country: 'United States',
-    assetType: 'equity',
-    providerExchange: 'NASDAQ',
-    currency: 'USD'
-  },
-  {
-    code: 'NYSE',
-    label: 'NYSE (US)',
-    region: 'US',
-    country: 'United States',
-    assetType: 'equity',
-    providerExchange: 'NYSE',
-    currency: 'USD'
-  },
-  {
-    code: 'AMEX',
-    label: 'NYSE American (AMEX)',
-    region: 'US',
-    country: 'United States',
-    assetType: 'equity',
-    providerExchange: 'AMEX',
-    currency: 'USD'
-  },
-  {
-    code: 'XLON',
-    label: 'London Stock Exchange (XLON)',
-    region: 'UK',
-    country: 'United Kingdom',
-    assetType: 'equity',
-    providerExchange: 'XLON',
-    currency: 'GBP',
-    aliases: ['LSE']
-  },
-  {
-    code: 'XWAR',
-    label: 'Warsaw Stock Exchange (XWAR/GPW)',
-    region: 'EU',
-    country: 'Poland',
-    assetType: 'equity',
-    providerExchange: 'XWAR',
-    currency: 'PLN',
-    aliases: ['GPW']
-  },
-  {
-    code: 'XETR',
-    label: 'XETRA (Germany)',
-    region: 'EU',
-    country: 'Germany',
-    assetType: 'equity',
-    providerExchange: 'XETR',
-    currency: 'EUR'
-  },
-  {
-    code: 'XPAR',
-    label: 'Euronext Paris (XPAR)',
-    region: 'EU',
-    country: 'France',
-    assetType: 'equity',
-    providerExchange: 'XPAR',
-    currency: 'EUR'
-  },
-  {
-    code: 'XAMS',
-    label: 'Euronext Amsterdam (XAMS)',
-    region: 'EU',
-    country: 'Netherlands',
-    assetType: 'equity',
-    providerExchange: 'XAMS',
-    currency: 'EUR'
-  },
-  {
-    code: 'XBRU',
-    label: 'Euronext Brussels (XBRU)',
-    region: 'EU',
-    country: 'Belgium',
-    assetType: 'equity',
-    providerExchange: 'XBRU',
-    currency: 'EUR'
-  },
-  {
-    code: 'XMIL',
-    label: 'Euronext Milan (XMIL)',
-    region: 'EU',
-    country: 'Italy',
-    assetType: 'equity',
-    providerExchange: 'XMIL',
-    currency: 'EUR'
-  },
-  {
-    code: 'XMAD',
-    label: 'Bolsa de Madrid (XMAD)',
-    region: 'EU',
-    country: 'Spain',
-    assetType: 'equity',
-    providerExchange: 'XMAD',
-    currency: 'EUR'
-  },
-  {
-    code: 'XLIS',
-    label: 'Euronext Lisbon (XLIS)',
-    region: 'EU',
-    country: 'Portugal',
-    assetType: 'equity',
-    providerExchange: 'XLIS',
-    currency: 'EUR'
-  },
-  {
-    code: 'BINANCE',
-    label: 'Binance (Crypto)',
-    region: 'CRYPTO',
-    country: 'Global',
-    assetType: 'crypto',
-    providerExchange: 'Binance',
-    currency: 'USD',
-    defaultQuote: 'USDT',
-    notes: 'Use pairs like BTC/USDT; BTC will default to BTC/USDT.'
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const sessionSchema = z.object({
+  open: z.string().regex(/^\d{2}:\d{2}$/),
+  close: z.string().regex(/^\d{2}:\d{2}$/)
+});
+
+const marketSchema = z.object({
+  code: z.string().min(1),
+  label: z.string().min(1),
+  region: z.enum(['US', 'UK', 'EU', 'CRYPTO', 'OTHER']),
+  country: z.string(),
+  assetType: z.enum(ASSET_TYPES),
+  providerExchange: z.string().min(1),
+  currency: z.string().length(3),
+  timeZone: z.string().min(1),
+  session: sessionSchema.nullable(),
+  calendar: z.string().optional(),
+  providers: z.array(
+    z.object({
+      provider: z.string().min(1),
+      exchange: z.string().optional(),
+      symbol: z.string().includes('{ticker}').optional()
+    })
+  ),
+  defaultQuote: z.string().optional(),
+  aliases: z.array(z.string()).optional(),
+  notes: z.string().optional()
+});
+
+const registrySchema = z.object({
+  calendars: z.record(z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/))).default({}),
+  markets: z.array(marketSchema).default([])
+});
+
+// Overrides replace whole fields of a market with the same code; new codes are appended.
+const overrideSchema = z.object({
+  calendars: registrySchema.shape.calendars,
+  markets: z.array(marketSchema.partial().required({ code: true })).default([])
+});
+
+type MarketConfig = z.infer<typeof marketSchema>;
+
+const readJson = (file: string) => JSON.parse(fs.readFileSync(file, 'utf-8')) as unknown;
+
+// MARKETS_CONFIG points at a JSON file with the same shape as markets.json.
+const readOverride = () => {
+  const file = process.env.MARKETS_CONFIG;
+  if (!file) return null;
+  try {
+    return overrideSchema.parse(readJson(path.resolve(file)));
+  } catch (error) {
+    console.warn(`Ignoring MARKETS_CONFIG: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+};
+
+const loadMarkets = (): MarketDefinition[] => {
+  const registry = registrySchema.parse(readJson(path.join(__dirname, 'markets.json')));
+  const override = readOverride();
+  const calendars = { ...registry.calendars, ...override?.calendars };
+  const markets = new Map<string, MarketConfig>(
+    registry.markets.map((market) => [market.code.toUpperCase(), market])
+  );
+
+  for (const market of override?.markets ?? []) {
+    const code = market.code.toUpperCase();
+    const merged = marketSchema.safeParse({ ...markets.get(code), ...market });
+    if (!merged.success) {
+      console.warn(`Ignoring MARKETS_CONFIG entry ${market.code}: ${merged.error.message}`);
+      continue;
+    }
+    markets.set(code, merged.data);
   }
-];
+
+  return Array.from(markets.values()).map((market) => {
+    const holidays = market.calendar ? calendars[market.calendar] ?? [] : [];
+    const lastYear = holidays.reduce((max, date) => (date > max ? date : max), '').slice(0, 4);
+    return { ...market, holidays, holidaysThrough: lastYear ? `${lastYear}-12-31` : null };
+  });
+};
+
+const supportedMarkets = loadMarkets();
 
 const marketIndex = new Map<string, MarketDefinition>();
 
-for (const market of SUPPORTED_MARKETS) {
+for (const market of supportedMarkets) {
   marketIndex.set(market.code.toUpperCase(), market);
   market.aliases?.forEach((alias) => marketIndex.set(alias.toUpperCase(), market));
 }
 
+const routedProviders = new Set(
+  supportedMarkets.flatMap((market) => market.providers.map((route) => route.provider.toUpperCase()))
+);
+
 export const getMarketDefinition = (marketCode: string) => {
   return marketIndex.get(marketCode.toUpperCase());
 };
 
-export const getSupportedMarkets = () => SUPPORTED_MARKETS;
+export const getSupportedMarkets = () => supportedMarkets;
+
+// Providers in the registry's priority order for the market. Providers the registry never
+// mentions (plug-ins, test doubles) follow the configured ones; unknown markets keep the given order.
+export const routeProviders = <T extends { name: string }>(providers: T[], marketCode: string): T[] => {
+  const definition = getMarketDefinition(marketCode);
+  if (!definition) return providers;
+  const configured = definition.providers
+    .map((route) => providers.find((provider) => provider.name === route.provider.toUpperCase()))
+    .filter((provider): provider is T => !!provider);
+  return [...configured, ...providers.filter((provider) => !routedProviders.has(provider.name))];
+};
+
+// The ticker and exchange a provider expects for a symbol on this market.
+export const toProviderSymbol = (providerName: string, marketCode: string, ticker: string) => {
+  const definition = getMarketDefinition(marketCode);
+  const route = definition?.providers.find((item) => item.provider.toUpperCase() === providerName);
+  return {
+    ticker: route?.symbol ? route.symbol.replace('{ticker}', ticker) : ticker,
+    market: route?.exchange || definition?.providerExchange || marketCode
+  };
+};
@@ -0,0 +1,50 @@
+export type ProviderLimits = {
+  // Token bucket: sustained rate and how many calls may go out back to back.
+  requestsPerMinute: number;
+  burst: number;
+  // Longest a call waits for a token before the chain moves on to the next provider.
+  maxWaitMs: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  // Consecutive transient failures that open the circuit, and how long it stays open.
+  failureThreshold: number;
+  cooldownSeconds: number;
+};
+
+const DEFAULT_LIMITS: ProviderLimits = {
+  requestsPerMinute: 60,
+  burst: 10,
+  maxWaitMs: 10000,
+  maxRetries: 2,
+  retryBaseMs: 500,
+  failureThreshold: 5,
+  cooldownSeconds: 120
+};
+
+const PROVIDER_LIMITS: Record<string, Partial<ProviderLimits>> = {
+  // Free tier: 8 credits per minute.
+  TWELVE_DATA: { requestsPerMinute: 8, burst: 8 },
+  STOOQ: { requestsPerMinute: 30, burst: 5 },
+  // Unofficial endpoints without a published quota; bursts get answered with 429.
+  YAHOO: { requestsPerMinute: 60, burst: 5 },
+  // Weight budget is 6000 per minute; ticker and klines calls cost 2 to 4.
+  BINANCE: { requestsPerMinute: 600, burst: 20 },
+  FRANKFURTER: { requestsPerMinute: 60, burst: 10 }
+};
+
+// PROVIDER_LIMITS='{"TWELVE_DATA":{"requestsPerMinute":55}}' overrides single fields per provider.
+const parseEnvLimits = (): Record<string, Partial<ProviderLimits>> => {
+  const raw = process.env.PROVIDER_LIMITS;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, Partial<ProviderLimits>>;
+  } catch {
+    console.warn('Ignoring PROVIDER_LIMITS: not valid JSON');
+    return {};
+  }
+};
+
+export const getProviderLimits = (providerName: string): ProviderLimits => {
+  const name = providerName.toUpperCase();
+  return { ...DEFAULT_LIMITS, ...PROVIDER_LIMITS[name], ...parseEnvLimits()[name] };
+};
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const backendRoot = path.resolve(__dirname, '..');
+
+const resolvedDbPath = (() => {
+  const configured = process.env.DATABASE_PATH || '../data/portfolio.db';
+  if (configured === ':memory:') return configured;
+  const absolute = path.isAbsolute(configured)
+    ? configured
+    : path.resolve(backendRoot, configured);
+  return absolute;
+})();
+
+const ensureDirectory = (dbFilePath: string) => {
+  const dir = path.dirname(dbFilePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+};
+
+const openDatabase = () => {
+  if (resolvedDbPath !== ':memory:') {
+    ensureDirectory(resolvedDbPath);
+  }
+  const database = new Database(resolvedDbPath);
+  database.pragma('journal_mode = WAL');
+  // Must be set outside a transaction, so it cannot live in a migration.
+  database.pragma('foreign_keys = ON');
+  return database;
+};
+
+export type SqliteDatabase = ReturnType<typeof openDatabase>;
+
+export { openDatabase, resolvedDbPath };
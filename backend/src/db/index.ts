@@ -1,37 +1,9 @@
-import fs from 'fs';
-import path from 'path';
-import Database from 'better-sqlite3';
-import { fileURLToPath } from 'url';
+import { openDatabase, resolvedDbPath } from './connection';
+import { runMigrations } from './migrate';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const backendRoot = path.resolve(__dirname, '..');
-const schemaPath = path.join(__dirname, 'schema.sql');
+const db = openDatabase();
 
-const resolvedDbPath = (() => {
-  const configured = process.env.DATABASE_PATH || '../data/portfolio.db';
-  if (configured === ':memory:') return configured;
-  const absolute = path.isAbsolute(configured)
-    ? configured
-    : path.resolve(backendRoot, configured);
-  return absolute;
-})();
-
-const ensureDirectory = (dbFilePath: string) => {
-  const dir = path.dirname(dbFilePath);
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
-  }
-};
-
-if (resolvedDbPath !== ':memory:') {
-  ensureDirectory(resolvedDbPath);
-}
-
-const db = new Database(resolvedDbPath);
-
-db.pragma('journal_mode = WAL');
-
-db.exec(fs.readFileSync(schemaPath, 'utf-8'));
+runMigrations(db);
 
 const ensureDefaultPortfolio = () => {
   const row = db.prepare('SELECT id FROM portfolios ORDER BY id LIMIT 1').get() as
@@ -44,6 +16,19 @@ const ensureDefaultPortfolio = () => {
   }
 };
 
+// Lots created before the transactions ledger (or inserted directly by scripts) get their BUY entry here.
+const backfillBuyTransactions = () => {
+  db.prepare(
+    `INSERT INTO transactions (portfolio_id, holding_id, ticker, market, type, trade_date, price, quantity)
+     SELECT h.portfolio_id, h.id, h.ticker, h.market, 'BUY', h.buy_date, h.buy_price, h.quantity
+     FROM holdings h
+     WHERE NOT EXISTS (
+       SELECT 1 FROM transactions t WHERE t.holding_id = h.id AND t.type = 'BUY'
+     )`
+  ).run();
+};
+
 ensureDefaultPortfolio();
+backfillBuyTransactions();
 
 export { db, resolvedDbPath };
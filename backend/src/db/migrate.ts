@@ -0,0 +1,67 @@
+import type { SqliteDatabase } from './connection';
+import { migrations } from './migrations';
+import type { Migration } from './migrations';
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  applied_at: string | null;
+};
+
+const ensureVersionTable = (database: SqliteDatabase) => {
+  database.exec(
+    `CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )`
+  );
+};
+
+const listApplied = (database: SqliteDatabase) => {
+  ensureVersionTable(database);
+  const rows = database
+    .prepare('SELECT version, name, applied_at FROM schema_version ORDER BY version')
+    .all() as MigrationStatus[];
+  return new Map(rows.map((row) => [row.version, row]));
+};
+
+const getMigrationStatus = (database: SqliteDatabase): MigrationStatus[] => {
+  const applied = listApplied(database);
+  const known = migrations.map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    applied_at: applied.get(migration.version)?.applied_at ?? null
+  }));
+  // Versions recorded by a newer build than this one still show up so the mismatch is visible.
+  const unknown = Array.from(applied.values()).filter(
+    (row) => !migrations.some((migration) => migration.version === row.version)
+  );
+  return [...known, ...unknown].sort((a, b) => a.version - b.version);
+};
+
+// Each migration runs in its own transaction together with its schema_version row.
+const runMigrations = (database: SqliteDatabase, { target }: { target?: number } = {}) => {
+  const applied = listApplied(database);
+  const newest = Math.max(0, ...applied.keys());
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+  if (newest > latest) {
+    throw new Error(`Database schema version ${newest} is newer than this build (${latest})`);
+  }
+
+  const pending = migrations.filter(
+    (migration) => !applied.has(migration.version) && (target === undefined || migration.version <= target)
+  );
+  const record = database.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+  const ran: Migration[] = [];
+  for (const migration of pending) {
+    database.transaction(() => {
+      migration.up(database);
+      record.run(migration.version, migration.name);
+    })();
+    ran.push(migration);
+  }
+  return ran.map(({ version, name }) => ({ version, name }));
+};
+
+export { getMigrationStatus, runMigrations };
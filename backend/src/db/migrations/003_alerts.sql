@@ -0,0 +1,33 @@
+CREATE TABLE alert_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  portfolio_id INTEGER NOT NULL,
+  ticker TEXT NOT NULL,
+  market TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('PRICE_ABOVE', 'PRICE_BELOW', 'PCT_FROM_BUY', 'DAILY_DROP', 'POSITION_WEIGHT')),
+  threshold REAL NOT NULL,
+  channels TEXT NOT NULL DEFAULT 'in_app',
+  is_triggered INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (portfolio_id) REFERENCES portfolios(id)
+);
+
+CREATE INDEX alert_rules_symbol_idx ON alert_rules (ticker, market);
+
+CREATE TABLE alerts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  portfolio_id INTEGER NOT NULL,
+  rule_id INTEGER,
+  ticker TEXT NOT NULL,
+  market TEXT NOT NULL,
+  type TEXT NOT NULL,
+  threshold REAL NOT NULL,
+  value REAL NOT NULL,
+  message TEXT NOT NULL,
+  deliveries TEXT,
+  triggered_at TEXT NOT NULL DEFAULT (datetime('now')),
+  acknowledged_at TEXT,
+  FOREIGN KEY (portfolio_id) REFERENCES portfolios(id),
+  FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE SET NULL
+);
+
+CREATE INDEX alerts_portfolio_idx ON alerts (portfolio_id, acknowledged_at);
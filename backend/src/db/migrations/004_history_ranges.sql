@@ -0,0 +1,20 @@
+-- Date ranges already requested from a provider per symbol, interval and source. Coverage is
+-- decided from these instead of the first and last cached rows, which skip weekends and holidays.
+CREATE TABLE history_ranges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticker TEXT NOT NULL,
+  market TEXT NOT NULL,
+  interval TEXT NOT NULL DEFAULT '1d',
+  source TEXT NOT NULL,
+  range_from TEXT NOT NULL,
+  range_to TEXT NOT NULL,
+  fetched_at TEXT NOT NULL
+);
+
+CREATE INDEX history_ranges_lookup_idx ON history_ranges (ticker, market, interval);
+
+-- Seed from rows cached before ranges were tracked, so upgrading does not refetch everything.
+INSERT INTO history_ranges (ticker, market, interval, source, range_from, range_to, fetched_at)
+SELECT ticker, market, interval, source, MIN(date), MAX(date), MAX(fetched_at)
+FROM price_history
+GROUP BY ticker, market, interval, source;
@@ -0,0 +1,37 @@
+-- Per-symbol metadata that the market registry cannot know: the asset class of a listing, and
+-- instruments valued without a provider, such as fund units or retail treasury bonds.
+CREATE TABLE instruments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ticker TEXT NOT NULL,
+  market TEXT NOT NULL,
+  name TEXT,
+  asset_class TEXT NOT NULL CHECK (asset_class IN ('equity', 'etf', 'bond', 'fund', 'commodity', 'cash_equivalent', 'crypto')),
+  currency TEXT,
+  pricing TEXT NOT NULL DEFAULT 'PROVIDER' CHECK (pricing IN ('PROVIDER', 'MANUAL', 'ACCRUAL')),
+  face_value REAL,
+  issue_date TEXT,
+  maturity_date TEXT,
+  capitalization TEXT CHECK (capitalization IN ('ANNUAL', 'NONE')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (ticker, market)
+);
+
+-- User-entered prices of MANUAL instruments, e.g. a fund's published unit value.
+CREATE TABLE instrument_prices (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  instrument_id INTEGER NOT NULL,
+  date TEXT NOT NULL,
+  price REAL NOT NULL,
+  FOREIGN KEY (instrument_id) REFERENCES instruments(id) ON DELETE CASCADE,
+  UNIQUE (instrument_id, date)
+);
+
+-- Annual rates of ACCRUAL instruments; a rate applies to every interest period starting on or after from_date.
+CREATE TABLE instrument_rates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  instrument_id INTEGER NOT NULL,
+  from_date TEXT NOT NULL,
+  rate REAL NOT NULL,
+  FOREIGN KEY (instrument_id) REFERENCES instruments(id) ON DELETE CASCADE,
+  UNIQUE (instrument_id, from_date)
+);
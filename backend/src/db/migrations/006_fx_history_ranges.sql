@@ -0,0 +1,19 @@
+-- Date ranges already requested from a provider per currency pair and source, so FX history
+-- coverage notices holes between earlier fetches instead of checking only the first and last rows.
+CREATE TABLE fx_history_ranges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  base TEXT NOT NULL,
+  quote TEXT NOT NULL,
+  source TEXT NOT NULL,
+  range_from TEXT NOT NULL,
+  range_to TEXT NOT NULL,
+  fetched_at TEXT NOT NULL
+);
+
+CREATE INDEX fx_history_ranges_lookup_idx ON fx_history_ranges (base, quote);
+
+-- Seed from rows cached before ranges were tracked, so upgrading does not refetch everything.
+INSERT INTO fx_history_ranges (base, quote, source, range_from, range_to, fetched_at)
+SELECT base, quote, source, MIN(date), MAX(date), MAX(fetched_at)
+FROM fx_history
+GROUP BY base, quote, source;
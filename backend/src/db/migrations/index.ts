@@ -0,0 +1,37 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { SqliteDatabase } from '../connection';
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (database: SqliteDatabase) => void;
+};
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const runSqlFile = (file: string) => (database: SqliteDatabase) => {
+  database.exec(fs.readFileSync(path.join(__dirname, file), 'utf-8'));
+};
+
+// Databases that already carry a change made before migrations existed are left as they are.
+const addColumnIfMissing = (table: string, column: string, definition: string) => (database: SqliteDatabase) => {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some((existing) => existing.name === column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+// Append only: a released migration is never edited, a follow-up migration fixes it instead.
+const migrations: Migration[] = [
+  // Uses CREATE ... IF NOT EXISTS so databases created from the old schema.sql are adopted as they are.
+  { version: 1, name: 'baseline', up: runSqlFile('001_baseline.sql') },
+  { version: 2, name: 'portfolio_archived_at', up: addColumnIfMissing('portfolios', 'archived_at', 'TEXT') },
+  { version: 3, name: 'alerts', up: runSqlFile('003_alerts.sql') },
+  { version: 4, name: 'history_ranges', up: runSqlFile('004_history_ranges.sql') },
+  { version: 5, name: 'instruments', up: runSqlFile('005_instruments.sql') },
+  { version: 6, name: 'fx_history_ranges', up: runSqlFile('006_fx_history_ranges.sql') }
+];
+
+export { migrations };
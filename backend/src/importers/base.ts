@@ -0,0 +1,77 @@
+export type ImportRecordKind = 'BUY' | 'SELL' | 'DIVIDEND' | 'DEPOSIT' | 'WITHDRAWAL' | 'FEE';
+
+export type ImportRecord = {
+  kind: ImportRecordKind;
+  date: string;
+  ticker?: string;
+  market?: string;
+  price?: number;
+  quantity?: number;
+  fee?: number;
+  // Cash amount for DIVIDEND (gross), DEPOSIT, WITHDRAWAL and FEE records.
+  amount?: number;
+  withholding_tax?: number;
+  currency?: string;
+  // Last known price from the export (open-position reports), cached as an IMPORT quote.
+  market_price?: number;
+  source_row: number;
+};
+
+export type ImportSkip = {
+  row: number;
+  reason: string;
+};
+
+export type ImportTable = {
+  name: string;
+  rows: unknown[][];
+};
+
+export type GenericColumnMapping = {
+  ticker: string;
+  date: string;
+  price: string;
+  quantity: string;
+  market?: string;
+  side?: string;
+  fee?: string;
+  default_market?: string;
+};
+
+export type ImportOptions = {
+  // Account currency for cash lines that do not name one.
+  currency: string;
+  filename?: string;
+  mapping?: GenericColumnMapping;
+};
+
+export type ParsedImport = {
+  records: ImportRecord[];
+  skipped: ImportSkip[];
+  unsupported_markets: string[];
+  report_date?: string;
+};
+
+export class ImportError extends Error {
+  details?: unknown;
+
+  constructor(message: string, details?: unknown) {
+    super(message);
+    this.name = 'ImportError';
+    this.details = details;
+  }
+}
+
+export abstract class BrokerImporter {
+  id: string;
+  label: string;
+
+  constructor(id: string, label: string) {
+    this.id = id;
+    this.label = label;
+  }
+
+  // True when the tables look like this importer's layout; used when no format is given.
+  abstract detect(tables: ImportTable[]): boolean;
+  abstract parse(tables: ImportTable[], options: ImportOptions): ParsedImport;
+}
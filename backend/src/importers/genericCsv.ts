@@ -0,0 +1,62 @@
+import { BrokerImporter, ImportError, ImportOptions, ImportTable, ParsedImport } from './base';
+import { createColumnLookup, createImportCollector, findHeaderIndex, parseDate, parseNumber } from './shared';
+
+export class GenericCsvImporter extends BrokerImporter {
+  constructor() {
+    super('generic-csv', 'Generic CSV with column mapping');
+  }
+
+  // Any table can be mapped, so this format is only used when asked for explicitly.
+  detect(_tables: ImportTable[]) {
+    return false;
+  }
+
+  parse(tables: ImportTable[], options: ImportOptions): ParsedImport {
+    const mapping = options.mapping;
+    if (!mapping) {
+      throw new ImportError('Generic CSV import needs a column mapping');
+    }
+
+    const collector = createImportCollector();
+    const required = [mapping.ticker, mapping.date, mapping.price, mapping.quantity];
+    const table = tables.find((candidate) => findHeaderIndex(candidate.rows, required) >= 0);
+    if (!table) {
+      throw new ImportError('Mapped columns not found in the file', { required });
+    }
+    const rows = table.rows;
+    const headerIndex = findHeaderIndex(rows, required);
+    const cell = createColumnLookup(rows[headerIndex]);
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const row = rows[i];
+      const rowNumber = i + 1;
+      const instrument = collector.instrument(rowNumber, cell(row, mapping.ticker), {
+        exchange: mapping.market ? String(cell(row, mapping.market) ?? '') : undefined,
+        defaultMarket: mapping.default_market
+      });
+      if (!instrument) continue;
+
+      const date = parseDate(cell(row, mapping.date));
+      const price = parseNumber(cell(row, mapping.price));
+      const quantity = parseNumber(cell(row, mapping.quantity));
+      if (!date || price === null || quantity === null || quantity === 0) {
+        collector.skip(rowNumber, 'Missing date, price or quantity');
+        continue;
+      }
+
+      const side = String(cell(row, mapping.side) ?? '').trim().toUpperCase();
+      const isSell = side ? side.startsWith('S') : quantity < 0;
+      collector.records.push({
+        kind: isSell ? 'SELL' : 'BUY',
+        ...instrument,
+        date,
+        price,
+        quantity: Math.abs(quantity),
+        fee: Math.abs(parseNumber(cell(row, mapping.fee)) ?? 0),
+        source_row: rowNumber
+      });
+    }
+
+    return collector.finish();
+  }
+}
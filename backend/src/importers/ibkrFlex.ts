@@ -0,0 +1,152 @@
+import { BrokerImporter, ImportOptions, ImportRecord, ImportTable, ParsedImport } from './base';
+import { createColumnLookup, createImportCollector, parseDate, parseNumber } from './shared';
+
+type Section = 'TRADES' | 'CASH' | null;
+
+// Flex queries with header/trailer records prefix every line with HEADER/DATA and a section code.
+const stripRecordPrefix = (row: unknown[]) =>
+  row[0] === 'HEADER' || row[0] === 'DATA' ? row.slice(2) : row;
+
+const sectionOf = (row: unknown[]): Section => {
+  const names = row.map((cell) => String(cell ?? '').trim());
+  if (!names.includes('Symbol')) return null;
+  if (names.includes('TradePrice') && names.includes('Quantity')) return 'TRADES';
+  if (names.includes('Type') && names.includes('Amount')) return 'CASH';
+  return null;
+};
+
+export class IbkrFlexImporter extends BrokerImporter {
+  constructor() {
+    super('ibkr-flex', 'Interactive Brokers Flex query (CSV)');
+  }
+
+  detect(tables: ImportTable[]) {
+    return tables.some((table) => table.rows.some((row) => sectionOf(stripRecordPrefix(row)) !== null));
+  }
+
+  parse(tables: ImportTable[], options: ImportOptions): ParsedImport {
+    const collector = createImportCollector();
+    const rows = tables[0]?.rows ?? [];
+    const dividends = new Map<string, ImportRecord>();
+    const taxes: Array<{ key: string; amount: number; row: number }> = [];
+
+    // A Flex CSV repeats a header line at the start of every section it contains.
+    let section: Section = null;
+    let cell = createColumnLookup([]);
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = stripRecordPrefix(rows[i]);
+      const rowNumber = i + 1;
+      const headerSection = sectionOf(row);
+      if (headerSection) {
+        section = headerSection;
+        cell = createColumnLookup(row);
+        continue;
+      }
+      if (!section) continue;
+
+      const assetClass = cell(row, 'AssetClass');
+      if (section === 'TRADES') {
+        if (assetClass && assetClass !== 'STK') {
+          collector.skip(rowNumber, `Unsupported asset class ${String(assetClass)}`);
+          continue;
+        }
+        const instrument = collector.instrument(rowNumber, cell(row, 'Symbol'), {
+          exchange: String(cell(row, 'ListingExchange') ?? cell(row, 'Exchange') ?? '')
+        });
+        if (!instrument) continue;
+
+        const date = parseDate(cell(row, 'TradeDate') ?? cell(row, 'DateTime'));
+        const quantity = parseNumber(cell(row, 'Quantity'));
+        const price = parseNumber(cell(row, 'TradePrice'));
+        if (!date || quantity === null || price === null || quantity === 0) {
+          collector.skip(rowNumber, 'Missing trade date, quantity or price');
+          continue;
+        }
+        const side = String(cell(row, 'Buy/Sell') ?? '').toUpperCase();
+        const isSell = side ? side.startsWith('SELL') : quantity < 0;
+        collector.records.push({
+          kind: isSell ? 'SELL' : 'BUY',
+          ...instrument,
+          date,
+          price,
+          quantity: Math.abs(quantity),
+          fee: Math.abs(parseNumber(cell(row, 'IBCommission')) ?? 0),
+          source_row: rowNumber
+        });
+        continue;
+      }
+
+      const type = String(cell(row, 'Type') ?? '').trim();
+      const amount = parseNumber(cell(row, 'Amount'));
+      const date = parseDate(cell(row, 'SettleDate') ?? cell(row, 'DateTime') ?? cell(row, 'ReportDate'));
+      const currency = String(cell(row, 'CurrencyPrimary') ?? cell(row, 'Currency') ?? options.currency).toUpperCase();
+      if (!date || amount === null) {
+        collector.skip(rowNumber, 'Missing date or amount');
+        continue;
+      }
+
+      if (type === 'Deposits/Withdrawals') {
+        collector.records.push({
+          kind: amount >= 0 ? 'DEPOSIT' : 'WITHDRAWAL',
+          date,
+          amount: Math.abs(amount),
+          currency,
+          source_row: rowNumber
+        });
+        continue;
+      }
+      if (type === 'Other Fees' || type === 'Commission Adjustments') {
+        collector.records.push({ kind: 'FEE', date, amount: Math.abs(amount), currency, source_row: rowNumber });
+        continue;
+      }
+      if (type !== 'Dividends' && type !== 'Payment In Lieu Of Dividends' && type !== 'Withholding Tax') {
+        collector.skip(rowNumber, `Unsupported cash transaction ${type || 'without type'}`);
+        continue;
+      }
+
+      const instrument = collector.instrument(rowNumber, cell(row, 'Symbol'), {
+        exchange: String(cell(row, 'ListingExchange') ?? '')
+      });
+      if (!instrument) continue;
+      const key = `${instrument.ticker}|${instrument.market}|${date}`;
+
+      if (type === 'Withholding Tax') {
+        taxes.push({ key, amount: -amount, row: rowNumber });
+        continue;
+      }
+      if (amount <= 0) {
+        collector.skip(rowNumber, 'Dividend reversal');
+        continue;
+      }
+      const existing = dividends.get(key);
+      if (existing) {
+        existing.amount = (existing.amount ?? 0) + amount;
+        continue;
+      }
+      const record: ImportRecord = {
+        kind: 'DIVIDEND',
+        ...instrument,
+        date,
+        amount,
+        withholding_tax: 0,
+        currency,
+        source_row: rowNumber
+      };
+      dividends.set(key, record);
+      collector.records.push(record);
+    }
+
+    // Refunded tax shows up as a positive Withholding Tax line and reduces the total.
+    for (const tax of taxes) {
+      const dividend = dividends.get(tax.key);
+      if (!dividend) {
+        collector.skip(tax.row, 'Withholding tax without a matching dividend');
+        continue;
+      }
+      dividend.withholding_tax = Math.max((dividend.withholding_tax ?? 0) + tax.amount, 0);
+    }
+
+    return collector.finish();
+  }
+}
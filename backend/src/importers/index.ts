@@ -0,0 +1,30 @@
+import { BrokerImporter, ImportError, ImportTable } from './base';
+import { XtbPositionsImporter } from './xtbPositions';
+import { XtbCashImporter } from './xtbCash';
+import { IbkrFlexImporter } from './ibkrFlex';
+import { GenericCsvImporter } from './genericCsv';
+
+const importers: BrokerImporter[] = [
+  new XtbPositionsImporter(),
+  new XtbCashImporter(),
+  new IbkrFlexImporter(),
+  new GenericCsvImporter()
+];
+
+export const listImporters = () => importers.map(({ id, label }) => ({ id, label }));
+
+// Picks the requested format, or the first importer that recognises the file.
+export const resolveImporter = (format: string | undefined, tables: ImportTable[]) => {
+  if (format) {
+    const importer = importers.find((candidate) => candidate.id === format);
+    if (!importer) {
+      throw new ImportError(`Unknown import format: ${format}`, { formats: listImporters() });
+    }
+    return importer;
+  }
+  const detected = importers.find((candidate) => candidate.detect(tables));
+  if (!detected) {
+    throw new ImportError('Could not detect the file format; pass one explicitly', { formats: listImporters() });
+  }
+  return detected;
+};
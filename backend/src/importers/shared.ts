@@ -0,0 +1,211 @@
+import xlsx from 'xlsx';
+import { getMarketDefinition } from '../config/markets';
+import type { ImportRecord, ImportTable, ParsedImport } from './base';
+
+// Broker symbol suffixes (CDR.PL, VOD.UK) and exchange names (IBKR ListingExchange) mapped to market codes.
+const SUFFIX_MARKETS: Record<string, string> = {
+  US: 'NASDAQ',
+  PL: 'XWAR',
+  UK: 'XLON',
+  L: 'XLON',
+  DE: 'XETR',
+  FR: 'XPAR',
+  PA: 'XPAR',
+  NL: 'XAMS',
+  AS: 'XAMS',
+  BE: 'XBRU',
+  IT: 'XMIL',
+  MI: 'XMIL',
+  ES: 'XMAD',
+  MC: 'XMAD',
+  PT: 'XLIS',
+  LS: 'XLIS'
+};
+
+const EXCHANGE_MARKETS: Record<string, string> = {
+  NASDAQ: 'NASDAQ',
+  ISLAND: 'NASDAQ',
+  NYSE: 'NYSE',
+  ARCA: 'NYSE',
+  AMEX: 'AMEX',
+  BATS: 'AMEX',
+  LSE: 'XLON',
+  LSEETF: 'XLON',
+  IBIS: 'XETR',
+  IBIS2: 'XETR',
+  XETRA: 'XETR',
+  WSE: 'XWAR',
+  GPW: 'XWAR',
+  SBF: 'XPAR',
+  AEB: 'XAMS',
+  'ENEXT.BE': 'XBRU',
+  EBR: 'XBRU',
+  BVME: 'XMIL',
+  'BVME.ETF': 'XMIL',
+  BM: 'XMAD',
+  BVL: 'XLIS'
+};
+
+const DEFAULT_MARKET = 'NASDAQ';
+
+const resolveMarketCode = (value: string) => {
+  const upper = value.trim().toUpperCase();
+  const mapped = EXCHANGE_MARKETS[upper] ?? SUFFIX_MARKETS[upper] ?? upper;
+  return getMarketDefinition(mapped)?.code ?? null;
+};
+
+// An explicit exchange wins over a symbol suffix; bare symbols fall back to the default market.
+const parseBrokerSymbol = (
+  symbol: string,
+  { exchange, defaultMarket = DEFAULT_MARKET }: { exchange?: string | null; defaultMarket?: string } = {}
+) => {
+  const trimmed = symbol.trim().toUpperCase();
+  if (!trimmed) return null;
+
+  if (exchange && exchange.trim()) {
+    return { ticker: trimmed, market: resolveMarketCode(exchange), requested: exchange.trim().toUpperCase() };
+  }
+
+  const parts = trimmed.split('.');
+  if (parts.length === 1) {
+    return { ticker: trimmed, market: resolveMarketCode(defaultMarket), requested: defaultMarket };
+  }
+  const suffix = parts.pop() as string;
+  return { ticker: parts.join('.'), market: resolveMarketCode(suffix), requested: suffix };
+};
+
+const buildKey = (row: { ticker: string; market: string; buy_date: string; buy_price: number; quantity: number }) =>
+  `${row.ticker}|${row.market}|${row.buy_date}|${row.buy_price}|${row.quantity}`;
+
+// BUY records reuse the holdings fingerprint so re-importing an export never duplicates lots.
+const buildRecordKey = (record: ImportRecord) => {
+  if (record.kind === 'BUY') {
+    return buildKey({
+      ticker: record.ticker ?? '',
+      market: record.market ?? '',
+      buy_date: record.date,
+      buy_price: record.price ?? 0,
+      quantity: record.quantity ?? 0
+    });
+  }
+  if (record.kind === 'SELL') {
+    return `SELL|${record.ticker}|${record.market}|${record.date}|${record.price}|${record.quantity}`;
+  }
+  if (record.kind === 'DIVIDEND') {
+    return `DIVIDEND|${record.ticker}|${record.market}|${record.date}|${record.amount}`;
+  }
+  return `${record.kind}|${record.currency}|${record.date}|${record.amount}`;
+};
+
+const readTables = (content: Buffer): ImportTable[] => {
+  // raw keeps CSV cells as text so symbols and compact dates are not coerced into numbers.
+  const workbook = xlsx.read(content, { type: 'buffer', cellDates: true, raw: true });
+  return workbook.SheetNames.map((name) => ({
+    name,
+    rows: xlsx.utils.sheet_to_json(workbook.Sheets[name], { header: 1, blankrows: false, raw: true }) as unknown[][]
+  }));
+};
+
+const parseNumber = (value: unknown) => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  let text = value.replace(/[\s ]/g, '');
+  if (!text) return null;
+  // With both separators present, the last one is the decimal point (1.234,56 and 1,234.56).
+  if (text.includes(',') && text.includes('.')) {
+    text = text.lastIndexOf(',') > text.lastIndexOf('.')
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (text.includes(',')) {
+    text = text.replace(',', '.');
+  }
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const pad = (value: string) => value.padStart(2, '0');
+
+const parseDate = (value: unknown) => {
+  if (value instanceof Date && !Number.isNaN(value.valueOf())) {
+    return value.toISOString().slice(0, 10);
+  }
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = text.match(/^(\d{4})(\d{2})(\d{2})(?:$|[;,\sT])/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})/);
+  if (match) return `${match[3]}-${pad(match[2])}-${pad(match[1])}`;
+
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.valueOf()) ? null : parsed.toISOString().slice(0, 10);
+};
+
+const normalizeHeader = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+const findHeaderIndex = (rows: unknown[][], required: string[]) => {
+  const wanted = required.map((name) => name.toLowerCase());
+  return rows.findIndex(
+    (row) => Array.isArray(row) && wanted.every((name) => row.some((cell) => normalizeHeader(cell) === name))
+  );
+};
+
+const createColumnLookup = (header: unknown[]) => {
+  const names = header.map(normalizeHeader);
+  return (row: unknown[], column: string | undefined) => {
+    if (!column) return undefined;
+    const index = names.indexOf(column.toLowerCase());
+    return index >= 0 ? row[index] : undefined;
+  };
+};
+
+// Collects records and skips while a parser walks its rows.
+const createImportCollector = () => {
+  const result: ParsedImport = { records: [], skipped: [], unsupported_markets: [] };
+  const unsupported = new Set<string>();
+
+  const skip = (row: number, reason: string) => {
+    result.skipped.push({ row, reason });
+  };
+
+  const instrument = (
+    row: number,
+    symbol: unknown,
+    options: { exchange?: string | null; defaultMarket?: string } = {}
+  ) => {
+    if (typeof symbol !== 'string' || !symbol.trim()) {
+      skip(row, 'Missing symbol');
+      return null;
+    }
+    const parsed = parseBrokerSymbol(symbol, options);
+    if (!parsed?.market) {
+      if (parsed) unsupported.add(parsed.requested);
+      skip(row, `Unsupported market for ${symbol.trim()}`);
+      return null;
+    }
+    return { ticker: parsed.ticker, market: parsed.market };
+  };
+
+  const finish = (extra: Partial<ParsedImport> = {}): ParsedImport => ({
+    ...result,
+    ...extra,
+    unsupported_markets: Array.from(unsupported)
+  });
+
+  return { records: result.records, skip, instrument, finish };
+};
+
+export {
+  createImportCollector,
+  parseBrokerSymbol,
+  resolveMarketCode,
+  buildKey,
+  buildRecordKey,
+  readTables,
+  parseNumber,
+  parseDate,
+  findHeaderIndex,
+  createColumnLookup
+};
@@ -0,0 +1,124 @@
+import { BrokerImporter, ImportOptions, ImportRecord, ImportTable, ParsedImport } from './base';
+import { createColumnLookup, createImportCollector, findHeaderIndex, parseDate, parseNumber } from './shared';
+
+const REQUIRED_COLUMNS = ['type', 'time', 'comment', 'symbol', 'amount'];
+
+// Trade comments look like "OPEN BUY 10 @ 123.45" or "CLOSE BUY 5/10 @ 130.00".
+const TRADE_COMMENT = /(?:OPEN|CLOSE)\s+BUY\s+([\d.,]+)(?:\/[\d.,]+)?\s*@\s*([\d.,]+)/i;
+
+type CashOperation = 'BUY' | 'SELL' | 'DIVIDEND' | 'WITHHOLDING' | 'DEPOSIT' | 'WITHDRAWAL' | 'FEE';
+
+// English and Polish operation labels as they appear in XTB statements.
+const classify = (type: string): CashOperation | null => {
+  const label = type.trim().toLowerCase();
+  if (label.includes('purchase') || label.includes('zakup')) return 'BUY';
+  if (label.includes('sale') || label.includes('sprzeda')) return 'SELL';
+  if (label.includes('withholding') || label.includes('podatek od dywid')) return 'WITHHOLDING';
+  if (label.includes('divident') || label.includes('dividend') || label.includes('dywidend')) return 'DIVIDEND';
+  if (label.includes('deposit') || label.includes('wpłata')) return 'DEPOSIT';
+  if (label.includes('withdrawal') || label.includes('wypłata')) return 'WITHDRAWAL';
+  if (label.includes('commission') || label.includes('fee') || label.includes('prowizja') || label.includes('opłata')) {
+    return 'FEE';
+  }
+  return null;
+};
+
+const findTable = (tables: ImportTable[]) =>
+  tables.find((table) => findHeaderIndex(table.rows, REQUIRED_COLUMNS) >= 0);
+
+export class XtbCashImporter extends BrokerImporter {
+  constructor() {
+    super('xtb-cash', 'XTB cash operations (XLSX/CSV)');
+  }
+
+  detect(tables: ImportTable[]) {
+    return Boolean(findTable(tables));
+  }
+
+  parse(tables: ImportTable[], options: ImportOptions): ParsedImport {
+    const collector = createImportCollector();
+    const rows = findTable(tables)?.rows ?? [];
+    const headerIndex = findHeaderIndex(rows, REQUIRED_COLUMNS);
+    if (headerIndex < 0) return collector.finish();
+
+    const cell = createColumnLookup(rows[headerIndex]);
+    const currency = options.currency.toUpperCase();
+    const dividends = new Map<string, ImportRecord>();
+    const taxes: Array<{ key: string; amount: number; row: number }> = [];
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const row = rows[i];
+      const rowNumber = i + 1;
+      const type = cell(row, 'type');
+      if (typeof type !== 'string' || !type.trim()) continue;
+
+      const operation = classify(type);
+      if (!operation) {
+        collector.skip(rowNumber, `Unsupported operation ${type.trim()}`);
+        continue;
+      }
+
+      const date = parseDate(cell(row, 'time'));
+      const amount = parseNumber(cell(row, 'amount'));
+      if (!date || amount === null) {
+        collector.skip(rowNumber, 'Missing time or amount');
+        continue;
+      }
+
+      if (operation === 'DEPOSIT' || operation === 'WITHDRAWAL' || operation === 'FEE') {
+        collector.records.push({ kind: operation, date, amount: Math.abs(amount), currency, source_row: rowNumber });
+        continue;
+      }
+
+      const instrument = collector.instrument(rowNumber, cell(row, 'symbol'));
+      if (!instrument) continue;
+      const key = `${instrument.ticker}|${instrument.market}|${date}`;
+
+      if (operation === 'WITHHOLDING') {
+        taxes.push({ key, amount: Math.abs(amount), row: rowNumber });
+        continue;
+      }
+
+      if (operation === 'DIVIDEND') {
+        const existing = dividends.get(key);
+        if (existing) {
+          existing.amount = (existing.amount ?? 0) + amount;
+          continue;
+        }
+        const record: ImportRecord = {
+          kind: 'DIVIDEND',
+          ...instrument,
+          date,
+          amount,
+          withholding_tax: 0,
+          currency,
+          source_row: rowNumber
+        };
+        dividends.set(key, record);
+        collector.records.push(record);
+        continue;
+      }
+
+      const match = String(cell(row, 'comment') ?? '').match(TRADE_COMMENT);
+      const quantity = match ? parseNumber(match[1]) : null;
+      const price = match ? parseNumber(match[2]) : null;
+      if (quantity === null || price === null) {
+        collector.skip(rowNumber, 'Trade comment without volume and price');
+        continue;
+      }
+      collector.records.push({ kind: operation, ...instrument, date, price, quantity, fee: 0, source_row: rowNumber });
+    }
+
+    // Tax lines are separate rows; fold them into the dividend paid the same day.
+    for (const tax of taxes) {
+      const dividend = dividends.get(tax.key);
+      if (!dividend) {
+        collector.skip(tax.row, 'Withholding tax without a matching dividend');
+        continue;
+      }
+      dividend.withholding_tax = (dividend.withholding_tax ?? 0) + tax.amount;
+    }
+
+    return collector.finish();
+  }
+}
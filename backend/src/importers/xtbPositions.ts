@@ -0,0 +1,74 @@
+import { BrokerImporter, ImportOptions, ImportTable, ParsedImport } from './base';
+import { createImportCollector, parseDate, parseNumber } from './shared';
+
+const SHEET_PREFIX = 'OPEN POSITION';
+
+const findSheet = (tables: ImportTable[]) => tables.find((table) => table.name.startsWith(SHEET_PREFIX));
+
+// Exports are named like account_123_2024-05-31.xlsx; the date stamps the imported market prices.
+const extractReportDate = (filename?: string) => {
+  const match = filename?.match(/_(\d{4}-\d{2}-\d{2})\.xlsx$/);
+  return match ? match[1] : new Date().toISOString().slice(0, 10);
+};
+
+export class XtbPositionsImporter extends BrokerImporter {
+  constructor() {
+    super('xtb-positions', 'XTB open positions (XLSX)');
+  }
+
+  detect(tables: ImportTable[]) {
+    return Boolean(findSheet(tables));
+  }
+
+  parse(tables: ImportTable[], options: ImportOptions): ParsedImport {
+    const collector = createImportCollector();
+    const rows = findSheet(tables)?.rows ?? [];
+    const headerIndex = rows.findIndex((row) => Array.isArray(row) && row[0] === 'Position');
+    if (headerIndex < 0) return collector.finish();
+
+    const header = rows[headerIndex] as string[];
+    const symbolIdx = header.indexOf('Symbol');
+    const volumeIdx = header.indexOf('Volume');
+    const openTimeIdx = header.indexOf('Open time');
+    const openPriceIdx = header.indexOf('Open price');
+    const marketPriceIdx = header.indexOf('Market price');
+    const typeIdx = header.indexOf('Type');
+    if (symbolIdx < 0 || volumeIdx < 0 || openTimeIdx < 0 || openPriceIdx < 0) {
+      return collector.finish();
+    }
+
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+      const row = rows[i];
+      if (!row || row.length === 0) continue;
+
+      const type = typeIdx >= 0 ? row[typeIdx] : 'BUY';
+      if (type && typeof type === 'string' && type.toUpperCase() !== 'BUY') {
+        collector.skip(i + 1, `Unsupported position type ${type}`);
+        continue;
+      }
+
+      const instrument = collector.instrument(i + 1, row[symbolIdx]);
+      if (!instrument) continue;
+
+      const buyDate = parseDate(row[openTimeIdx]);
+      const buyPrice = parseNumber(row[openPriceIdx]);
+      const quantity = parseNumber(row[volumeIdx]);
+      if (!buyDate || buyPrice === null || quantity === null) {
+        collector.skip(i + 1, 'Missing open time, price or volume');
+        continue;
+      }
+
+      collector.records.push({
+        kind: 'BUY',
+        ...instrument,
+        date: buyDate,
+        price: buyPrice,
+        quantity,
+        market_price: marketPriceIdx >= 0 ? parseNumber(row[marketPriceIdx]) ?? undefined : undefined,
+        source_row: i + 1
+      });
+    }
+
+    return collector.finish({ report_date: extractReportDate(options.filename) });
+  }
+}
@@ -33,6 +33,18 @@ export type ExchangeRateResult = {
   timestamp?: number | string | null;
 };
 
+export type ExchangeRateHistoryParams = {
+  base: string;
+  quote: string;
+  from: string;
+  to: string;
+};
+
+export type ExchangeRateHistoryPoint = {
+  date: string;
+  rate: number;
+};
+
 export type HistoryParams = {
   ticker: string;
   market?: string | null;
@@ -43,14 +55,19 @@ export type HistoryParams = {
 
 export class ProviderError extends Error {
   details?: unknown;
+  // Rate limits, timeouts and 5xx answers may succeed on a retry; a missing symbol will not.
+  transient: boolean;
 
-  constructor(message: string, details?: unknown) {
+  constructor(message: string, details?: unknown, { transient = false }: { transient?: boolean } = {}) {
     super(message);
     this.name = 'ProviderError';
     this.details = details;
+    this.transient = transient;
   }
 }
 
+export const isTransientStatus = (status: number) => status === 429 || status >= 500;
+
 export abstract class MarketDataProvider {
   name: string;
 
@@ -60,6 +77,17 @@ export abstract class MarketDataProvider {
 
   abstract searchSymbol(params: SymbolSearchParams): Promise<SymbolSearchResult | null>;
   abstract getQuote(params: SymbolSearchParams): Promise<QuoteResult>;
+  // Providers with a batch endpoint price many symbols in one request; null marks a symbol it could not price.
+  getQuotes?(params: SymbolSearchParams[]): Promise<Array<QuoteResult | null>>;
   abstract getHistory(params: HistoryParams): Promise<HistoryPoint[]>;
   abstract getExchangeRate(params: ExchangeRateParams): Promise<ExchangeRateResult>;
+  abstract getExchangeRateHistory(params: ExchangeRateHistoryParams): Promise<ExchangeRateHistoryPoint[]>;
 }
+
+export const getQuotesFrom = (
+  provider: MarketDataProvider,
+  params: SymbolSearchParams[]
+): Promise<Array<QuoteResult | null>> =>
+  provider.getQuotes
+    ? provider.getQuotes(params)
+    : Promise.all(params.map((item) => provider.getQuote(item).catch(() => null)));
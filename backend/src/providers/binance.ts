@@ -0,0 +1,150 @@
+import {
+  ExchangeRateHistoryParams,
+  ExchangeRateHistoryPoint,
+  ExchangeRateParams,
+  ExchangeRateResult,
+  HistoryParams,
+  HistoryPoint,
+  isTransientStatus,
+  MarketDataProvider,
+  ProviderError,
+  QuoteResult,
+  SymbolSearchParams,
+  SymbolSearchResult
+} from './base';
+
+// Regions where api.binance.com is blocked can point this at data-api.binance.vision or api.binance.us.
+const getBaseUrl = () => process.env.BINANCE_API_URL || 'https://api.binance.com';
+
+// Binance answers 418 once an IP keeps going after a 429.
+const isTransient = (status: number) => isTransientStatus(status) || status === 418;
+
+// Unknown pairs come back as HTTP 400 with code -1121.
+const INVALID_SYMBOL = -1121;
+
+const KLINE_LIMIT = 1000;
+const DAY_MS = 86_400_000;
+
+// [open time, open, high, low, close, volume, close time, ...]
+type Kline = [number, string, string, string, string, string, number, ...unknown[]];
+
+type ExchangeInfoPayload = {
+  symbols?: Array<{ symbol?: string; status?: string; baseAsset?: string; quoteAsset?: string }>;
+};
+
+const mapInterval = (interval?: string) => {
+  if (!interval || interval === '1d') return '1d';
+  return interval;
+};
+
+// 'BTC/USDT' -> base BTC, quote USDT, Binance symbol BTCUSDT.
+const parsePair = (ticker: string) => {
+  const [base, quote] = ticker.toUpperCase().split('/');
+  if (!base || !quote) {
+    throw new ProviderError('Binance symbols are pairs like BTC/USDT', { ticker });
+  }
+  return { base, quote, symbol: `${base}${quote}` };
+};
+
+export class BinanceProvider extends MarketDataProvider {
+  constructor() {
+    super('BINANCE');
+  }
+
+  private async request<T>(path: string, params: Record<string, string>, message: string): Promise<T> {
+    const search = new URLSearchParams(params);
+    const response = await fetch(`${getBaseUrl()}/api/v3/${path}?${search.toString()}`);
+    const payload = (await response.json().catch(() => null)) as (T & { code?: number; msg?: string }) | null;
+
+    if (!response.ok || !payload) {
+      throw new ProviderError(message, payload ?? { status: response.status }, {
+        transient: isTransient(response.status)
+      });
+    }
+    return payload;
+  }
+
+  async searchSymbol({ ticker }: SymbolSearchParams): Promise<SymbolSearchResult | null> {
+    if (!ticker) throw new ProviderError('Ticker is required');
+    const { symbol } = parsePair(ticker);
+
+    let payload: ExchangeInfoPayload;
+    try {
+      payload = await this.request<ExchangeInfoPayload>('exchangeInfo', { symbol }, 'Symbol search failed');
+    } catch (error) {
+      const code = error instanceof ProviderError ? (error.details as { code?: number } | null)?.code : null;
+      if (code === INVALID_SYMBOL) return null;
+      throw error;
+    }
+
+    const found = payload.symbols?.find((item) => item.symbol === symbol && item.status === 'TRADING');
+    if (!found?.baseAsset || !found.quoteAsset) return null;
+
+    return {
+      ticker: `${found.baseAsset}/${found.quoteAsset}`,
+      market: 'BINANCE',
+      name: found.baseAsset,
+      currency: found.quoteAsset,
+      exchange: 'Binance'
+    };
+  }
+
+  async getQuote({ ticker }: SymbolSearchParams): Promise<QuoteResult> {
+    if (!ticker) throw new ProviderError('Ticker is required');
+    const { quote, symbol } = parsePair(ticker);
+    const payload = await this.request<{ lastPrice?: string; closeTime?: number }>(
+      'ticker/24hr',
+      { symbol },
+      'Quote fetch failed'
+    );
+
+    const price = Number(payload.lastPrice);
+    if (!Number.isFinite(price)) {
+      throw new ProviderError('Invalid price from provider', payload);
+    }
+    return {
+      price,
+      currency: quote,
+      asOf: payload.closeTime ? new Date(payload.closeTime).toISOString() : new Date().toISOString()
+    };
+  }
+
+  // Klines come at most 1000 per request, so longer ranges are paged by open time.
+  async getHistory({ ticker, from, to, interval }: HistoryParams): Promise<HistoryPoint[]> {
+    if (!ticker) throw new ProviderError('Ticker is required');
+    const { quote, symbol } = parsePair(ticker);
+    const endTime = to ? Date.parse(`${to}T00:00:00Z`) + DAY_MS - 1 : Date.now();
+    let startTime = from ? Date.parse(`${from}T00:00:00Z`) : endTime - (KLINE_LIMIT - 1) * DAY_MS;
+
+    const rows: HistoryPoint[] = [];
+    while (startTime <= endTime) {
+      const klines = await this.request<Kline[]>(
+        'klines',
+        {
+          symbol,
+          interval: mapInterval(interval),
+          startTime: String(startTime),
+          endTime: String(endTime),
+          limit: String(KLINE_LIMIT)
+        },
+        'History fetch failed'
+      );
+      for (const kline of klines) {
+        const price = Number(kline[4]);
+        if (!Number.isFinite(price)) continue;
+        rows.push({ date: new Date(kline[0]).toISOString().slice(0, 10), price, currency: quote });
+      }
+      if (klines.length < KLINE_LIMIT) break;
+      startTime = klines[klines.length - 1][6] + 1;
+    }
+    return rows;
+  }
+
+  async getExchangeRate(_params: ExchangeRateParams): Promise<ExchangeRateResult> {
+    throw new ProviderError('Binance FX not supported');
+  }
+
+  async getExchangeRateHistory(_params: ExchangeRateHistoryParams): Promise<ExchangeRateHistoryPoint[]> {
+    throw new ProviderError('Binance FX not supported');
+  }
+}
@@ -1,8 +1,11 @@
 import {
+  ExchangeRateHistoryParams,
+  ExchangeRateHistoryPoint,
   ExchangeRateParams,
   ExchangeRateResult,
   HistoryParams,
   HistoryPoint,
+  isTransientStatus,
   MarketDataProvider,
   ProviderError,
   QuoteResult,
@@ -38,7 +41,7 @@ export class FrankfurterProvider extends MarketDataProvider {
     };
 
     if (!response.ok || !payload?.rates) {
-      throw new ProviderError('FX rate fetch failed', payload);
+      throw new ProviderError('FX rate fetch failed', payload, { transient: isTransientStatus(response.status) });
     }
 
     const rate = Number(payload.rates[quote]);
@@ -48,4 +51,26 @@ export class FrankfurterProvider extends MarketDataProvider {
 
     return { rate, timestamp: payload.date ?? null };
   }
+
+  async getExchangeRateHistory({
+    base,
+    quote,
+    from,
+    to
+  }: ExchangeRateHistoryParams): Promise<ExchangeRateHistoryPoint[]> {
+    const url = `${BASE_URL}/${encodeURIComponent(from)}..${encodeURIComponent(to)}?base=${encodeURIComponent(base)}&symbols=${encodeURIComponent(quote)}`;
+    const response = await fetch(url);
+    const payload = (await response.json()) as {
+      rates?: Record<string, Record<string, number>>;
+    };
+
+    if (!response.ok || !payload?.rates) {
+      throw new ProviderError('FX history fetch failed', payload, { transient: isTransientStatus(response.status) });
+    }
+
+    return Object.entries(payload.rates)
+      .map(([date, rates]) => ({ date, rate: Number(rates?.[quote]) }))
+      .filter((row) => Number.isFinite(row.rate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
 }
@@ -0,0 +1,280 @@
+import { getProviderLimits } from '../config/providerLimits';
+import type { ProviderLimits } from '../config/providerLimits';
+import {
+  ExchangeRateHistoryParams,
+  ExchangeRateHistoryPoint,
+  ExchangeRateParams,
+  ExchangeRateResult,
+  HistoryParams,
+  HistoryPoint,
+  MarketDataProvider,
+  ProviderError,
+  QuoteResult,
+  SymbolSearchParams,
+  SymbolSearchResult
+} from './base';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type ProviderMetrics = {
+  provider: string;
+  circuit: CircuitState;
+  open_until: string | null;
+  calls: number;
+  successes: number;
+  failures: number;
+  transient_failures: number;
+  retries: number;
+  throttled: number;
+  short_circuited: number;
+  avg_latency_ms: number | null;
+  last_error: { message: string; details: unknown; at: string } | null;
+  last_success_at: string | null;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Errors that are not ProviderErrors are network failures (fetch rejections, bad JSON) and worth a retry.
+const isTransient = (error: unknown) => (error instanceof ProviderError ? error.transient : true);
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private ratePerMs: number,
+    private capacity: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.ratePerMs);
+    this.updatedAt = now;
+  }
+
+  // Largest cost that can go out now without waiting, but at least 1 and never above the capacity.
+  affordable() {
+    this.refill();
+    return Math.max(1, Math.min(this.capacity, Math.floor(this.tokens)));
+  }
+
+  // Takes `cost` tokens and returns how long the caller has to wait for them, or null when that is
+  // longer than maxWaitMs. Tokens can go negative, which queues callers behind each other.
+  reserve(maxWaitMs: number, cost = 1) {
+    this.refill();
+    const wait = this.tokens >= cost ? 0 : (cost - this.tokens) / this.ratePerMs;
+    if (wait > maxWaitMs) return null;
+    this.tokens -= cost;
+    return wait;
+  }
+}
+
+class ProviderGovernor {
+  readonly name: string;
+  private limits: ProviderLimits;
+  private bucket: TokenBucket;
+  private circuit: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private probing = false;
+  private latencyTotal = 0;
+  private metrics: Omit<ProviderMetrics, 'provider' | 'circuit' | 'open_until' | 'avg_latency_ms'> = {
+    calls: 0,
+    successes: 0,
+    failures: 0,
+    transient_failures: 0,
+    retries: 0,
+    throttled: 0,
+    short_circuited: 0,
+    last_error: null,
+    last_success_at: null
+  };
+
+  constructor(name: string) {
+    this.name = name;
+    this.limits = getProviderLimits(name);
+    this.bucket = new TokenBucket(this.limits.requestsPerMinute / 60000, Math.max(this.limits.burst, 1));
+  }
+
+  // Returns true when the caller is the half-open probe and has to release it once it settles.
+  private admit() {
+    if (this.circuit === 'closed') return false;
+    if (this.circuit === 'open' && Date.now() < this.openUntil) {
+      this.metrics.short_circuited += 1;
+      throw new ProviderError(`${this.name} is cooling down after repeated failures`, {
+        retry_at: new Date(this.openUntil).toISOString()
+      });
+    }
+    // One probe after the cool-down decides whether the circuit closes or opens again; everyone
+    // else is turned away until it settles.
+    if (this.probing) {
+      this.metrics.short_circuited += 1;
+      throw new ProviderError(`${this.name} is being probed after repeated failures`);
+    }
+    this.circuit = 'half_open';
+    this.probing = true;
+    return true;
+  }
+
+  private recordSuccess(latencyMs: number) {
+    this.metrics.calls += 1;
+    this.metrics.successes += 1;
+    this.metrics.last_success_at = new Date().toISOString();
+    this.latencyTotal += latencyMs;
+    this.consecutiveFailures = 0;
+    this.circuit = 'closed';
+  }
+
+  private recordFailure(error: unknown, latencyMs: number, transient: boolean) {
+    this.metrics.calls += 1;
+    this.metrics.failures += 1;
+    this.latencyTotal += latencyMs;
+    this.metrics.last_error = {
+      message: error instanceof Error ? error.message : String(error),
+      details: error instanceof ProviderError ? error.details ?? null : null,
+      at: new Date().toISOString()
+    };
+    if (!transient) {
+      // The provider answered; "not found" says nothing about its health.
+      this.consecutiveFailures = 0;
+      this.circuit = 'closed';
+      return;
+    }
+    this.metrics.transient_failures += 1;
+    this.consecutiveFailures += 1;
+    if (this.circuit === 'half_open' || this.consecutiveFailures >= this.limits.failureThreshold) {
+      this.circuit = 'open';
+      this.openUntil = Date.now() + this.limits.cooldownSeconds * 1000;
+    }
+  }
+
+  // `cost` is the number of request credits the task uses, e.g. one per symbol of a batch quote.
+  async run<T>(task: () => Promise<T>, { cost = 1 }: { cost?: number } = {}): Promise<T> {
+    const probe = this.admit();
+    try {
+      for (let attempt = 0; ; attempt += 1) {
+        const wait = this.bucket.reserve(this.limits.maxWaitMs, cost);
+        if (wait === null) {
+          this.metrics.throttled += 1;
+          throw new ProviderError(`${this.name} request budget exhausted`, {
+            requests_per_minute: this.limits.requestsPerMinute
+          });
+        }
+        if (wait > 0) await sleep(wait);
+
+        const startedAt = Date.now();
+        try {
+          const result = await task();
+          this.recordSuccess(Date.now() - startedAt);
+          return result;
+        } catch (error) {
+          const transient = isTransient(error);
+          this.recordFailure(error, Date.now() - startedAt, transient);
+          if (!transient || attempt >= this.limits.maxRetries || this.circuit === 'open') throw error;
+          this.metrics.retries += 1;
+          // Exponential backoff with full jitter so parallel callers do not retry in lockstep.
+          await sleep(this.limits.retryBaseMs * 2 ** attempt * (0.5 + Math.random()));
+        }
+      }
+    } finally {
+      if (probe) this.probing = false;
+    }
+  }
+
+  // Symbols a batch may carry right now; the rest waits for later chunks.
+  affordableBatchSize() {
+    return this.bucket.affordable();
+  }
+
+  getMetrics(): ProviderMetrics {
+    return {
+      provider: this.name,
+      circuit: this.circuit === 'open' && Date.now() >= this.openUntil ? 'half_open' : this.circuit,
+      open_until: this.circuit === 'open' ? new Date(this.openUntil).toISOString() : null,
+      ...this.metrics,
+      avg_latency_ms: this.metrics.calls ? Math.round(this.latencyTotal / this.metrics.calls) : null
+    };
+  }
+}
+
+// Governors are keyed by provider name so every instance of a provider shares one budget and circuit.
+const governors = new Map<string, ProviderGovernor>();
+
+const getGovernor = (name: string) => {
+  let governor = governors.get(name);
+  if (!governor) {
+    governor = new ProviderGovernor(name);
+    governors.set(name, governor);
+  }
+  return governor;
+};
+
+class GovernedProvider extends MarketDataProvider {
+  private inner: MarketDataProvider;
+  private governor: ProviderGovernor;
+
+  constructor(inner: MarketDataProvider) {
+    super(inner.name);
+    this.inner = inner;
+    this.governor = getGovernor(inner.name);
+    // Only batch-capable providers get getQuotes, so the others are priced symbol by symbol,
+    // each call drawing on the budget.
+    if (inner.getQuotes) {
+      const getBatch = inner.getQuotes.bind(inner);
+      this.getQuotes = (params) => this.getQuotesInChunks(params, getBatch);
+    }
+  }
+
+  // Batches are billed per symbol (Twelve Data charges a credit each), so a batch larger than the
+  // bucket goes out in chunks sized to the tokens at hand, each waiting for its own refill. Once a
+  // chunk fails, the symbols not yet priced come back as null and move on to the next provider.
+  private async getQuotesInChunks(
+    params: SymbolSearchParams[],
+    getBatch: (params: SymbolSearchParams[]) => Promise<Array<QuoteResult | null>>
+  ) {
+    const results: Array<QuoteResult | null> = [];
+    while (results.length < params.length) {
+      const chunk = params.slice(results.length, results.length + this.governor.affordableBatchSize());
+      try {
+        const priced = await this.governor.run(() => getBatch(chunk), { cost: chunk.length });
+        results.push(...chunk.map((_, index) => priced[index] ?? null));
+      } catch (error) {
+        if (!results.length) throw error;
+        return [...results, ...params.slice(results.length).map(() => null)];
+      }
+    }
+    return results;
+  }
+
+  searchSymbol(params: SymbolSearchParams): Promise<SymbolSearchResult | null> {
+    return this.governor.run(() => this.inner.searchSymbol(params));
+  }
+
+  getQuote(params: SymbolSearchParams): Promise<QuoteResult> {
+    return this.governor.run(() => this.inner.getQuote(params));
+  }
+
+  getHistory(params: HistoryParams): Promise<HistoryPoint[]> {
+    return this.governor.run(() => this.inner.getHistory(params));
+  }
+
+  getExchangeRate(params: ExchangeRateParams): Promise<ExchangeRateResult> {
+    return this.governor.run(() => this.inner.getExchangeRate(params));
+  }
+
+  getExchangeRateHistory(params: ExchangeRateHistoryParams): Promise<ExchangeRateHistoryPoint[]> {
+    return this.governor.run(() => this.inner.getExchangeRateHistory(params));
+  }
+}
+
+const governProvider = (provider: MarketDataProvider): MarketDataProvider =>
+  provider instanceof GovernedProvider ? provider : new GovernedProvider(provider);
+
+const getProviderMetrics = () =>
+  Array.from(governors.values())
+    .map((governor) => governor.getMetrics())
+    .sort((a, b) => a.provider.localeCompare(b.provider));
+
+export { governProvider, getProviderMetrics };
@@ -1,6 +1,9 @@
 import { MarketDataProvider } from './base';
 import { TwelveDataProvider } from './twelveData';
 import { StooqProvider } from './stooq';
+import { YahooProvider } from './yahoo';
+import { BinanceProvider } from './binance';
+import { governProvider } from './governor';
 
 export const createProviderChain = (): MarketDataProvider[] => {
   const primaryName = (process.env.PROVIDER || 'TWELVE_DATA').toUpperCase();
@@ -13,10 +16,17 @@ export const createProviderChain = (): MarketDataProvider[] => {
     }
   }
 
+  if (primaryName === 'YAHOO') {
+    providers.push(new YahooProvider());
+  }
+
   if (primaryName === 'STOOQ') {
     providers.push(new StooqProvider());
   }
 
+  // Keyless crypto prices; the market registry only routes BINANCE symbols to it.
+  providers.push(new BinanceProvider());
+
   // Always include Stooq as last-resort fallback.
   providers.push(new StooqProvider());
 
@@ -30,5 +40,6 @@ export const createProviderChain = (): MarketDataProvider[] => {
     }
   }
 
-  return unique;
+  // Every call goes through the shared rate limit, retry and circuit breaker for its provider.
+  return unique.map(governProvider);
 };
@@ -1,8 +1,11 @@
 import {
+  ExchangeRateHistoryParams,
+  ExchangeRateHistoryPoint,
   ExchangeRateParams,
   ExchangeRateResult,
   HistoryParams,
   HistoryPoint,
+  isTransientStatus,
   MarketDataProvider,
   ProviderError,
   QuoteResult,
@@ -79,7 +82,7 @@ export class StooqProvider extends MarketDataProvider {
     };
   }
 
-  async getHistory({ ticker, market }: HistoryParams): Promise<HistoryPoint[]> {
+  async getHistory({ ticker, market, from, to }: HistoryParams): Promise<HistoryPoint[]> {
     const config = resolveMarketConfig(market);
     if (!config) {
       throw new ProviderError('Stooq only supports US/UK/Poland/Germany equities');
@@ -89,20 +92,27 @@ export class StooqProvider extends MarketDataProvider {
     const symbol = config.useSuffix
       ? `${ticker}.${config.suffix}`.toLowerCase()
       : ticker.toLowerCase();
-    const url = `${BASE_URL}?s=${symbol}&i=d`;
+    // d1/d2 (YYYYMMDD) limit the download to the requested range.
+    const range = [from && `&d1=${from.replace(/-/g, '')}`, to && `&d2=${to.replace(/-/g, '')}`]
+      .filter(Boolean)
+      .join('');
+    const url = `${BASE_URL}?s=${symbol}&i=d${range}`;
 
     const response = await fetch(url);
     const text = await response.text();
 
     if (!response.ok || !text) {
-      throw new ProviderError('Stooq history fetch failed');
+      throw new ProviderError('Stooq history fetch failed', { status: response.status }, {
+        transient: isTransientStatus(response.status)
+      });
     }
     if (text.includes('Exceeded the daily hits limit')) {
-      throw new ProviderError('Stooq rate limit exceeded');
+      throw new ProviderError('Stooq rate limit exceeded', text.trim(), { transient: true });
     }
 
     const rows = parseCsv(text);
-    if (!rows.length) {
+    // An empty range (e.g. before a listing) is a valid answer; an empty full download is not.
+    if (!rows.length && !from && !to) {
       throw new ProviderError('Stooq history returned no data');
     }
 
@@ -112,10 +122,15 @@ export class StooqProvider extends MarketDataProvider {
         price: Number(row.Close),
         currency: config.currency
       }))
-      .filter((row): row is HistoryPoint => !!row.date && Number.isFinite(row.price));
+      .filter((row): row is HistoryPoint => !!row.date && Number.isFinite(row.price))
+      .filter((row) => (!from || row.date >= from) && (!to || row.date <= to));
   }
 
   async getExchangeRate(_params: ExchangeRateParams): Promise<ExchangeRateResult> {
     throw new ProviderError('Stooq FX not supported');
   }
+
+  async getExchangeRateHistory(_params: ExchangeRateHistoryParams): Promise<ExchangeRateHistoryPoint[]> {
+    throw new ProviderError('Stooq FX not supported');
+  }
 }
@@ -1,8 +1,11 @@
 import {
+  ExchangeRateHistoryParams,
+  ExchangeRateHistoryPoint,
   ExchangeRateParams,
   ExchangeRateResult,
   HistoryParams,
   HistoryPoint,
+  isTransientStatus,
   MarketDataProvider,
   ProviderError,
   QuoteResult,
@@ -29,6 +32,35 @@ const parseError = (payload: unknown) => {
   return 'Unknown error';
 };
 
+// Twelve Data reports rate limits as HTTP 200 with `code: 429` in the body.
+const toProviderError = (message: string, response: Response, payload: unknown) => {
+  const code = Number((payload as { code?: number } | null)?.code);
+  return new ProviderError(message, parseError(payload), {
+    transient: isTransientStatus(response.status) || (Number.isFinite(code) && isTransientStatus(code))
+  });
+};
+
+// Twelve Data accepts up to 120 comma-separated symbols per batch request.
+const MAX_BATCH_SYMBOLS = 120;
+
+type QuotePayload = {
+  status?: string;
+  price?: string | number;
+  currency?: string;
+  datetime?: string;
+};
+
+const parseQuote = (payload: QuotePayload | undefined): QuoteResult | null => {
+  if (!payload || payload.status === 'error') return null;
+  const price = Number(payload.price);
+  if (!Number.isFinite(price)) return null;
+  return {
+    price,
+    currency: payload.currency || null,
+    asOf: payload.datetime || new Date().toISOString()
+  };
+};
+
 const normalizeExchange = (market?: string | null) => {
   if (!market) return undefined;
   if (market.toUpperCase() === 'BINANCE') return 'Binance';
@@ -76,7 +108,7 @@ export class TwelveDataProvider extends MarketDataProvider {
       };
 
       if (!response.ok || payload.status === 'error') {
-        throw new ProviderError('Crypto search failed', parseError(payload));
+        throw toProviderError('Crypto search failed', response, payload);
       }
 
       const matches = Array.isArray(payload.data) ? payload.data : [];
@@ -111,7 +143,7 @@ export class TwelveDataProvider extends MarketDataProvider {
     };
 
     if (!response.ok || payload.status === 'error') {
-      throw new ProviderError('Symbol search failed', parseError(payload));
+      throw toProviderError('Symbol search failed', response, payload);
     }
 
     const matches = Array.isArray(payload.data) ? payload.data : [];
@@ -144,27 +176,52 @@ export class TwelveDataProvider extends MarketDataProvider {
     });
 
     const response = await fetch(url);
-    const payload = (await response.json()) as {
-      status?: string;
-      price?: string | number;
-      currency?: string;
-      datetime?: string;
-    };
+    const payload = (await response.json()) as QuotePayload;
 
     if (!response.ok || payload.status === 'error') {
-      throw new ProviderError('Quote fetch failed', parseError(payload));
+      throw toProviderError('Quote fetch failed', response, payload);
     }
 
-    const price = Number(payload.price);
-    if (!Number.isFinite(price)) {
+    const quote = parseQuote(payload);
+    if (!quote) {
       throw new ProviderError('Invalid price from provider', payload);
     }
+    return quote;
+  }
 
-    return {
-      price,
-      currency: payload.currency || null,
-      asOf: payload.datetime || new Date().toISOString()
-    };
+  // One request per exchange: a symbol list comes back as an object keyed by symbol, a single
+  // symbol as a plain quote.
+  async getQuotes(params: SymbolSearchParams[]): Promise<Array<QuoteResult | null>> {
+    const results: Array<QuoteResult | null> = params.map(() => null);
+    const groups = new Map<string, number[]>();
+    params.forEach((item, index) => {
+      const exchange = normalizeExchange(item.market) ?? '';
+      groups.set(exchange, [...(groups.get(exchange) ?? []), index]);
+    });
+
+    for (const [exchange, indexes] of groups) {
+      for (let start = 0; start < indexes.length; start += MAX_BATCH_SYMBOLS) {
+        const chunk = indexes.slice(start, start + MAX_BATCH_SYMBOLS);
+        const url = this.buildUrl('quote', {
+          symbol: chunk.map((index) => params[index].ticker).join(','),
+          exchange: exchange || undefined
+        });
+
+        const response = await fetch(url);
+        const payload = (await response.json()) as QuotePayload & Record<string, QuotePayload | undefined>;
+
+        if (!response.ok || payload.status === 'error') {
+          const error = toProviderError('Quote fetch failed', response, payload);
+          // For a single symbol this is just that symbol missing, unless it is a rate limit.
+          if (error.transient || chunk.length > 1) throw error;
+        }
+
+        chunk.forEach((index) => {
+          results[index] = parseQuote(chunk.length === 1 ? payload : payload[params[index].ticker]);
+        });
+      }
+    }
+    return results;
   }
 
   async getHistory({ ticker, market, from, to, interval }: HistoryParams): Promise<HistoryPoint[]> {
@@ -187,7 +244,7 @@ export class TwelveDataProvider extends MarketDataProvider {
     };
 
     if (!response.ok || payload.status === 'error') {
-      throw new ProviderError('History fetch failed', parseError(payload));
+      throw toProviderError('History fetch failed', response, payload);
     }
 
     const values = Array.isArray(payload.values) ? payload.values : [];
@@ -213,7 +270,7 @@ export class TwelveDataProvider extends MarketDataProvider {
     };
 
     if (!response.ok || payload.status === 'error') {
-      throw new ProviderError('FX rate fetch failed', parseError(payload));
+      throw toProviderError('FX rate fetch failed', response, payload);
     }
 
     const rate = Number(payload.rate);
@@ -223,4 +280,36 @@ export class TwelveDataProvider extends MarketDataProvider {
 
     return { rate, timestamp: payload.timestamp ?? null };
   }
+
+  async getExchangeRateHistory({
+    base,
+    quote,
+    from,
+    to
+  }: ExchangeRateHistoryParams): Promise<ExchangeRateHistoryPoint[]> {
+    const url = this.buildUrl('time_series', {
+      symbol: `${base}/${quote}`,
+      interval: '1day',
+      start_date: from,
+      end_date: to,
+      outputsize: '5000'
+    });
+
+    const response = await fetch(url);
+    const payload = (await response.json()) as {
+      status?: string;
+      values?: Array<{ datetime?: string; close?: string | number }>;
+    };
+
+    if (!response.ok || payload.status === 'error') {
+      throw toProviderError('FX history fetch failed', response, payload);
+    }
+
+    const values = Array.isArray(payload.values) ? payload.values : [];
+
+    return values
+      .map((row) => ({ date: row.datetime?.slice(0, 10), rate: Number(row.close) }))
+      .filter((row): row is ExchangeRateHistoryPoint => !!row.date && Number.isFinite(row.rate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
 }
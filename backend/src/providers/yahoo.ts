@@ -0,0 +1,177 @@
+import {
+  ExchangeRateHistoryParams,
+  ExchangeRateHistoryPoint,
+  ExchangeRateParams,
+  ExchangeRateResult,
+  HistoryParams,
+  HistoryPoint,
+  isTransientStatus,
+  MarketDataProvider,
+  ProviderError,
+  QuoteResult,
+  SymbolSearchParams,
+  SymbolSearchResult
+} from './base';
+
+const BASE_URL = 'https://query1.finance.yahoo.com';
+
+// Yahoo rejects requests without a browser-like user agent.
+const HEADERS = { 'User-Agent': 'Mozilla/5.0 (portfolio-tracker)' };
+
+// Some exchanges quote in minor units: pence on London, cents in Johannesburg, agorot in Tel Aviv.
+const MINOR_CURRENCIES: Record<string, string> = { GBp: 'GBP', GBX: 'GBP', ZAc: 'ZAR', ILA: 'ILS' };
+
+type ChartPayload = {
+  chart?: {
+    result?: Array<{
+      meta?: {
+        currency?: string;
+        symbol?: string;
+        exchangeName?: string;
+        longName?: string;
+        shortName?: string;
+        regularMarketPrice?: number;
+        regularMarketTime?: number;
+        gmtoffset?: number;
+      };
+      timestamp?: number[];
+      indicators?: { quote?: Array<{ close?: Array<number | null> }> };
+    }> | null;
+    error?: { code?: string; description?: string } | null;
+  };
+};
+
+type SearchPayload = {
+  quotes?: Array<{
+    symbol?: string;
+    shortname?: string;
+    longname?: string;
+    exchange?: string;
+    quoteType?: string;
+  }>;
+};
+
+const mapInterval = (interval?: string) => {
+  if (!interval || interval === '1d') return '1d';
+  return interval;
+};
+
+const toUnixSeconds = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000);
+
+const normalizePrice = (price: number, currency?: string | null) => {
+  if (currency && MINOR_CURRENCIES[currency]) {
+    return { price: price / 100, currency: MINOR_CURRENCIES[currency] };
+  }
+  return { price, currency: currency || null };
+};
+
+export class YahooProvider extends MarketDataProvider {
+  constructor() {
+    super('YAHOO');
+  }
+
+  private async fetchChart(symbol: string, params: Record<string, string>, message: string) {
+    const search = new URLSearchParams(params);
+    const response = await fetch(`${BASE_URL}/v8/finance/chart/${encodeURIComponent(symbol)}?${search.toString()}`, {
+      headers: HEADERS
+    });
+    const payload = (await response.json().catch(() => null)) as ChartPayload | null;
+    const result = payload?.chart?.result?.[0];
+
+    if (!response.ok || !result) {
+      throw new ProviderError(message, payload?.chart?.error ?? { status: response.status }, {
+        transient: isTransientStatus(response.status)
+      });
+    }
+    return result;
+  }
+
+  private async fetchSeries(symbol: string, { from, to, interval }: Omit<HistoryParams, 'ticker' | 'market'>) {
+    // period2 is exclusive, so the day after `to` keeps its bar.
+    const range: Record<string, string> =
+      from || to
+        ? {
+            period1: String(from ? toUnixSeconds(from) : 0),
+            period2: String((to ? toUnixSeconds(to) : Math.floor(Date.now() / 1000)) + 86400)
+          }
+        : { range: 'max' };
+    const result = await this.fetchChart(symbol, { ...range, interval: mapInterval(interval) }, 'History fetch failed');
+    const closes = result.indicators?.quote?.[0]?.close ?? [];
+    // Bars are stamped at the session open; the exchange's UTC offset turns that into its local date.
+    const offset = result.meta?.gmtoffset ?? 0;
+
+    return (result.timestamp ?? [])
+      .map((timestamp, index) => ({
+        date: new Date((timestamp + offset) * 1000).toISOString().slice(0, 10),
+        close: closes[index]
+      }))
+      .filter((row): row is { date: string; close: number } => typeof row.close === 'number')
+      .filter((row) => (!from || row.date >= from) && (!to || row.date <= to))
+      .map((row) => ({ date: row.date, ...normalizePrice(row.close, result.meta?.currency) }));
+  }
+
+  async searchSymbol({ ticker, market }: SymbolSearchParams): Promise<SymbolSearchResult | null> {
+    if (!ticker) throw new ProviderError('Ticker is required');
+
+    const search = new URLSearchParams({ q: ticker, quotesCount: '10', newsCount: '0' });
+    const response = await fetch(`${BASE_URL}/v1/finance/search?${search.toString()}`, { headers: HEADERS });
+    const payload = (await response.json().catch(() => null)) as SearchPayload | null;
+
+    if (!response.ok || !payload) {
+      throw new ProviderError('Symbol search failed', payload ?? { status: response.status }, {
+        transient: isTransientStatus(response.status)
+      });
+    }
+
+    const normalized = ticker.toUpperCase();
+    const found = (payload.quotes ?? []).find((item) => item.symbol?.toUpperCase() === normalized);
+    if (!found) return null;
+
+    return {
+      ticker: found.symbol ?? normalized,
+      market: (market || found.exchange || '').toUpperCase(),
+      name: found.longname || found.shortname || null,
+      currency: null,
+      exchange: found.exchange || null
+    };
+  }
+
+  async getQuote({ ticker }: SymbolSearchParams): Promise<QuoteResult> {
+    if (!ticker) throw new ProviderError('Ticker is required');
+    const result = await this.fetchChart(ticker, { range: '1d', interval: '1d' }, 'Quote fetch failed');
+    const price = Number(result.meta?.regularMarketPrice);
+    if (!Number.isFinite(price)) {
+      throw new ProviderError('Invalid price from provider', result.meta);
+    }
+    const time = result.meta?.regularMarketTime;
+    return {
+      ...normalizePrice(price, result.meta?.currency),
+      asOf: time ? new Date(time * 1000).toISOString() : new Date().toISOString()
+    };
+  }
+
+  async getHistory({ ticker, from, to, interval }: HistoryParams): Promise<HistoryPoint[]> {
+    if (!ticker) throw new ProviderError('Ticker is required');
+    return this.fetchSeries(ticker, { from, to, interval });
+  }
+
+  // Currency pairs are chart symbols too, e.g. EURUSD=X.
+  async getExchangeRate({ base, quote }: ExchangeRateParams): Promise<ExchangeRateResult> {
+    const result = await this.fetchChart(`${base}${quote}=X`, { range: '1d', interval: '1d' }, 'FX rate fetch failed');
+    const rate = Number(result.meta?.regularMarketPrice);
+    if (!Number.isFinite(rate)) {
+      throw new ProviderError('Invalid FX rate from provider', result.meta);
+    }
+    return { rate, timestamp: result.meta?.regularMarketTime ?? null };
+  }
+
+  async getExchangeRateHistory({
+    base,
+    quote,
+    from,
+    to
+  }: ExchangeRateHistoryParams): Promise<ExchangeRateHistoryPoint[]> {
+    const rows = await this.fetchSeries(`${base}${quote}=X`, { from, to, interval: '1d' });
+    return rows.map((row) => ({ date: row.date, rate: row.price }));
+  }
+}
@@ -1,14 +1,29 @@
 import 'dotenv/config';
 import { createApp } from './app';
 import { createProviderChain } from './providers';
+import { createAlertChannels } from './alerts';
+import { watchQuoteAlerts } from './services/alertService';
+import { createScheduler } from './services/schedulerService';
+import { createDefaultJobs } from './services/jobService';
 import { resolvedDbPath } from './db/index';
 
 const port = Number(process.env.PORT || 4000);
 const providers = createProviderChain();
-const app = createApp({ providers });
+const alertChannels = createAlertChannels();
+const scheduler = createScheduler({ jobs: createDefaultJobs({ providers, alertChannels }) });
+const app = createApp({ providers, alertChannels, scheduler });
+
+watchQuoteAlerts({ channels: alertChannels });
+
+const schedulerEnabled = process.env.SCHEDULER_ENABLED !== 'false';
+if (schedulerEnabled) {
+  scheduler.start();
+}
 
 app.listen(port, () => {
   console.log(`Portfolio API running on http://localhost:${port}`);
   console.log(`SQLite at ${resolvedDbPath}`);
   console.log(`Providers: ${providers.map((p) => p.name).join(', ')}`);
+  console.log(`Alert channels: ${alertChannels.map((channel) => channel.name).join(', ')}`);
+  console.log(`Scheduler: ${schedulerEnabled ? 'running' : 'disabled'}`);
 });
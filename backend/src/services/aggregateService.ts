@@ -0,0 +1,183 @@
+import { MarketDataProvider } from '../providers/base';
+import {
+  getEarliestActivityDate,
+  getPerformanceSeries,
+  listHoldings,
+  listHoldingsWithQuotes
+} from './portfolioService';
+import type { HoldingWithQuote, PortfolioRow } from './portfolioService';
+import type { AssetType } from '../config/markets';
+import { getCashSummary } from './cashService';
+import { getPreviousCloseDate } from './calendarService';
+
+export type PortfolioSubtotal = {
+  portfolio_id: number;
+  name: string;
+  base_currency: string;
+  market_value: number;
+  cost_basis: number;
+  unrealized_pnl: number;
+  realized_pnl: number;
+  income_received: number;
+  cash_value: number;
+  total_value: number;
+};
+
+export type AllocationSlice = {
+  asset_class: AssetType | 'cash';
+  market_value: number;
+  weight: number;
+};
+
+type SeriesPoint = { date: string; value: number };
+
+// Value per asset class, largest first; cash balances form their own slice.
+const getAllocation = (holdings: HoldingWithQuote[], cashValue = 0): AllocationSlice[] => {
+  const totals = new Map<AllocationSlice['asset_class'], number>();
+  holdings.forEach((holding) => {
+    totals.set(holding.asset_class, (totals.get(holding.asset_class) ?? 0) + holding.market_value);
+  });
+  if (cashValue) totals.set('cash', cashValue);
+  const total = Array.from(totals.values()).reduce((sum, value) => sum + value, 0);
+  return Array.from(totals.entries())
+    .map(([assetClass, value]) => ({
+      asset_class: assetClass,
+      market_value: value,
+      weight: total ? value / total : 0
+    }))
+    .sort((a, b) => b.market_value - a.market_value);
+};
+
+const sumSeries = (seriesList: SeriesPoint[][]) => {
+  const totals = new Map<string, number>();
+  for (const series of seriesList) {
+    for (const point of series) {
+      totals.set(point.date, (totals.get(point.date) ?? 0) + point.value);
+    }
+  }
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, value]) => ({ date, value }));
+};
+
+// Every portfolio is valued in the one requested currency, so lots and cash can simply be summed.
+const getAggregateHoldings = async ({
+  portfolios,
+  providers,
+  baseCurrency
+}: {
+  portfolios: PortfolioRow[];
+  providers: MarketDataProvider[];
+  baseCurrency: string;
+}) => {
+  const results = await Promise.all(
+    portfolios.map(async (portfolio) => {
+      const [holdings, cash] = await Promise.all([
+        listHoldingsWithQuotes({ portfolioId: portfolio.id, providers, baseCurrency }),
+        getCashSummary({ portfolioId: portfolio.id, baseCurrency, providers })
+      ]);
+      return { portfolio, holdings, cash };
+    })
+  );
+
+  const cashByCurrency = new Map<string, { currency: string; balance: number; value: number }>();
+  const subtotals: PortfolioSubtotal[] = results.map(({ portfolio, holdings, cash }) => {
+    cash.forEach((account) => {
+      const existing = cashByCurrency.get(account.currency) ?? { currency: account.currency, balance: 0, value: 0 };
+      existing.balance += account.balance;
+      existing.value += account.value;
+      cashByCurrency.set(account.currency, existing);
+    });
+
+    const sum = (pick: (holding: (typeof holdings)[number]) => number) =>
+      holdings.reduce((total, holding) => total + pick(holding), 0);
+    const marketValue = sum((holding) => holding.market_value);
+    const cashValue = cash.reduce((total, account) => total + account.value, 0);
+
+    return {
+      portfolio_id: portfolio.id,
+      name: portfolio.name,
+      base_currency: portfolio.base_currency,
+      market_value: marketValue,
+      cost_basis: sum((holding) => holding.cost_basis),
+      unrealized_pnl: sum((holding) => holding.unrealized_pnl),
+      realized_pnl: sum((holding) => holding.realized_pnl),
+      income_received: sum((holding) => holding.income_received),
+      cash_value: cashValue,
+      total_value: marketValue + cashValue
+    };
+  });
+
+  const cash = Array.from(cashByCurrency.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+  const holdings = results.flatMap((result) => result.holdings);
+  const cashValue = cash.reduce((total, account) => total + account.value, 0);
+  return {
+    holdings,
+    cash,
+    cash_value: cashValue,
+    allocation: getAllocation(holdings, cashValue),
+    portfolios: subtotals
+  };
+};
+
+// All portfolios are run over the same window so their daily points line up before summing.
+const getAggregatePerformance = async ({
+  portfolios,
+  from,
+  to,
+  providers,
+  baseCurrency,
+  tradingDaysOnly = false
+}: {
+  portfolios: PortfolioRow[];
+  from?: string;
+  to?: string;
+  providers: MarketDataProvider[];
+  baseCurrency: string;
+  tradingDaysOnly?: boolean;
+}) => {
+  // One shared calendar so every portfolio series has the same dates to sum.
+  const markets = Array.from(
+    new Set(portfolios.flatMap((portfolio) => listHoldings(portfolio.id).map((holding) => holding.market)))
+  );
+  const startDate =
+    from ||
+    portfolios
+      .map((portfolio) => getEarliestActivityDate(portfolio.id))
+      .filter((date): date is string => Boolean(date))
+      .sort()[0];
+  if (!startDate) {
+    return { series: [], total_return_series: [], from, to, previous_close_date: null, portfolios: [] };
+  }
+
+  const results = await Promise.all(
+    portfolios.map(async (portfolio) => ({
+      portfolio,
+      performance: await getPerformanceSeries({
+        portfolioId: portfolio.id,
+        from: startDate,
+        to,
+        providers,
+        baseCurrency,
+        tradingDaysOnly,
+        calendarMarkets: markets
+      })
+    }))
+  );
+
+  const series = sumSeries(results.map(({ performance }) => performance.series));
+  return {
+    series,
+    total_return_series: sumSeries(results.map(({ performance }) => performance.total_return_series)),
+    from: series[0]?.date ?? startDate,
+    to: series[series.length - 1]?.date ?? to,
+    previous_close_date: getPreviousCloseDate(markets),
+    portfolios: results.map(({ portfolio, performance }) => ({
+      portfolio_id: portfolio.id,
+      name: portfolio.name,
+      series: performance.series
+    }))
+  };
+};
+
+export { getAllocation, getAggregateHoldings, getAggregatePerformance };
@@ -0,0 +1,323 @@
+import { db } from '../db/index';
+import { MarketDataProvider } from '../providers/base';
+import { AlertChannel, AlertMessage } from '../alerts/base';
+import { getLatestQuote, getPreviousClose, onQuoteRefreshed } from './marketDataService';
+import type { RefreshedQuote } from './marketDataService';
+import { getPortfolio, listHoldings, listHoldingsWithQuotes } from './portfolioService';
+import { allocateLots, listSellTransactions } from './transactionService';
+
+export type AlertRuleType = 'PRICE_ABOVE' | 'PRICE_BELOW' | 'PCT_FROM_BUY' | 'DAILY_DROP' | 'POSITION_WEIGHT';
+
+type AlertRuleRow = {
+  id: number;
+  portfolio_id: number;
+  ticker: string;
+  market: string;
+  type: AlertRuleType;
+  threshold: number;
+  channels: string;
+  is_triggered: number;
+  created_at: string;
+};
+
+type AlertRow = AlertMessage & {
+  deliveries: string | null;
+  acknowledged_at: string | null;
+};
+
+export type AlertDelivery = {
+  channel: string;
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+};
+
+type RuleContext = {
+  price: number;
+  as_of: string;
+  // Percent of the portfolio's holdings value; only known during a portfolio evaluation.
+  weight?: number;
+};
+
+const ruleColumns = `id, portfolio_id, ticker, market, type, threshold, channels, is_triggered, created_at`;
+const alertColumns = `id, portfolio_id, rule_id, ticker, market, type, threshold, value, message, deliveries, triggered_at, acknowledged_at`;
+
+const toRule = (row: AlertRuleRow) => ({
+  ...row,
+  channels: row.channels.split(',').filter(Boolean),
+  is_triggered: row.is_triggered === 1
+});
+
+const toAlert = (row: AlertRow) => ({
+  ...row,
+  deliveries: row.deliveries ? (JSON.parse(row.deliveries) as AlertDelivery[]) : []
+});
+
+const getRuleRow = (id: number) =>
+  db.prepare(`SELECT ${ruleColumns} FROM alert_rules WHERE id = ?`).get(id) as AlertRuleRow | undefined;
+
+const listAlertRules = (portfolioId: number) => {
+  const rows = db
+    .prepare(`SELECT ${ruleColumns} FROM alert_rules WHERE portfolio_id = ? ORDER BY ticker, market, id`)
+    .all(portfolioId) as AlertRuleRow[];
+  return rows.map(toRule);
+};
+
+const addAlertRule = ({
+  portfolioId,
+  ticker,
+  market,
+  type,
+  threshold,
+  channels = ['in_app']
+}: {
+  portfolioId: number;
+  ticker: string;
+  market: string;
+  type: AlertRuleType;
+  threshold: number;
+  channels?: string[];
+}) => {
+  const result = db
+    .prepare(
+      `INSERT INTO alert_rules (portfolio_id, ticker, market, type, threshold, channels)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(portfolioId, ticker, market, type, threshold, Array.from(new Set(channels)).join(','));
+  return toRule(getRuleRow(Number(result.lastInsertRowid)) as AlertRuleRow);
+};
+
+const deleteAlertRule = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  const result = db.prepare(`DELETE FROM alert_rules WHERE id = ? AND portfolio_id = ?`).run(id, portfolioId);
+  return result.changes > 0;
+};
+
+const listAlerts = ({
+  portfolioId,
+  includeAcknowledged = false
+}: {
+  portfolioId: number;
+  includeAcknowledged?: boolean;
+}) => {
+  const rows = db
+    .prepare(
+      `SELECT ${alertColumns}
+       FROM alerts
+       WHERE portfolio_id = ? ${includeAcknowledged ? '' : 'AND acknowledged_at IS NULL'}
+       ORDER BY triggered_at DESC, id DESC`
+    )
+    .all(portfolioId) as AlertRow[];
+  return rows.map(toAlert);
+};
+
+const acknowledgeAlert = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  db.prepare(
+    `UPDATE alerts SET acknowledged_at = COALESCE(acknowledged_at, datetime('now'))
+     WHERE id = ? AND portfolio_id = ?`
+  ).run(id, portfolioId);
+  const row = db
+    .prepare(`SELECT ${alertColumns} FROM alerts WHERE id = ? AND portfolio_id = ?`)
+    .get(id, portfolioId) as AlertRow | undefined;
+  return row ? toAlert(row) : null;
+};
+
+// Average native buy price of the lots still open for one symbol.
+const getOpenPosition = (portfolioId: number, ticker: string, market: string) => {
+  const holdings = listHoldings(portfolioId);
+  const { allocations } = allocateLots(holdings, listSellTransactions(portfolioId));
+  let quantity = 0;
+  let cost = 0;
+  for (const holding of holdings) {
+    if (holding.ticker !== ticker || holding.market !== market) continue;
+    const open = allocations.get(holding.id)?.open_quantity ?? holding.quantity;
+    quantity += open;
+    cost += open * holding.buy_price;
+  }
+  return quantity > 0 ? { quantity, average_price: cost / quantity } : null;
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(4));
+
+// Returns null when the rule cannot be judged yet (no open lots, no previous close, no weight).
+const checkRule = (rule: AlertRuleRow, context: RuleContext) => {
+  const label = `${rule.ticker} (${rule.market})`;
+  if (rule.type === 'PRICE_ABOVE' || rule.type === 'PRICE_BELOW') {
+    const above = rule.type === 'PRICE_ABOVE';
+    return {
+      value: context.price,
+      triggered: above ? context.price >= rule.threshold : context.price <= rule.threshold,
+      message: `${label} is at ${formatNumber(context.price)}, ${above ? 'above' : 'below'} ${rule.threshold}`
+    };
+  }
+  if (rule.type === 'PCT_FROM_BUY') {
+    const position = getOpenPosition(rule.portfolio_id, rule.ticker, rule.market);
+    if (!position) return null;
+    const move = (context.price / position.average_price - 1) * 100;
+    return {
+      value: move,
+      // A negative threshold watches for a loss, a positive one for a gain.
+      triggered: rule.threshold >= 0 ? move >= rule.threshold : move <= rule.threshold,
+      message: `${label} moved ${formatNumber(move)}% from the average buy price ${formatNumber(position.average_price)}`
+    };
+  }
+  if (rule.type === 'DAILY_DROP') {
+    const previous = getPreviousClose(rule.ticker, rule.market, context.as_of);
+    if (!previous) return null;
+    const drop = (1 - context.price / previous.price) * 100;
+    return {
+      value: drop,
+      triggered: drop >= rule.threshold,
+      message: `${label} dropped ${formatNumber(drop)}% since the ${previous.date} close`
+    };
+  }
+  if (context.weight === undefined) return null;
+  return {
+    value: context.weight,
+    triggered: context.weight >= rule.threshold,
+    message: `${label} is ${formatNumber(context.weight)}% of the portfolio, above ${rule.threshold}%`
+  };
+};
+
+const deliverAlert = async (alert: AlertMessage, channelNames: string[], channels: AlertChannel[]) => {
+  const deliveries: AlertDelivery[] = [];
+  for (const name of channelNames) {
+    const channel = channels.find((candidate) => candidate.name === name);
+    if (!channel) {
+      deliveries.push({ channel: name, status: 'skipped', error: 'Channel not configured' });
+      continue;
+    }
+    try {
+      await channel.deliver(alert);
+      deliveries.push({ channel: name, status: 'sent' });
+    } catch (error) {
+      deliveries.push({
+        channel: name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Delivery failed'
+      });
+    }
+  }
+  db.prepare(`UPDATE alerts SET deliveries = ? WHERE id = ?`).run(JSON.stringify(deliveries), alert.id);
+  return deliveries;
+};
+
+// A rule fires once when its condition becomes true and re-arms after the condition clears.
+const applyRule = async (ruleId: number, context: RuleContext, channels: AlertChannel[]) => {
+  const rule = getRuleRow(ruleId);
+  if (!rule) return null;
+  const result = checkRule(rule, context);
+  if (!result) return null;
+
+  if (!result.triggered) {
+    if (rule.is_triggered) {
+      db.prepare(`UPDATE alert_rules SET is_triggered = 0 WHERE id = ?`).run(rule.id);
+    }
+    return null;
+  }
+  if (rule.is_triggered) return null;
+
+  const fire = db.transaction(() => {
+    db.prepare(`UPDATE alert_rules SET is_triggered = 1 WHERE id = ?`).run(rule.id);
+    const inserted = db
+      .prepare(
+        `INSERT INTO alerts (portfolio_id, rule_id, ticker, market, type, threshold, value, message)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(rule.portfolio_id, rule.id, rule.ticker, rule.market, rule.type, rule.threshold, result.value, result.message);
+    return db.prepare(`SELECT ${alertColumns} FROM alerts WHERE id = ?`).get(inserted.lastInsertRowid) as AlertRow;
+  });
+  const alert = fire();
+  const deliveries = await deliverAlert(alert, toRule(rule).channels, channels);
+  return { ...toAlert(alert), deliveries };
+};
+
+// Price-based rules only: weights need the whole portfolio valued, which a single quote cannot give.
+const evaluateSymbolAlerts = async ({ quote, channels }: { quote: RefreshedQuote; channels: AlertChannel[] }) => {
+  const rules = db
+    .prepare(`SELECT id FROM alert_rules WHERE ticker = ? AND market = ? AND type != 'POSITION_WEIGHT'`)
+    .all(quote.ticker, quote.market) as Array<{ id: number }>;
+  const fired = [];
+  for (const { id } of rules) {
+    const alert = await applyRule(id, { price: quote.price, as_of: quote.as_of }, channels);
+    if (alert) fired.push(alert);
+  }
+  return fired;
+};
+
+const evaluatePortfolioAlerts = async ({
+  portfolioId,
+  providers,
+  channels
+}: {
+  portfolioId: number;
+  providers: MarketDataProvider[];
+  channels: AlertChannel[];
+}) => {
+  const rules = db
+    .prepare(`SELECT ${ruleColumns} FROM alert_rules WHERE portfolio_id = ? ORDER BY id`)
+    .all(portfolioId) as AlertRuleRow[];
+  if (!rules.length) return [];
+
+  const weights = new Map<string, number>();
+  if (rules.some((rule) => rule.type === 'POSITION_WEIGHT')) {
+    const holdings = await listHoldingsWithQuotes({
+      portfolioId,
+      providers,
+      baseCurrency: getPortfolio(portfolioId)?.base_currency || 'USD'
+    });
+    const total = holdings.reduce((sum, holding) => sum + holding.market_value, 0);
+    for (const holding of holdings) {
+      const key = `${holding.ticker}|${holding.market}`;
+      weights.set(key, (weights.get(key) ?? 0) + (total > 0 ? (holding.market_value / total) * 100 : 0));
+    }
+  }
+
+  const fired = [];
+  for (const rule of rules) {
+    let quote;
+    try {
+      quote = await getLatestQuote({ ticker: rule.ticker, market: rule.market, providers });
+    } catch {
+      continue;
+    }
+    const alert = await applyRule(
+      rule.id,
+      { price: quote.price, as_of: quote.as_of, weight: weights.get(`${rule.ticker}|${rule.market}`) },
+      channels
+    );
+    if (alert) fired.push(alert);
+  }
+  return fired;
+};
+
+const evaluateAllAlerts = async ({
+  providers,
+  channels
+}: {
+  providers: MarketDataProvider[];
+  channels: AlertChannel[];
+}) => {
+  const portfolioIds = db
+    .prepare(`SELECT DISTINCT portfolio_id FROM alert_rules ORDER BY portfolio_id`)
+    .all() as Array<{ portfolio_id: number }>;
+  const fired = [];
+  for (const { portfolio_id: portfolioId } of portfolioIds) {
+    fired.push(...(await evaluatePortfolioAlerts({ portfolioId, providers, channels })));
+  }
+  return fired;
+};
+
+// Evaluates price rules on every refreshed quote; returns the unsubscribe function.
+const watchQuoteAlerts = ({ channels }: { channels: AlertChannel[] }) =>
+  onQuoteRefreshed((quote) => evaluateSymbolAlerts({ quote, channels }).then(() => undefined));
+
+export {
+  listAlertRules,
+  addAlertRule,
+  deleteAlertRule,
+  listAlerts,
+  acknowledgeAlert,
+  evaluateSymbolAlerts,
+  evaluatePortfolioAlerts,
+  evaluateAllAlerts,
+  watchQuoteAlerts
+};
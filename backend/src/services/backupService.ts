@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { db } from '../db/index';
+
+// User data in insert order: parents before the rows that reference them.
+// Quote, history, FX and symbol caches are left out; they are refetched on demand.
+const DUMP_TABLES = [
+  'portfolios',
+  'instruments',
+  'instrument_prices',
+  'instrument_rates',
+  'holdings',
+  'transactions',
+  'dividends',
+  'cash_accounts',
+  'cash_movements',
+  'portfolio_benchmarks',
+  'alert_rules',
+  'alerts'
+] as const;
+
+const DUMP_FORMAT = 'portfolio-dump';
+const DUMP_VERSION = 1;
+
+type DumpTable = (typeof DUMP_TABLES)[number];
+type DumpRow = Record<string, unknown>;
+
+export type PortfolioDump = {
+  format: typeof DUMP_FORMAT;
+  version: number;
+  exported_at: string;
+  tables: Record<DumpTable, DumpRow[]>;
+};
+
+type ColumnInfo = { name: string; notnull: number; dflt_value: unknown; pk: number };
+
+export class RestoreValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super('Dump does not match the current schema');
+    this.name = 'RestoreValidationError';
+    this.problems = problems;
+  }
+}
+
+const getColumns = (table: string) => db.prepare(`PRAGMA table_info(${table})`).all() as ColumnInfo[];
+
+// better-sqlite3's online backup copies pages through SQLite itself, so the snapshot is consistent
+// even while WAL frames have not been checkpointed into the main file yet.
+const createBackup = async (targetPath: string) => {
+  fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+  await db.backup(targetPath);
+  return { path: targetPath, size: fs.statSync(targetPath).size };
+};
+
+const createTemporaryBackup = async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'portfolio-backup-'));
+  const backup = await createBackup(path.join(dir, 'portfolio.db'));
+  const cleanup = () => fs.rmSync(dir, { recursive: true, force: true });
+  return { ...backup, cleanup };
+};
+
+const createDump = (): PortfolioDump => {
+  const read = db.transaction(() =>
+    Object.fromEntries(
+      DUMP_TABLES.map((table) => [table, db.prepare(`SELECT * FROM ${table} ORDER BY id`).all() as DumpRow[]])
+    )
+  );
+  return {
+    format: DUMP_FORMAT,
+    version: DUMP_VERSION,
+    exported_at: new Date().toISOString(),
+    tables: read() as Record<DumpTable, DumpRow[]>
+  };
+};
+
+const validateDump = (input: unknown) => {
+  const problems: string[] = [];
+  const dump = input as Partial<PortfolioDump> | null;
+  if (!dump || typeof dump !== 'object' || dump.format !== DUMP_FORMAT) {
+    throw new RestoreValidationError([`Not a ${DUMP_FORMAT} file`]);
+  }
+  if (dump.version !== DUMP_VERSION) {
+    throw new RestoreValidationError([`Unsupported dump version ${String(dump.version)}`]);
+  }
+  if (!dump.tables || typeof dump.tables !== 'object') {
+    throw new RestoreValidationError(['Dump has no tables']);
+  }
+
+  const unknownTables = Object.keys(dump.tables).filter((table) => !DUMP_TABLES.includes(table as DumpTable));
+  unknownTables.forEach((table) => problems.push(`Unknown table ${table}`));
+
+  // Tables added after a dump was written are simply empty in it.
+  const tables = Object.fromEntries(
+    DUMP_TABLES.map((table) => [table, dump.tables?.[table] ?? []])
+  ) as Record<DumpTable, DumpRow[]>;
+
+  for (const table of DUMP_TABLES) {
+    const rows = tables[table];
+    if (!Array.isArray(rows)) {
+      problems.push(`Table ${table} is not a list of rows`);
+      continue;
+    }
+    const columns = getColumns(table);
+    const known = new Set(columns.map((column) => column.name));
+    // Columns without a default must be present, except the id which SQLite assigns.
+    const required = columns.filter((column) => column.notnull && column.dflt_value === null && !column.pk);
+
+    rows.forEach((row, index) => {
+      if (!row || typeof row !== 'object') {
+        problems.push(`${table}[${index}] is not an object`);
+        return;
+      }
+      Object.keys(row)
+        .filter((column) => !known.has(column))
+        .forEach((column) => problems.push(`${table}[${index}] has unknown column ${column}`));
+      required
+        .filter((column) => row[column.name] === null || row[column.name] === undefined)
+        .forEach((column) => problems.push(`${table}[${index}] is missing ${column.name}`));
+    });
+  }
+
+  if (problems.length) {
+    throw new RestoreValidationError(problems.slice(0, 50));
+  }
+  return { ...dump, tables } as PortfolioDump;
+};
+
+// Replaces every user-data table in one transaction; any constraint failure rolls the whole restore back.
+const restoreDump = (input: unknown, { dryRun = false }: { dryRun?: boolean } = {}) => {
+  const dump = validateDump(input);
+  const counts = Object.fromEntries(DUMP_TABLES.map((table) => [table, dump.tables[table].length]));
+  if (dryRun) {
+    return { restored: false, tables: counts };
+  }
+
+  const restore = db.transaction(() => {
+    [...DUMP_TABLES].reverse().forEach((table) => db.prepare(`DELETE FROM ${table}`).run());
+    for (const table of DUMP_TABLES) {
+      for (const row of dump.tables[table]) {
+        const columns = Object.keys(row);
+        db.prepare(
+          `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+        ).run(...columns.map((column) => row[column]));
+      }
+    }
+    if (!dump.tables.portfolios.length) {
+      db.prepare('INSERT INTO portfolios (name, base_currency) VALUES (?, ?)').run('Main', 'USD');
+    }
+  });
+  restore();
+
+  return { restored: true, tables: counts };
+};
+
+export { createBackup, createTemporaryBackup, createDump, validateDump, restoreDump };
@@ -0,0 +1,132 @@
+import { db } from '../db/index';
+import { MarketDataProvider } from '../providers/base';
+import { getHistory, getHistoryRows } from './marketDataService';
+import { createRateResolverCache } from './fxService';
+import { getExternalFlows } from './returnsService';
+import { getInstrumentCurrency } from './instrumentService';
+
+export type BenchmarkRow = {
+  id: number;
+  portfolio_id: number;
+  ticker: string;
+  market: string;
+  created_at: string;
+};
+
+export type BenchmarkSeries = {
+  id: number;
+  ticker: string;
+  market: string;
+  series: Array<{ date: string; value: number }>;
+  error?: string;
+};
+
+const listBenchmarks = (portfolioId: number) => {
+  return db
+    .prepare(
+      `SELECT id, portfolio_id, ticker, market, created_at
+       FROM portfolio_benchmarks
+       WHERE portfolio_id = ?
+       ORDER BY id`
+    )
+    .all(portfolioId) as BenchmarkRow[];
+};
+
+const addBenchmark = ({ portfolioId, ticker, market }: { portfolioId: number; ticker: string; market: string }) => {
+  db.prepare(
+    `INSERT OR IGNORE INTO portfolio_benchmarks (portfolio_id, ticker, market)
+     VALUES (?, ?, ?)`
+  ).run(portfolioId, ticker, market);
+
+  return db
+    .prepare(
+      `SELECT id, portfolio_id, ticker, market, created_at
+       FROM portfolio_benchmarks
+       WHERE portfolio_id = ? AND ticker = ? AND market = ?`
+    )
+    .get(portfolioId, ticker, market) as BenchmarkRow;
+};
+
+const deleteBenchmark = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  const result = db
+    .prepare(`DELETE FROM portfolio_benchmarks WHERE id = ? AND portfolio_id = ?`)
+    .run(id, portfolioId);
+  return result.changes > 0;
+};
+
+// Replays the portfolio's money movements into each benchmark: the opening value buys units on the
+// first day and every later contribution or withdrawal buys or sells units at that day's price.
+const getBenchmarkSeries = async ({
+  portfolioId,
+  series,
+  providers,
+  baseCurrency,
+  forceRefresh = false
+}: {
+  portfolioId: number;
+  series: Array<{ date: string; value: number }>;
+  providers: MarketDataProvider[];
+  baseCurrency: string;
+  forceRefresh?: boolean;
+}): Promise<BenchmarkSeries[]> => {
+  const benchmarks = listBenchmarks(portfolioId);
+  if (!benchmarks.length || !series.length) return [];
+
+  const from = series[0].date;
+  const to = series[series.length - 1].date;
+  const normalizedBase = baseCurrency.toUpperCase();
+  const flows = await getExternalFlows({ portfolioId, baseCurrency: normalizedBase, from, to, providers });
+  const resolveRates = createRateResolverCache({ baseCurrency: normalizedBase, from, to, providers });
+
+  return Promise.all(
+    benchmarks.map(async (benchmark) => {
+      let rows;
+      try {
+        ({ rows } = await getHistory({
+          ticker: benchmark.ticker,
+          market: benchmark.market,
+          from,
+          to,
+          interval: '1d',
+          providers,
+          forceRefresh
+        }));
+      } catch {
+        rows = getHistoryRows({ ticker: benchmark.ticker, market: benchmark.market, from, to, interval: '1d' });
+      }
+      if (!rows.length) {
+        return {
+          id: benchmark.id,
+          ticker: benchmark.ticker,
+          market: benchmark.market,
+          series: [],
+          error: 'No price history for benchmark'
+        };
+      }
+
+      const currency = getInstrumentCurrency(benchmark.ticker, benchmark.market);
+      const rateOn = await resolveRates(currency);
+      const priceByDate = new Map(rows.map((row) => [row.date, row.price] as const));
+      let lastPrice = rows[0].price;
+      let units = 0;
+
+      const points = series.map((point, index) => {
+        if (priceByDate.has(point.date)) {
+          lastPrice = priceByDate.get(point.date) as number;
+        }
+        const price = lastPrice * rateOn(point.date);
+        const flow = flows.get(point.date) ?? 0;
+        if (index === 0) {
+          units = Math.max(point.value, 0) / price;
+        } else if (flow) {
+          units = Math.max(units + flow / price, 0);
+        }
+        return { date: point.date, value: units * price };
+      });
+
+      return { id: benchmark.id, ticker: benchmark.ticker, market: benchmark.market, series: points };
+    })
+  );
+};
+
+export { listBenchmarks, addBenchmark, deleteBenchmark, getBenchmarkSeries };
@@ -0,0 +1,186 @@
+import { getMarketDefinition } from '../config/markets';
+
+export type MarketStatus = {
+  market: string;
+  time_zone: string;
+  is_open: boolean;
+  local_date: string;
+  last_trading_day: string;
+  previous_trading_day: string;
+  next_open: string | null;
+  // 'unknown' once the local date is past the years the market's holiday list covers.
+  calendar: 'listed' | 'unknown';
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const shiftDate = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+const isWeekend = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+};
+
+// Wall-clock date and minute of day in the given time zone.
+const getZonedTime = (timeZone: string, at: Date) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((item) => item.type === type)?.value ?? '00';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+};
+
+// UTC instant of a wall-clock time in a zone; the second pass settles DST transitions.
+const zonedTimeToUtc = (date: string, time: string, timeZone: string) => {
+  const target = Date.parse(`${date}T${time}:00Z`);
+  let guess = target;
+  for (let pass = 0; pass < 2; pass += 1) {
+    const local = getZonedTime(timeZone, new Date(guess));
+    const localMs = Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60_000;
+    guess += target - localMs;
+  }
+  return new Date(guess);
+};
+
+const getCalendar = (market: string) => {
+  const definition = getMarketDefinition(market);
+  // Unknown markets get a plain weekday calendar in UTC.
+  return {
+    name: definition?.calendar ?? null,
+    timeZone: definition?.timeZone ?? 'UTC',
+    session: definition ? definition.session : { open: '00:00', close: '24:00' },
+    holidays: new Set(definition?.holidays ?? []),
+    holidaysThrough: definition?.holidaysThrough ?? null,
+    alwaysOpen: definition ? definition.session === null : false
+  };
+};
+
+const warnedCalendars = new Set<string>();
+
+// Past the listed years every weekday counts as a trading day; say so once per calendar.
+const isPastHolidays = (calendar: ReturnType<typeof getCalendar>, date: string) => {
+  if (!calendar.holidaysThrough || date <= calendar.holidaysThrough) return false;
+  if (calendar.name && !warnedCalendars.has(calendar.name)) {
+    warnedCalendars.add(calendar.name);
+    console.warn(
+      `Holiday calendar ${calendar.name} ends on ${calendar.holidaysThrough}; treating later weekdays as trading days`
+    );
+  }
+  return true;
+};
+
+const isTradingDay = (market: string, date: string) => {
+  const calendar = getCalendar(market);
+  if (calendar.alwaysOpen) return true;
+  if (isWeekend(date)) return false;
+  return isPastHolidays(calendar, date) || !calendar.holidays.has(date);
+};
+
+const getPreviousTradingDay = (market: string, date: string) => {
+  let candidate = shiftDate(date, -1);
+  // Two weeks covers any run of weekends and holidays.
+  for (let step = 0; step < 14 && !isTradingDay(market, candidate); step += 1) {
+    candidate = shiftDate(candidate, -1);
+  }
+  return candidate;
+};
+
+const getNextTradingDay = (market: string, date: string) => {
+  let candidate = shiftDate(date, 1);
+  for (let step = 0; step < 14 && !isTradingDay(market, candidate); step += 1) {
+    candidate = shiftDate(candidate, 1);
+  }
+  return candidate;
+};
+
+const isMarketOpen = (market: string, at: Date = new Date()) => {
+  const calendar = getCalendar(market);
+  if (calendar.alwaysOpen || !calendar.session) return true;
+  const local = getZonedTime(calendar.timeZone, at);
+  return (
+    isTradingDay(market, local.date) &&
+    local.minutes >= toMinutes(calendar.session.open) &&
+    local.minutes < toMinutes(calendar.session.close)
+  );
+};
+
+// The latest session that has started: today once the market has opened, otherwise the one before.
+const getLastTradingDay = (market: string, at: Date = new Date()) => {
+  const calendar = getCalendar(market);
+  const local = getZonedTime(calendar.timeZone, at);
+  const opened = !calendar.session || local.minutes >= toMinutes(calendar.session.open);
+  return isTradingDay(market, local.date) && opened ? local.date : getPreviousTradingDay(market, local.date);
+};
+
+// The latest session with a final close, which is the newest daily bar a provider can have.
+const getLastCloseDate = (market: string, at: Date = new Date()) => {
+  const calendar = getCalendar(market);
+  const local = getZonedTime(calendar.timeZone, at);
+  const closed = calendar.session !== null && local.minutes >= toMinutes(calendar.session.close);
+  return isTradingDay(market, local.date) && closed ? local.date : getPreviousTradingDay(market, local.date);
+};
+
+const getNextOpen = (market: string, at: Date = new Date()) => {
+  const calendar = getCalendar(market);
+  if (calendar.alwaysOpen || !calendar.session) return null;
+  const local = getZonedTime(calendar.timeZone, at);
+  const date =
+    isTradingDay(market, local.date) && local.minutes < toMinutes(calendar.session.open)
+      ? local.date
+      : getNextTradingDay(market, local.date);
+  return zonedTimeToUtc(date, calendar.session.open, calendar.timeZone);
+};
+
+// Reference close for a "since last close" change across several markets: the newest close
+// that precedes the current session of any of them.
+const getPreviousCloseDate = (markets: string[], at: Date = new Date()) => {
+  const dates = Array.from(new Set(markets)).map((market) =>
+    getPreviousTradingDay(market, getLastTradingDay(market, at))
+  );
+  return dates.sort().pop() ?? null;
+};
+
+const getMarketStatus = (market: string, at: Date = new Date()): MarketStatus => {
+  const calendar = getCalendar(market);
+  const lastTradingDay = getLastTradingDay(market, at);
+  const localDate = getZonedTime(calendar.timeZone, at).date;
+  return {
+    market,
+    time_zone: calendar.timeZone,
+    is_open: isMarketOpen(market, at),
+    local_date: localDate,
+    last_trading_day: lastTradingDay,
+    previous_trading_day: getPreviousTradingDay(market, lastTradingDay),
+    next_open: getNextOpen(market, at)?.toISOString() ?? null,
+    calendar: isPastHolidays(calendar, localDate) ? 'unknown' : 'listed'
+  };
+};
+
+export {
+  shiftDate,
+  isTradingDay,
+  isMarketOpen,
+  getPreviousTradingDay,
+  getNextTradingDay,
+  getLastTradingDay,
+  getLastCloseDate,
+  getNextOpen,
+  getPreviousCloseDate,
+  getMarketStatus
+};
@@ -0,0 +1,240 @@
+import { db } from '../db/index';
+import { MarketDataProvider } from '../providers/base';
+import { listTransactions } from './transactionService';
+import { listDividends } from './dividendService';
+import { getFxRate } from './fxService';
+import { getInstrumentCurrency } from './instrumentService';
+
+export type CashMovementType = 'DEPOSIT' | 'WITHDRAWAL' | 'FEE' | 'FX_CONVERSION';
+
+export type CashAccountRow = {
+  id: number;
+  portfolio_id: number;
+  currency: string;
+  created_at: string;
+};
+
+export type CashMovementRow = {
+  id: number;
+  portfolio_id: number;
+  type: CashMovementType;
+  date: string;
+  currency: string;
+  amount: number;
+  counter_currency: string | null;
+  counter_amount: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+export type CashLedgerEntry = {
+  date: string;
+  currency: string;
+  amount: number;
+  source: CashMovementType | 'BUY' | 'SELL' | 'DIVIDEND';
+  reference_id: number;
+};
+
+const movementColumns = `id, portfolio_id, type, date, currency, amount, counter_currency, counter_amount, note, created_at`;
+
+const listCashAccounts = (portfolioId: number) => {
+  return db
+    .prepare(
+      `SELECT id, portfolio_id, currency, created_at
+       FROM cash_accounts
+       WHERE portfolio_id = ?
+       ORDER BY currency`
+    )
+    .all(portfolioId) as CashAccountRow[];
+};
+
+const openCashAccount = ({ portfolioId, currency }: { portfolioId: number; currency: string }) => {
+  db.prepare(
+    `INSERT OR IGNORE INTO cash_accounts (portfolio_id, currency)
+     VALUES (?, ?)`
+  ).run(portfolioId, currency.toUpperCase());
+
+  return db
+    .prepare(
+      `SELECT id, portfolio_id, currency, created_at
+       FROM cash_accounts
+       WHERE portfolio_id = ? AND currency = ?`
+    )
+    .get(portfolioId, currency.toUpperCase()) as CashAccountRow;
+};
+
+const listCashMovements = (portfolioId: number) => {
+  return db
+    .prepare(
+      `SELECT ${movementColumns}
+       FROM cash_movements
+       WHERE portfolio_id = ?
+       ORDER BY date, id`
+    )
+    .all(portfolioId) as CashMovementRow[];
+};
+
+const addCashMovement = ({
+  portfolioId,
+  type,
+  date,
+  currency,
+  amount,
+  counterCurrency,
+  counterAmount,
+  note
+}: {
+  portfolioId: number;
+  type: CashMovementType;
+  date: string;
+  currency: string;
+  amount: number;
+  counterCurrency?: string;
+  counterAmount?: number;
+  note?: string;
+}) => {
+  if (type === 'FX_CONVERSION') {
+    if (!counterCurrency || !counterAmount) {
+      throw new Error('FX conversions need counter_currency and counter_amount');
+    }
+    if (counterCurrency.toUpperCase() === currency.toUpperCase()) {
+      throw new Error('FX conversions need two different currencies');
+    }
+  }
+
+  const insert = db.transaction(() => {
+    openCashAccount({ portfolioId, currency });
+    if (type === 'FX_CONVERSION' && counterCurrency) {
+      openCashAccount({ portfolioId, currency: counterCurrency });
+    }
+
+    const result = db
+      .prepare(
+        `INSERT INTO cash_movements
+         (portfolio_id, type, date, currency, amount, counter_currency, counter_amount, note)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        portfolioId,
+        type,
+        date,
+        currency.toUpperCase(),
+        amount,
+        type === 'FX_CONVERSION' ? counterCurrency?.toUpperCase() : null,
+        type === 'FX_CONVERSION' ? counterAmount : null,
+        note ?? null
+      );
+
+    return db
+      .prepare(`SELECT ${movementColumns} FROM cash_movements WHERE id = ?`)
+      .get(result.lastInsertRowid) as CashMovementRow;
+  });
+
+  return insert();
+};
+
+const deleteCashMovement = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  const result = db.prepare(`DELETE FROM cash_movements WHERE id = ? AND portfolio_id = ?`).run(id, portfolioId);
+  return result.changes > 0;
+};
+
+// Every signed cash change of a portfolio. Trades and dividends only touch cash in currencies the
+// portfolio holds an account for, so portfolios that never opened one keep their pre-cash behaviour.
+// Once a portfolio has accounts, trades and dividends in a currency without one are returned as
+// unsettled instead of being dropped silently.
+const buildCashLedger = (portfolioId: number) => {
+  const accounts = new Set(listCashAccounts(portfolioId).map((account) => account.currency));
+  const entries: CashLedgerEntry[] = [];
+  const unsettled: CashLedgerEntry[] = [];
+  if (!accounts.size) return { entries, unsettled };
+
+  for (const movement of listCashMovements(portfolioId)) {
+    const sign = movement.type === 'DEPOSIT' ? 1 : -1;
+    entries.push({
+      date: movement.date,
+      currency: movement.currency,
+      amount: sign * movement.amount,
+      source: movement.type,
+      reference_id: movement.id
+    });
+    if (movement.type === 'FX_CONVERSION' && movement.counter_currency && movement.counter_amount) {
+      entries.push({
+        date: movement.date,
+        currency: movement.counter_currency,
+        amount: movement.counter_amount,
+        source: movement.type,
+        reference_id: movement.id
+      });
+    }
+  }
+
+  for (const transaction of listTransactions(portfolioId)) {
+    const currency = getInstrumentCurrency(transaction.ticker, transaction.market);
+    const gross = transaction.price * transaction.quantity;
+    (accounts.has(currency) ? entries : unsettled).push({
+      date: transaction.trade_date,
+      currency,
+      amount: transaction.type === 'BUY' ? -(gross + transaction.fee) : gross - transaction.fee,
+      source: transaction.type,
+      reference_id: transaction.id
+    });
+  }
+
+  for (const dividend of listDividends(portfolioId)) {
+    (accounts.has(dividend.currency) ? entries : unsettled).push({
+      date: dividend.pay_date,
+      currency: dividend.currency,
+      amount: dividend.gross_amount - dividend.withholding_tax,
+      source: 'DIVIDEND',
+      reference_id: dividend.id
+    });
+  }
+
+  const byDate = (a: CashLedgerEntry, b: CashLedgerEntry) => a.date.localeCompare(b.date);
+  return { entries: entries.sort(byDate), unsettled: unsettled.sort(byDate) };
+};
+
+const getCashLedger = (portfolioId: number) => buildCashLedger(portfolioId).entries;
+
+const listUnsettledCash = (portfolioId: number) => buildCashLedger(portfolioId).unsettled;
+
+const getCashBalances = (portfolioId: number, asOf?: string) => {
+  const balances = new Map<string, number>();
+  listCashAccounts(portfolioId).forEach((account) => balances.set(account.currency, 0));
+  for (const entry of getCashLedger(portfolioId)) {
+    if (asOf && entry.date > asOf) continue;
+    balances.set(entry.currency, (balances.get(entry.currency) ?? 0) + entry.amount);
+  }
+  return balances;
+};
+
+const getCashSummary = async ({
+  portfolioId,
+  baseCurrency,
+  providers
+}: {
+  portfolioId: number;
+  baseCurrency: string;
+  providers: MarketDataProvider[];
+}) => {
+  const normalizedBase = baseCurrency.toUpperCase();
+  const balances = Array.from(getCashBalances(portfolioId).entries());
+  return Promise.all(
+    balances.map(async ([currency, balance]) => {
+      const rate = await getFxRate({ base: currency, quote: normalizedBase, providers });
+      return { currency, balance, value: balance * rate };
+    })
+  );
+};
+
+export {
+  listCashAccounts,
+  openCashAccount,
+  listCashMovements,
+  addCashMovement,
+  deleteCashMovement,
+  getCashLedger,
+  listUnsettledCash,
+  getCashBalances,
+  getCashSummary
+};
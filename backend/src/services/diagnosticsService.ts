@@ -0,0 +1,96 @@
+import { getProviderMetrics } from '../providers/governor';
+
+export type CacheName = 'quotes' | 'history' | 'fx' | 'validation';
+
+export type FallbackKind = 'STALE_QUOTE' | 'HISTORY' | 'BUY_PRICE_FALLBACK';
+
+export type CacheStats = {
+  cache: CacheName;
+  hits: number;
+  misses: number;
+  hit_rate: number | null;
+};
+
+export type FallbackQuote = {
+  ticker: string;
+  market: string;
+  kind: FallbackKind;
+  source: string;
+  as_of: string;
+  since: string;
+};
+
+const CACHE_NAMES: CacheName[] = ['quotes', 'history', 'fx', 'validation'];
+
+// Counters live in memory and start over with the process, like the provider metrics.
+const cacheCounters = new Map<CacheName, { hits: number; misses: number }>(
+  CACHE_NAMES.map((cache) => [cache, { hits: 0, misses: 0 }])
+);
+
+// Symbols whose latest answer came from a fallback; a fresh provider quote removes them.
+const fallbacks = new Map<string, FallbackQuote>();
+
+const recordCacheLookup = (cache: CacheName, hit: boolean) => {
+  const counter = cacheCounters.get(cache);
+  if (!counter) return;
+  if (hit) {
+    counter.hits += 1;
+  } else {
+    counter.misses += 1;
+  }
+};
+
+const recordFallback = ({
+  ticker,
+  market,
+  kind,
+  source,
+  as_of
+}: {
+  ticker: string;
+  market: string;
+  kind: FallbackKind;
+  source: string;
+  as_of: string;
+}) => {
+  const key = `${ticker}|${market}`;
+  const existing = fallbacks.get(key);
+  fallbacks.set(key, {
+    ticker,
+    market,
+    kind,
+    source,
+    as_of,
+    since: existing?.kind === kind ? existing.since : new Date().toISOString()
+  });
+};
+
+const clearFallback = (ticker: string, market: string) => {
+  fallbacks.delete(`${ticker}|${market}`);
+};
+
+const getCacheStats = (): CacheStats[] =>
+  CACHE_NAMES.map((cache) => {
+    const { hits, misses } = cacheCounters.get(cache) ?? { hits: 0, misses: 0 };
+    const total = hits + misses;
+    return { cache, hits, misses, hit_rate: total ? Math.round((hits / total) * 1000) / 1000 : null };
+  });
+
+const getDiagnostics = () => ({
+  generated_at: new Date().toISOString(),
+  providers: getProviderMetrics(),
+  caches: getCacheStats(),
+  fallbacks: Array.from(fallbacks.values()).sort(
+    (a, b) => a.market.localeCompare(b.market) || a.ticker.localeCompare(b.ticker)
+  )
+});
+
+const resetDiagnostics = () => {
+  cacheCounters.forEach((counter) => {
+    counter.hits = 0;
+    counter.misses = 0;
+  });
+  fallbacks.clear();
+};
+
+export { recordCacheLookup, recordFallback, clearFallback, getCacheStats, getDiagnostics, resetDiagnostics };
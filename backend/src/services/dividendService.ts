@@ -0,0 +1,119 @@
+import { db } from '../db/index';
+import type { HoldingRow } from './portfolioService';
+import { getOpenQuantityOn, LotAllocation } from './transactionService';
+
+export type DividendRow = {
+  id: number;
+  portfolio_id: number;
+  ticker: string;
+  market: string;
+  pay_date: string;
+  gross_amount: number;
+  withholding_tax: number;
+  currency: string;
+  created_at: string;
+};
+
+export type IncomeShare = {
+  dividend_id: number;
+  pay_date: string;
+  currency: string;
+  net_amount: number;
+};
+
+const dividendColumns = `id, portfolio_id, ticker, market, pay_date, gross_amount, withholding_tax, currency, created_at`;
+
+const listDividends = (portfolioId: number) => {
+  return db
+    .prepare(
+      `SELECT ${dividendColumns}
+       FROM dividends
+       WHERE portfolio_id = ?
+       ORDER BY pay_date, id`
+    )
+    .all(portfolioId) as DividendRow[];
+};
+
+const addDividend = ({
+  portfolioId,
+  ticker,
+  market,
+  payDate,
+  grossAmount,
+  withholdingTax = 0,
+  currency
+}: {
+  portfolioId: number;
+  ticker: string;
+  market: string;
+  payDate: string;
+  grossAmount: number;
+  withholdingTax?: number;
+  currency: string;
+}) => {
+  const held = db
+    .prepare(`SELECT 1 FROM holdings WHERE portfolio_id = ? AND ticker = ? AND market = ? LIMIT 1`)
+    .get(portfolioId, ticker, market);
+  if (!held) {
+    throw new Error('No holding for this ticker and market in the portfolio');
+  }
+  if (withholdingTax > grossAmount) {
+    throw new Error('Withholding tax cannot exceed the gross amount');
+  }
+
+  const result = db
+    .prepare(
+      `INSERT INTO dividends (portfolio_id, ticker, market, pay_date, gross_amount, withholding_tax, currency)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(portfolioId, ticker, market, payDate, grossAmount, withholdingTax, currency);
+
+  return db
+    .prepare(`SELECT ${dividendColumns} FROM dividends WHERE id = ?`)
+    .get(result.lastInsertRowid) as DividendRow;
+};
+
+const deleteDividend = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  const result = db.prepare(`DELETE FROM dividends WHERE id = ? AND portfolio_id = ?`).run(id, portfolioId);
+  return result.changes > 0;
+};
+
+// Splits each payment across the lots of its ticker/market by the quantity held on the pay date.
+// Payments that arrive after a position was closed fall back to the lots' original quantities.
+const allocateIncome = (
+  holdings: HoldingRow[],
+  allocations: Map<number, LotAllocation>,
+  dividends: DividendRow[]
+) => {
+  const shares = new Map<number, IncomeShare[]>();
+  holdings.forEach((holding) => shares.set(holding.id, []));
+
+  for (const dividend of dividends) {
+    const lots = holdings.filter(
+      (holding) => holding.ticker === dividend.ticker && holding.market === dividend.market
+    );
+    if (!lots.length) continue;
+
+    let weights = lots.map((lot) => getOpenQuantityOn(lot, allocations.get(lot.id), dividend.pay_date));
+    if (!weights.some((weight) => weight > 0)) {
+      weights = lots.map((lot) => lot.quantity);
+    }
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (!totalWeight) continue;
+
+    const net = dividend.gross_amount - dividend.withholding_tax;
+    lots.forEach((lot, index) => {
+      if (!weights[index]) return;
+      shares.get(lot.id)?.push({
+        dividend_id: dividend.id,
+        pay_date: dividend.pay_date,
+        currency: dividend.currency,
+        net_amount: (net * weights[index]) / totalWeight
+      });
+    });
+  }
+
+  return shares;
+};
+
+export { listDividends, addDividend, deleteDividend, allocateIncome };
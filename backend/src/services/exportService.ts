@@ -0,0 +1,94 @@
+import xlsx from 'xlsx';
+import type { HoldingWithQuote } from './portfolioService';
+import type { TransactionRow } from './transactionService';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportRow = Record<string, string | number | null>;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
+// Column names double as spreadsheet headers, so they stay in snake_case like the JSON API.
+const toHoldingExportRows = (holdings: HoldingWithQuote[], currency: string): ExportRow[] =>
+  holdings.map((holding) => ({
+    portfolio_id: holding.portfolio_id,
+    holding_id: holding.id,
+    ticker: holding.ticker,
+    market: holding.market,
+    company_name: holding.company_name,
+    asset_class: holding.asset_class,
+    buy_date: holding.buy_date,
+    quantity: holding.quantity,
+    open_quantity: holding.open_quantity,
+    native_buy_price: holding.native_buy_price,
+    buy_price: holding.buy_price,
+    currency,
+    cost_basis: holding.cost_basis,
+    last_price: holding.latest_quote.price,
+    quote_as_of: holding.latest_quote.as_of,
+    quote_source: holding.latest_quote.source,
+    market_value: holding.market_value,
+    unrealized_pnl: holding.unrealized_pnl,
+    realized_pnl: holding.realized_pnl,
+    income_received: holding.income_received
+  }));
+
+const toTransactionExportRows = (transactions: TransactionRow[]): ExportRow[] =>
+  transactions.map((transaction) => ({
+    portfolio_id: transaction.portfolio_id,
+    transaction_id: transaction.id,
+    holding_id: transaction.holding_id,
+    type: transaction.type,
+    ticker: transaction.ticker,
+    market: transaction.market,
+    trade_date: transaction.trade_date,
+    price: transaction.price,
+    quantity: transaction.quantity,
+    fee: transaction.fee
+  }));
+
+const toPerformanceExportRows = (
+  series: Array<{ date: string; value: number }>,
+  totalReturnSeries: Array<{ date: string; value: number }>,
+  currency: string
+): ExportRow[] => {
+  const totalReturnByDate = new Map(totalReturnSeries.map((point) => [point.date, point.value]));
+  return series.map((point) => ({
+    date: point.date,
+    currency,
+    value: point.value,
+    total_return_value: totalReturnByDate.get(point.date) ?? null
+  }));
+};
+
+const renderExport = ({
+  rows,
+  format,
+  sheetName
+}: {
+  rows: ExportRow[];
+  format: ExportFormat;
+  sheetName: string;
+}) => {
+  if (format === 'json') {
+    return { body: JSON.stringify(rows, null, 2), contentType: CONTENT_TYPES.json };
+  }
+
+  const sheet = xlsx.utils.json_to_sheet(rows);
+  if (format === 'csv') {
+    return { body: xlsx.utils.sheet_to_csv(sheet), contentType: CONTENT_TYPES.csv };
+  }
+
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, sheet, sheetName);
+  return {
+    body: xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+    contentType: CONTENT_TYPES.xlsx
+  };
+};
+
+export { toHoldingExportRows, toTransactionExportRows, toPerformanceExportRows, renderExport };
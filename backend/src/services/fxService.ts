@@ -1,10 +1,28 @@
 import { db } from '../db/index';
-import { MarketDataProvider } from '../providers/base';
+import { ExchangeRateHistoryPoint, MarketDataProvider } from '../providers/base';
 import { FrankfurterProvider } from '../providers/frankfurter';
-import { fetchWithProviders } from './marketDataService';
+import { governProvider } from '../providers/governor';
+import { CryptoQuoteAsset, getCryptoQuoteAsset } from '../config/cryptoAssets';
+import { coalesce, fetchWithProviders, findMissingRanges, getHistory, getLatestQuote } from './marketDataService';
+import { recordCacheLookup } from './diagnosticsService';
+import { getInstrumentCurrency } from './instrumentService';
 
 const getFxTtlSeconds = (): number => Number(process.env.FX_TTL_SECONDS || 3600);
 
+// FX markets close on weekends and holidays and publish with a delay, so the last few days before
+// `to` are only fetched when nothing cached reaches them.
+const FX_HISTORY_GAP_DAYS = 4;
+// Extra days fetched before `from` so the first day can carry forward an earlier rate.
+const FX_HISTORY_LOOKBACK_DAYS = 7;
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
 const getCachedFxRate = (base: string, quote: string) => {
   return db
     .prepare(
@@ -38,32 +56,43 @@ const cacheFxRate = ({ base, quote, rate, source }: { base: string; quote: strin
   ).run(base, quote, rate, source, `+${ttlSeconds} seconds`);
 };
 
+// Stooq and Binance have no FX endpoints.
+const getFxProviders = (providers: MarketDataProvider[]): MarketDataProvider[] => [
+  ...providers.filter((p) => p.name !== 'STOOQ' && p.name !== 'BINANCE'),
+  governProvider(new FrankfurterProvider())
+];
+
 const getFxRate = async ({
   base,
   quote,
-  providers
+  providers,
+  forceRefresh = false
 }: {
   base: string;
   quote: string;
   providers: MarketDataProvider[];
-}) => {
+  forceRefresh?: boolean;
+}): Promise<number> => {
   if (base === quote) return 1;
 
-  const cached = getCachedFxRate(base, quote);
-  if (cached) return cached.rate;
+  const asset = getCryptoQuoteAsset(base);
+  if (asset) {
+    const { reference, rate } = await getCryptoSpotRate({ asset, providers, forceRefresh });
+    return rate * (await getFxRate({ base: reference, quote, providers, forceRefresh }));
+  }
 
-  const fxProviders: MarketDataProvider[] = [
-    ...providers.filter((p) => p.name !== 'STOOQ'),
-    new FrankfurterProvider()
-  ];
+  const cached = forceRefresh ? null : getCachedFxRate(base, quote);
+  if (!forceRefresh) recordCacheLookup('fx', !!cached);
+  if (cached) return cached.rate;
 
   try {
-    const { provider, result } = await fetchWithProviders(fxProviders, (p) =>
-      p.getExchangeRate({ base, quote })
-    );
-
-    cacheFxRate({ base, quote, rate: result.rate, source: provider.name });
-    return result.rate;
+    return await coalesce(`getExchangeRate|${base}|${quote}`, async () => {
+      const { provider, result } = await fetchWithProviders(getFxProviders(providers), (p) =>
+        p.getExchangeRate({ base, quote })
+      );
+      cacheFxRate({ base, quote, rate: result.rate, source: provider.name });
+      return result.rate;
+    });
   } catch (error) {
     const stale = getStaleFxRate(base, quote);
     if (stale) return stale.rate;
@@ -71,4 +100,292 @@ const getFxRate = async ({
   }
 };
 
-export { getFxRate };
+// One unit of a crypto quote asset in its reference currency: the peg, or the last price of its pair.
+const getCryptoSpotRate = async ({
+  asset,
+  providers,
+  forceRefresh = false
+}: {
+  asset: CryptoQuoteAsset;
+  providers: MarketDataProvider[];
+  forceRefresh?: boolean;
+}) => {
+  if ('peg' in asset) return { reference: asset.peg, rate: 1 };
+  const quote = await getLatestQuote({ ticker: asset.pair, market: asset.market, providers, forceRefresh });
+  return { reference: getInstrumentCurrency(asset.pair, asset.market), rate: quote.price };
+};
+
+const getFxHistoryRows = ({ base, quote, from, to }: { base: string; quote: string; from: string; to: string }) => {
+  return db
+    .prepare(
+      `SELECT date, MAX(rate) AS rate
+       FROM fx_history
+       WHERE base = ? AND quote = ? AND date BETWEEN ? AND ?
+       GROUP BY date
+       ORDER BY date`
+    )
+    .all(base, quote, from, to) as ExchangeRateHistoryPoint[];
+};
+
+const cacheFxHistoryRows = ({
+  base,
+  quote,
+  rows,
+  source
+}: {
+  base: string;
+  quote: string;
+  rows: ExchangeRateHistoryPoint[];
+  source: string;
+}) => {
+  const stmt = db.prepare(
+    `INSERT OR REPLACE INTO fx_history
+     (base, quote, date, rate, source, fetched_at)
+     VALUES (?, ?, ?, ?, ?, datetime('now'))`
+  );
+
+  const insertMany = db.transaction((records: ExchangeRateHistoryPoint[]) => {
+    for (const row of records) {
+      stmt.run(base, quote, row.date, row.rate, source);
+    }
+  });
+
+  insertMany(rows);
+};
+
+const getFxHistoryRanges = (base: string, quote: string) => {
+  return db
+    .prepare(
+      `SELECT range_from AS "from", range_to AS "to"
+       FROM fx_history_ranges
+       WHERE base = ? AND quote = ?
+       ORDER BY range_from`
+    )
+    .all(base, quote) as Array<{ from: string; to: string }>;
+};
+
+// Stores a fetched range, folding in overlapping or adjacent ranges from the same source.
+const recordFxHistoryRange = ({
+  base,
+  quote,
+  source,
+  from,
+  to
+}: {
+  base: string;
+  quote: string;
+  source: string;
+  from: string;
+  to: string;
+}) => {
+  const merge = db.transaction(() => {
+    const touching = db
+      .prepare(
+        `SELECT id, range_from, range_to
+         FROM fx_history_ranges
+         WHERE base = ? AND quote = ? AND source = ? AND range_from <= ? AND range_to >= ?`
+      )
+      .all(base, quote, source, shiftDate(to, 1), shiftDate(from, -1)) as Array<{
+      id: number;
+      range_from: string;
+      range_to: string;
+    }>;
+    const merged = touching.reduce(
+      (range, row) => ({
+        from: row.range_from < range.from ? row.range_from : range.from,
+        to: row.range_to > range.to ? row.range_to : range.to
+      }),
+      { from, to }
+    );
+    const remove = db.prepare('DELETE FROM fx_history_ranges WHERE id = ?');
+    touching.forEach((row) => remove.run(row.id));
+    db.prepare(
+      `INSERT INTO fx_history_ranges (base, quote, source, range_from, range_to, fetched_at)
+       VALUES (?, ?, ?, ?, ?, datetime('now'))`
+    ).run(base, quote, source, merged.from, merged.to);
+  });
+  merge();
+};
+
+// Spans of from..to that no earlier fetch covered. A span of only the last few days is left alone
+// while the rest is covered, since rates for them may simply not be published yet.
+const findFxHistoryGaps = (base: string, quote: string, from: string, to: string) => {
+  const cappedTo = to > todayIso() ? todayIso() : to;
+  if (from > cappedTo) return [];
+  const recent = shiftDate(cappedTo, -FX_HISTORY_GAP_DAYS);
+  const ranges = getFxHistoryRanges(base, quote);
+  return findMissingRanges(ranges, from, cappedTo).filter(
+    (gap) => !(ranges.length && gap.to === cappedTo && gap.from > recent)
+  );
+};
+
+const getFxRateHistory = async ({
+  base,
+  quote,
+  from,
+  to,
+  providers
+}: {
+  base: string;
+  quote: string;
+  from: string;
+  to: string;
+  providers: MarketDataProvider[];
+}): Promise<ExchangeRateHistoryPoint[]> => {
+  if (base === quote) return [];
+
+  const lookbackFrom = shiftDate(from, -FX_HISTORY_LOOKBACK_DAYS);
+  const gaps = findFxHistoryGaps(base, quote, lookbackFrom, to);
+  recordCacheLookup('fx', !gaps.length);
+
+  for (const gap of gaps) {
+    try {
+      await coalesce(`getExchangeRateHistory|${base}|${quote}|${gap.from}|${gap.to}`, async () => {
+        const { provider, result } = await fetchWithProviders(getFxProviders(providers), (p) =>
+          p.getExchangeRateHistory({ base, quote, from: gap.from, to: gap.to })
+        );
+        const rows = result.filter((row) => row.date >= gap.from && row.date <= gap.to);
+        cacheFxHistoryRows({ base, quote, rows, source: provider.name });
+        // Like price history, the recent end only counts as fetched up to the newest rate returned.
+        const newest = rows.reduce<string | null>(
+          (latest, row) => (!latest || row.date > latest ? row.date : latest),
+          null
+        );
+        const recordedTo = gap.to < shiftDate(todayIso(), -FX_HISTORY_GAP_DAYS) ? gap.to : newest;
+        if (recordedTo) {
+          recordFxHistoryRange({ base, quote, source: provider.name, from: gap.from, to: recordedTo });
+        }
+      });
+    } catch {
+      // Fall through to whatever is cached; callers fall back to the spot rate when nothing is.
+    }
+  }
+
+  return getFxHistoryRows({ base, quote, from: lookbackFrom, to });
+};
+
+// Resolves the rate for any day by carrying the last known rate forward. Days before the
+// first known rate use the earliest one, and `spotRate` stands in when there is no history.
+const createFxRateLookup = (rows: ExchangeRateHistoryPoint[], spotRate: number) => {
+  const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+  return (date: string) => {
+    if (!sorted.length) return spotRate;
+    if (date >= todayIso()) return spotRate;
+    let low = 0;
+    let high = sorted.length - 1;
+    let match = -1;
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+      if (sorted[mid].date <= date) {
+        match = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return match >= 0 ? sorted[match].rate : sorted[0].rate;
+  };
+};
+
+const getFxRateResolver = async ({
+  base,
+  quote,
+  from,
+  to,
+  providers
+}: {
+  base: string;
+  quote: string;
+  from: string;
+  to: string;
+  providers: MarketDataProvider[];
+}) => {
+  if (base === quote) return () => 1;
+  const asset = getCryptoQuoteAsset(base);
+  if (asset) return getCryptoRateResolver({ asset, quote, from, to, providers });
+  const rows = await getFxRateHistory({ base, quote, from, to, providers });
+  let spotRate: number;
+  try {
+    spotRate = await getFxRate({ base, quote, providers });
+  } catch (error) {
+    if (!rows.length) throw error;
+    spotRate = rows[rows.length - 1].rate;
+  }
+  return createFxRateLookup(rows, spotRate);
+};
+
+// Dated rates for a crypto quote asset: daily closes of its pair (or the peg), chained with the
+// rates from the pair's quote asset into `quote`.
+const getCryptoRateResolver = async ({
+  asset,
+  quote,
+  from,
+  to,
+  providers
+}: {
+  asset: CryptoQuoteAsset;
+  quote: string;
+  from: string;
+  to: string;
+  providers: MarketDataProvider[];
+}): Promise<(date: string) => number> => {
+  if ('peg' in asset) return getFxRateResolver({ base: asset.peg, quote, from, to, providers });
+
+  let rows: ExchangeRateHistoryPoint[] = [];
+  try {
+    const history = await getHistory({
+      ticker: asset.pair,
+      market: asset.market,
+      from: shiftDate(from, -FX_HISTORY_LOOKBACK_DAYS),
+      to,
+      interval: '1d',
+      providers
+    });
+    rows = history.rows.map((row) => ({ date: row.date, rate: row.price }));
+  } catch {
+    // The spot price stands in for every day, as with fiat pairs without history.
+  }
+  let spotRate: number;
+  try {
+    spotRate = (await getCryptoSpotRate({ asset, providers })).rate;
+  } catch (error) {
+    if (!rows.length) throw error;
+    spotRate = rows[rows.length - 1].rate;
+  }
+
+  const toReference = createFxRateLookup(rows, spotRate);
+  const referenceToQuote = await getFxRateResolver({
+    base: getInstrumentCurrency(asset.pair, asset.market),
+    quote,
+    from,
+    to,
+    providers
+  });
+  return (date: string) => toReference(date) * referenceToQuote(date);
+};
+
+// Memoizes one dated FX lookup per source currency for the duration of a request.
+const createRateResolverCache = ({
+  baseCurrency,
+  from,
+  to,
+  providers
+}: {
+  baseCurrency: string;
+  from: string;
+  to: string;
+  providers: MarketDataProvider[];
+}) => {
+  const cache = new Map<string, Promise<(date: string) => number>>();
+  return (fromCurrency: string) => {
+    const normalizedFrom = fromCurrency.toUpperCase();
+    if (normalizedFrom === baseCurrency) return Promise.resolve(() => 1);
+    const existing = cache.get(normalizedFrom);
+    if (existing) return existing;
+    const pending = getFxRateResolver({ base: normalizedFrom, quote: baseCurrency, from, to, providers });
+    cache.set(normalizedFrom, pending);
+    return pending;
+  };
+};
+
+export { getFxRate, getFxRateHistory, createFxRateLookup, getFxRateResolver, createRateResolverCache };
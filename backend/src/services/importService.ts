@@ -0,0 +1,208 @@
+import { db } from '../db/index';
+import type { GenericColumnMapping, ImportRecord, ImportRecordKind, ImportSkip } from '../importers/base';
+import { resolveImporter } from '../importers';
+import { buildKey, buildRecordKey, readTables } from '../importers/shared';
+import { addHolding, listHoldings } from './portfolioService';
+import { addSellTransaction, listSellTransactions } from './transactionService';
+import { addDividend, listDividends } from './dividendService';
+import { addCashMovement, listCashMovements } from './cashService';
+import { getInstrumentCurrency } from './instrumentService';
+
+export type ImportSummary = {
+  format: string;
+  dry_run: boolean;
+  records: number;
+  inserted: number;
+  duplicates: number;
+  skipped: ImportSkip[];
+  failed: ImportSkip[];
+  unsupported_markets: string[];
+};
+
+// Within a day, money and lots arrive before they are sold or paid out.
+const KIND_ORDER: Record<ImportRecordKind, number> = {
+  DEPOSIT: 0,
+  BUY: 1,
+  SELL: 2,
+  DIVIDEND: 3,
+  FEE: 4,
+  WITHDRAWAL: 5
+};
+
+const loadExistingKeys = (portfolioId: number) => {
+  const keys = new Set<string>();
+  listHoldings(portfolioId).forEach((holding) => keys.add(buildKey(holding)));
+  listSellTransactions(portfolioId).forEach((sell) =>
+    keys.add(
+      buildRecordKey({
+        kind: 'SELL',
+        ticker: sell.ticker,
+        market: sell.market,
+        date: sell.trade_date,
+        price: sell.price,
+        quantity: sell.quantity,
+        source_row: 0
+      })
+    )
+  );
+  listDividends(portfolioId).forEach((dividend) =>
+    keys.add(
+      buildRecordKey({
+        kind: 'DIVIDEND',
+        ticker: dividend.ticker,
+        market: dividend.market,
+        date: dividend.pay_date,
+        amount: dividend.gross_amount,
+        source_row: 0
+      })
+    )
+  );
+  listCashMovements(portfolioId).forEach((movement) => {
+    if (movement.type === 'FX_CONVERSION') return;
+    keys.add(
+      buildRecordKey({
+        kind: movement.type,
+        date: movement.date,
+        amount: movement.amount,
+        currency: movement.currency,
+        source_row: 0
+      })
+    );
+  });
+  return keys;
+};
+
+// Prices from position reports stay valid for a year so offline imports still show a value.
+const cacheImportedQuote = (record: ImportRecord, asOf: string) => {
+  db.prepare(
+    `INSERT OR REPLACE INTO quote_cache
+     (ticker, market, price, currency, as_of, source, fetched_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now', '+365 days'))`
+  ).run(
+    record.ticker,
+    record.market,
+    record.market_price,
+    getInstrumentCurrency(record.ticker as string, record.market as string),
+    asOf,
+    'IMPORT'
+  );
+};
+
+const applyRecord = (portfolioId: number, record: ImportRecord) => {
+  const ticker = record.ticker as string;
+  const market = record.market as string;
+
+  if (record.kind === 'BUY') {
+    addHolding({
+      portfolioId,
+      ticker,
+      market,
+      buyDate: record.date,
+      buyPrice: record.price as number,
+      quantity: record.quantity as number,
+      fee: record.fee
+    });
+    return;
+  }
+  if (record.kind === 'SELL') {
+    addSellTransaction({
+      portfolioId,
+      ticker,
+      market,
+      tradeDate: record.date,
+      price: record.price as number,
+      quantity: record.quantity as number,
+      fee: record.fee,
+      holdings: listHoldings(portfolioId)
+    });
+    return;
+  }
+  if (record.kind === 'DIVIDEND') {
+    addDividend({
+      portfolioId,
+      ticker,
+      market,
+      payDate: record.date,
+      grossAmount: record.amount as number,
+      withholdingTax: record.withholding_tax,
+      currency: record.currency || getInstrumentCurrency(ticker, market)
+    });
+    return;
+  }
+  addCashMovement({
+    portfolioId,
+    type: record.kind,
+    date: record.date,
+    currency: record.currency as string,
+    amount: record.amount as number,
+    note: 'Imported'
+  });
+};
+
+const runImport = ({
+  portfolioId,
+  content,
+  filename,
+  format,
+  mapping,
+  currency,
+  dryRun = false
+}: {
+  portfolioId: number;
+  content: Buffer;
+  filename?: string;
+  format?: string;
+  mapping?: GenericColumnMapping;
+  currency: string;
+  dryRun?: boolean;
+}): ImportSummary => {
+  const tables = readTables(content);
+  const importer = resolveImporter(format, tables);
+  const parsed = importer.parse(tables, { currency, filename, mapping });
+
+  const records = [...parsed.records].sort(
+    (a, b) => a.date.localeCompare(b.date) || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]
+  );
+  const existingKeys = loadExistingKeys(portfolioId);
+  const summary: ImportSummary = {
+    format: importer.id,
+    dry_run: dryRun,
+    records: records.length,
+    inserted: 0,
+    duplicates: 0,
+    skipped: parsed.skipped,
+    failed: [],
+    unsupported_markets: parsed.unsupported_markets
+  };
+
+  for (const record of records) {
+    if (!dryRun && record.market_price !== undefined && parsed.report_date) {
+      cacheImportedQuote(record, parsed.report_date);
+    }
+
+    const key = buildRecordKey(record);
+    if (existingKeys.has(key)) {
+      summary.duplicates += 1;
+      continue;
+    }
+
+    if (!dryRun) {
+      try {
+        applyRecord(portfolioId, record);
+      } catch (error) {
+        summary.failed.push({
+          row: record.source_row,
+          reason: error instanceof Error ? error.message : 'Import failed'
+        });
+        continue;
+      }
+    }
+
+    existingKeys.add(key);
+    summary.inserted += 1;
+  }
+
+  return summary;
+};
+
+export { runImport };
@@ -0,0 +1,251 @@
+import { db } from '../db/index';
+import { HistoryPoint } from '../providers/base';
+import { AssetType, getMarketDefinition } from '../config/markets';
+import { shiftDate } from './calendarService';
+
+export type InstrumentPricing = 'PROVIDER' | 'MANUAL' | 'ACCRUAL';
+
+export type InstrumentRow = {
+  id: number;
+  ticker: string;
+  market: string;
+  name: string | null;
+  asset_class: AssetType;
+  currency: string | null;
+  pricing: InstrumentPricing;
+  face_value: number | null;
+  issue_date: string | null;
+  maturity_date: string | null;
+  capitalization: 'ANNUAL' | 'NONE' | null;
+  created_at: string;
+};
+
+export type InstrumentInput = {
+  ticker: string;
+  market: string;
+  name?: string | null;
+  assetClass: AssetType;
+  currency?: string | null;
+  pricing?: InstrumentPricing;
+  faceValue?: number | null;
+  issueDate?: string | null;
+  maturityDate?: string | null;
+  capitalization?: 'ANNUAL' | 'NONE' | null;
+};
+
+type RateRow = { from_date: string; rate: number };
+
+const instrumentColumns = `id, ticker, market, name, asset_class, currency, pricing, face_value, issue_date,
+  maturity_date, capitalization, created_at`;
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+const listInstruments = () => {
+  return db
+    .prepare(`SELECT ${instrumentColumns} FROM instruments ORDER BY market, ticker`)
+    .all() as InstrumentRow[];
+};
+
+const getInstrument = (ticker: string, market: string) => {
+  return db
+    .prepare(`SELECT ${instrumentColumns} FROM instruments WHERE ticker = ? AND market = ?`)
+    .get(ticker.toUpperCase(), market.toUpperCase()) as InstrumentRow | undefined;
+};
+
+const getInstrumentById = (id: number) => {
+  return db.prepare(`SELECT ${instrumentColumns} FROM instruments WHERE id = ?`).get(id) as
+    | InstrumentRow
+    | undefined;
+};
+
+// Registering a symbol twice replaces its metadata; recorded prices and rates are kept.
+const saveInstrument = (input: InstrumentInput) => {
+  const pricing = input.pricing ?? 'PROVIDER';
+  if (pricing === 'ACCRUAL' && (!input.faceValue || !input.issueDate)) {
+    throw new Error('Accrual instruments need a face value and an issue date');
+  }
+  if (pricing !== 'PROVIDER' && !input.currency) {
+    throw new Error('Manually priced instruments need a currency');
+  }
+
+  db.prepare(
+    `INSERT INTO instruments
+     (ticker, market, name, asset_class, currency, pricing, face_value, issue_date, maturity_date, capitalization)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (ticker, market) DO UPDATE SET
+       name = excluded.name,
+       asset_class = excluded.asset_class,
+       currency = excluded.currency,
+       pricing = excluded.pricing,
+       face_value = excluded.face_value,
+       issue_date = excluded.issue_date,
+       maturity_date = excluded.maturity_date,
+       capitalization = excluded.capitalization`
+  ).run(
+    input.ticker.toUpperCase(),
+    input.market.toUpperCase(),
+    input.name ?? null,
+    input.assetClass,
+    input.currency?.toUpperCase() ?? null,
+    pricing,
+    input.faceValue ?? null,
+    input.issueDate ?? null,
+    input.maturityDate ?? null,
+    pricing === 'ACCRUAL' ? input.capitalization ?? 'ANNUAL' : null
+  );
+  return getInstrument(input.ticker, input.market) as InstrumentRow;
+};
+
+const deleteInstrument = (id: number) => {
+  return db.prepare(`DELETE FROM instruments WHERE id = ?`).run(id).changes > 0;
+};
+
+const listInstrumentPrices = (instrumentId: number) => {
+  return db
+    .prepare(`SELECT id, date, price FROM instrument_prices WHERE instrument_id = ? ORDER BY date`)
+    .all(instrumentId) as Array<{ id: number; date: string; price: number }>;
+};
+
+const setInstrumentPrice = ({ instrumentId, date, price }: { instrumentId: number; date: string; price: number }) => {
+  db.prepare(
+    `INSERT INTO instrument_prices (instrument_id, date, price)
+     VALUES (?, ?, ?)
+     ON CONFLICT (instrument_id, date) DO UPDATE SET price = excluded.price`
+  ).run(instrumentId, date, price);
+};
+
+const deleteInstrumentPrice = ({ instrumentId, id }: { instrumentId: number; id: number }) => {
+  return db.prepare(`DELETE FROM instrument_prices WHERE id = ? AND instrument_id = ?`).run(id, instrumentId).changes > 0;
+};
+
+const listInstrumentRates = (instrumentId: number) => {
+  return db
+    .prepare(`SELECT from_date, rate FROM instrument_rates WHERE instrument_id = ? ORDER BY from_date`)
+    .all(instrumentId) as RateRow[];
+};
+
+const setInstrumentRate = ({ instrumentId, fromDate, rate }: { instrumentId: number; fromDate: string; rate: number }) => {
+  db.prepare(
+    `INSERT INTO instrument_rates (instrument_id, from_date, rate)
+     VALUES (?, ?, ?)
+     ON CONFLICT (instrument_id, from_date) DO UPDATE SET rate = excluded.rate`
+  ).run(instrumentId, fromDate, rate);
+};
+
+const getAssetClass = (ticker: string, market: string): AssetType => {
+  return getInstrument(ticker, market)?.asset_class ?? getMarketDefinition(market)?.assetType ?? 'equity';
+};
+
+// Registered instruments carry their own currency. Otherwise crypto pairs are priced in their quote
+// asset (BTC/EUR in EUR, ETH/BTC in BTC), and everything else in the market's currency.
+const getInstrumentCurrency = (ticker: string, market: string) => {
+  const currency = getInstrument(ticker, market)?.currency;
+  if (currency) return currency;
+  const definition = getMarketDefinition(market);
+  if (definition?.assetType === 'crypto') {
+    const quote = ticker.split('/')[1] || definition.defaultQuote || definition.currency;
+    return quote.toUpperCase();
+  }
+  return definition?.currency || 'USD';
+};
+
+// Instruments that are valued from user input instead of a provider.
+const getManualInstrument = (ticker: string, market: string) => {
+  const instrument = getInstrument(ticker, market);
+  return instrument && instrument.pricing !== 'PROVIDER' ? instrument : null;
+};
+
+const addYears = (date: string, years: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCFullYear(next.getUTCFullYear() + years);
+  return next.toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+// Value of one unit on `date`, with interest accrued linearly through the current yearly period.
+// ANNUAL capitalizes interest at each anniversary of the issue date (inflation-indexed savings
+// bonds like EDO); NONE pays it out, so the value falls back to face after every anniversary (COI).
+// A period takes the latest rate set on or before its start, or the first rate when none precedes it.
+const getAccruedValue = (instrument: InstrumentRow, rates: RateRow[], date: string) => {
+  const face = instrument.face_value ?? 0;
+  const issueDate = instrument.issue_date;
+  if (!issueDate || date < issueDate) return face;
+  const end = instrument.maturity_date && date > instrument.maturity_date ? instrument.maturity_date : date;
+
+  let value = face;
+  let periodStart = issueDate;
+  for (let year = 1; ; year += 1) {
+    const periodEnd = addYears(issueDate, year);
+    const rate = rates.filter((row) => row.from_date <= periodStart).pop()?.rate ?? rates[0]?.rate ?? 0;
+    if (end < periodEnd) {
+      return value * (1 + (rate * daysBetween(periodStart, end)) / daysBetween(periodStart, periodEnd));
+    }
+    if (instrument.capitalization !== 'NONE') {
+      value *= 1 + rate;
+    }
+    periodStart = periodEnd;
+  }
+};
+
+const getManualQuote = (instrument: InstrumentRow, date: string = todayIso()) => {
+  const source = instrument.pricing;
+  if (instrument.pricing === 'ACCRUAL') {
+    return {
+      price: getAccruedValue(instrument, listInstrumentRates(instrument.id), date),
+      currency: instrument.currency,
+      as_of: date,
+      source,
+      cached: false
+    };
+  }
+  const row = db
+    .prepare(
+      `SELECT date, price FROM instrument_prices
+       WHERE instrument_id = ? AND date <= ?
+       ORDER BY date DESC
+       LIMIT 1`
+    )
+    .get(instrument.id, date) as { date: string; price: number } | undefined;
+  if (!row) return null;
+  return { price: row.price, currency: instrument.currency, as_of: row.date, source, cached: false };
+};
+
+// Daily values for ACCRUAL instruments; MANUAL ones return their entered prices, led by the last
+// price before `from` so the series does not start empty.
+const getManualHistory = (instrument: InstrumentRow, from: string, to: string): HistoryPoint[] => {
+  if (instrument.pricing === 'ACCRUAL') {
+    const rates = listInstrumentRates(instrument.id);
+    const rows: HistoryPoint[] = [];
+    for (let date = from; date <= to; date = shiftDate(date, 1)) {
+      rows.push({ date, price: getAccruedValue(instrument, rates, date), currency: instrument.currency });
+    }
+    return rows;
+  }
+  const prices = listInstrumentPrices(instrument.id).filter((row) => row.date <= to);
+  const before = prices.filter((row) => row.date < from).pop();
+  return [
+    ...(before ? [{ ...before, date: from }] : []),
+    ...prices.filter((row) => row.date >= from)
+  ].map((row) => ({ date: row.date, price: row.price, currency: instrument.currency }));
+};
+
+export {
+  listInstruments,
+  getInstrument,
+  getInstrumentById,
+  saveInstrument,
+  deleteInstrument,
+  listInstrumentPrices,
+  setInstrumentPrice,
+  deleteInstrumentPrice,
+  listInstrumentRates,
+  setInstrumentRate,
+  getAssetClass,
+  getInstrumentCurrency,
+  getManualInstrument,
+  getAccruedValue,
+  getManualQuote,
+  getManualHistory
+};
@@ -0,0 +1,195 @@
+import { db } from '../db/index';
+import { MarketDataProvider } from '../providers/base';
+import { AlertChannel } from '../alerts/base';
+import { getHistory, getLatestQuote } from './marketDataService';
+import { getFxRate } from './fxService';
+import { isMarketOpen } from './calendarService';
+import { backfillSymbolNames } from './validationService';
+import { evaluateAllAlerts } from './alertService';
+import { listHoldings } from './portfolioService';
+import { allocateLots, listSellTransactions } from './transactionService';
+import type { ScheduledJob } from './schedulerService';
+import { getInstrumentCurrency } from './instrumentService';
+
+type HeldSymbol = { ticker: string; market: string; first_buy_date: string };
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+// Symbols with an open lot in any portfolio, with the first buy date for history backfills.
+const listHeldSymbols = () => {
+  const portfolios = db.prepare('SELECT id FROM portfolios ORDER BY id').all() as Array<{ id: number }>;
+  const symbols = new Map<string, HeldSymbol>();
+  for (const { id } of portfolios) {
+    const holdings = listHoldings(id);
+    const { allocations } = allocateLots(holdings, listSellTransactions(id));
+    for (const holding of holdings) {
+      if ((allocations.get(holding.id)?.open_quantity ?? holding.quantity) <= 0) continue;
+      const key = `${holding.ticker}|${holding.market}`;
+      const existing = symbols.get(key);
+      if (!existing || holding.buy_date < existing.first_buy_date) {
+        symbols.set(key, { ticker: holding.ticker, market: holding.market, first_buy_date: holding.buy_date });
+      }
+    }
+  }
+  return Array.from(symbols.values());
+};
+
+const refreshQuotes = async (providers: MarketDataProvider[]) => {
+  const now = new Date();
+  const summary = { symbols: 0, refreshed: 0, market_closed: 0, failed: 0 };
+  for (const symbol of listHeldSymbols()) {
+    summary.symbols += 1;
+    if (!isMarketOpen(symbol.market, now)) {
+      summary.market_closed += 1;
+      continue;
+    }
+    try {
+      await getLatestQuote({ ticker: symbol.ticker, market: symbol.market, providers, forceRefresh: true });
+      summary.refreshed += 1;
+    } catch {
+      summary.failed += 1;
+    }
+  }
+  return summary;
+};
+
+const backfillHistory = async (providers: MarketDataProvider[]) => {
+  const held = listHeldSymbols();
+  const earliest = held.reduce((min, symbol) => (symbol.first_buy_date < min ? symbol.first_buy_date : min), todayIso());
+  const benchmarks = (
+    db.prepare('SELECT DISTINCT ticker, market FROM portfolio_benchmarks').all() as Array<{ ticker: string; market: string }>
+  ).map((benchmark) => ({ ...benchmark, first_buy_date: earliest }));
+
+  const summary = { symbols: 0, updated: 0, failed: 0 };
+  const seen = new Set<string>();
+  for (const symbol of [...held, ...benchmarks]) {
+    const key = `${symbol.ticker}|${symbol.market}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    summary.symbols += 1;
+    try {
+      await getHistory({
+        ticker: symbol.ticker,
+        market: symbol.market,
+        from: symbol.first_buy_date,
+        to: todayIso(),
+        interval: '1d',
+        providers
+      });
+      summary.updated += 1;
+    } catch {
+      summary.failed += 1;
+    }
+  }
+  return summary;
+};
+
+// Every currency a portfolio holds (market, cash or dividend currency) against its base currency.
+const refreshFxRates = async (providers: MarketDataProvider[]) => {
+  const portfolios = db.prepare('SELECT id, base_currency FROM portfolios').all() as Array<{
+    id: number;
+    base_currency: string;
+  }>;
+  const pairs = new Set<string>();
+  for (const portfolio of portfolios) {
+    const currencies = new Set<string>();
+    listHoldings(portfolio.id).forEach((holding) => {
+      currencies.add(getInstrumentCurrency(holding.ticker, holding.market));
+    });
+    (
+      db
+        .prepare(
+          `SELECT currency FROM cash_accounts WHERE portfolio_id = ?
+           UNION SELECT currency FROM dividends WHERE portfolio_id = ?`
+        )
+        .all(portfolio.id, portfolio.id) as Array<{ currency: string }>
+    ).forEach((row) => currencies.add(row.currency.toUpperCase()));
+    currencies.forEach((currency) => {
+      if (currency !== portfolio.base_currency) pairs.add(`${currency}|${portfolio.base_currency}`);
+    });
+  }
+
+  const summary = { pairs: pairs.size, refreshed: 0, failed: 0 };
+  for (const pair of pairs) {
+    const [base, quote] = pair.split('|');
+    try {
+      await getFxRate({ base, quote, providers, forceRefresh: true });
+      summary.refreshed += 1;
+    } catch {
+      summary.failed += 1;
+    }
+  }
+  return summary;
+};
+
+const createDefaultJobs = ({
+  providers,
+  alertChannels
+}: {
+  providers: MarketDataProvider[];
+  alertChannels: AlertChannel[];
+}): ScheduledJob[] => {
+  const seconds = (name: string, fallback: number) => {
+    const raw = process.env[name];
+    if (!raw) return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      console.warn(`Ignoring ${name}=${raw}: expected a number of seconds, using ${fallback}`);
+      return fallback;
+    }
+    return Math.max(value, 30);
+  };
+  const utcTime = (name: string, fallback: string) => {
+    const raw = process.env[name];
+    if (!raw) return fallback;
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(raw)) {
+      console.warn(`Ignoring ${name}=${raw}: expected HH:MM in UTC, using ${fallback}`);
+      return fallback;
+    }
+    return raw;
+  };
+  const nightlyAt = utcTime('SCHEDULER_NIGHTLY_UTC', '02:00');
+
+  const jobs: ScheduledJob[] = [
+    {
+      name: 'refresh-quotes',
+      description: 'Refresh quotes for held symbols whose market is in its trading session',
+      schedule: { everySeconds: seconds('SCHEDULER_QUOTE_INTERVAL_SECONDS', 300) },
+      runOnStart: true,
+      run: () => refreshQuotes(providers)
+    },
+    {
+      name: 'backfill-history',
+      description: 'Fill daily price_history for held and benchmark symbols',
+      schedule: { dailyAtUtc: nightlyAt },
+      run: () => backfillHistory(providers)
+    },
+    {
+      name: 'refresh-fx',
+      description: 'Refresh spot FX rates between held currencies and portfolio base currencies',
+      schedule: { everySeconds: seconds('SCHEDULER_FX_INTERVAL_SECONDS', seconds('FX_TTL_SECONDS', 3600)) },
+      runOnStart: true,
+      run: () => refreshFxRates(providers)
+    },
+    {
+      name: 'backfill-names',
+      description: 'Look up company names for held symbols that have none yet',
+      schedule: { dailyAtUtc: nightlyAt },
+      runOnStart: true,
+      run: () => backfillSymbolNames({ providers })
+    }
+  ];
+
+  // Weight rules and symbols nobody is looking at are only caught by this periodic pass; 0 turns it off.
+  if (process.env.ALERT_CHECK_INTERVAL_SECONDS !== '0') {
+    jobs.push({
+      name: 'evaluate-alerts',
+      description: 'Check every alert rule, including position weights',
+      schedule: { everySeconds: seconds('ALERT_CHECK_INTERVAL_SECONDS', 900) },
+      run: async () => ({ triggered: (await evaluateAllAlerts({ providers, channels: alertChannels })).length })
+    });
+  }
+  return jobs;
+};
+
+export { createDefaultJobs };
@@ -1,8 +1,31 @@
 import { db } from '../db/index';
-import { HistoryPoint, MarketDataProvider, ProviderError } from '../providers/base';
-import { getMarketDefinition } from '../config/markets';
+import { getQuotesFrom, HistoryPoint, MarketDataProvider, ProviderError, QuoteResult } from '../providers/base';
+import { routeProviders, toProviderSymbol } from '../config/markets';
+import {
+  getLastCloseDate,
+  getNextOpen,
+  getNextTradingDay,
+  getPreviousTradingDay,
+  isMarketOpen,
+  isTradingDay,
+  shiftDate
+} from './calendarService';
+import { clearFallback, recordCacheLookup, recordFallback } from './diagnosticsService';
+import { getManualHistory, getManualInstrument, getManualQuote } from './instrumentService';
 
-const getQuoteTtlSeconds = (): number => Number(process.env.QUOTE_TTL_SECONDS || 60);
+// Delayed feeds keep printing for a while after the closing bell.
+const CLOSE_GRACE_MINUTES = 30;
+
+// Outside the session a quote cannot change, so it stays fresh until the next open.
+const getQuoteTtlSeconds = (market: string): number => {
+  const ttlSeconds = Number(process.env.QUOTE_TTL_SECONDS || 60);
+  const now = new Date();
+  const graceStart = new Date(now.getTime() - CLOSE_GRACE_MINUTES * 60_000);
+  if (isMarketOpen(market, now) || isMarketOpen(market, graceStart)) return ttlSeconds;
+  const nextOpen = getNextOpen(market, now);
+  if (!nextOpen) return ttlSeconds;
+  return Math.max(ttlSeconds, Math.floor((nextOpen.getTime() - now.getTime()) / 1000));
+};
 
 const fetchWithProviders = async <T>(
   providers: MarketDataProvider[],
@@ -21,30 +44,19 @@ const fetchWithProviders = async <T>(
   throw new ProviderError('No providers configured');
 };
 
-const resolveExchange = (market: string) => {
-  const definition = getMarketDefinition(market);
-  return definition?.providerExchange || market;
-};
-
-const filterProvidersForMarket = (providers: MarketDataProvider[], market: string) => {
-  const normalized = market.toUpperCase();
-  const stooqMarkets = new Set(['NASDAQ', 'NYSE', 'AMEX', 'XWAR', 'GPW', 'XLON', 'XETR']);
-  const preferStooq = new Set(['XWAR', 'GPW', 'XLON', 'XETR']);
-
-  const filtered = providers.filter((provider) => {
-    if (provider.name === 'STOOQ') {
-      return stooqMarkets.has(normalized);
-    }
-    return true;
-  });
-
-  if (preferStooq.has(normalized)) {
-    return [...filtered].sort((a, b) => (a.name === 'STOOQ' ? -1 : b.name === 'STOOQ' ? 1 : 0));
-  }
+const inFlight = new Map<string, Promise<unknown>>();
 
-  return filtered;
+// Identical concurrent fetches share one upstream call; the entry is dropped once it settles.
+const coalesce = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+  const promise = task().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
 };
 
+const quoteKey = (ticker: string, market: string) => `getQuote|${ticker}|${market}`;
+
 const getCachedQuote = (ticker: string, market: string) => {
   return db
     .prepare(
@@ -102,7 +114,7 @@ const cacheQuote = ({
   asOf: string;
   source: string;
 }) => {
-  const ttlSeconds = getQuoteTtlSeconds();
+  const ttlSeconds = getQuoteTtlSeconds(market);
   db.prepare(
     `INSERT OR REPLACE INTO quote_cache
      (ticker, market, price, currency, as_of, source, fetched_at, expires_at)
@@ -110,6 +122,91 @@ const cacheQuote = ({
   ).run(ticker, market, price, currency, asOf, source, `+${ttlSeconds} seconds`);
 };
 
+export type RefreshedQuote = {
+  ticker: string;
+  market: string;
+  price: number;
+  currency: string | null;
+  as_of: string;
+  source: string;
+};
+
+type QuoteListener = (quote: RefreshedQuote) => void | Promise<void>;
+
+const quoteListeners = new Set<QuoteListener>();
+
+// Called after every fresh provider quote; cache hits and fallbacks do not notify.
+const onQuoteRefreshed = (listener: QuoteListener) => {
+  quoteListeners.add(listener);
+  return () => {
+    quoteListeners.delete(listener);
+  };
+};
+
+const notifyQuoteRefreshed = (quote: RefreshedQuote) => {
+  for (const listener of quoteListeners) {
+    // A failing listener must never fail the quote request that triggered it.
+    Promise.resolve()
+      .then(() => listener(quote))
+      .catch(() => undefined);
+  }
+};
+
+const recordQuote = (ticker: string, market: string, provider: MarketDataProvider, result: QuoteResult) => {
+  cacheQuote({
+    ticker,
+    market,
+    price: result.price,
+    currency: result.currency,
+    asOf: result.asOf,
+    source: provider.name
+  });
+  clearFallback(ticker, market);
+  notifyQuoteRefreshed({
+    ticker,
+    market,
+    price: result.price,
+    currency: result.currency,
+    as_of: result.asOf,
+    source: provider.name
+  });
+};
+
+const toLatestQuote = ({ provider, result }: { provider: MarketDataProvider; result: QuoteResult }) => ({
+  price: result.price,
+  currency: result.currency,
+  as_of: result.asOf,
+  source: provider.name,
+  cached: false
+});
+
+// Last resort when no provider answers: the newest expired quote, then the newest daily close.
+const getFallbackQuote = (ticker: string, market: string) => {
+  const stale = getStaleQuote(ticker, market);
+  if (stale) {
+    recordFallback({ ticker, market, kind: 'STALE_QUOTE', source: stale.source, as_of: stale.as_of });
+    return {
+      price: stale.price,
+      currency: stale.currency,
+      as_of: stale.as_of,
+      source: stale.source,
+      cached: true
+    };
+  }
+  const history = getLatestHistoryPrice(ticker, market);
+  if (history) {
+    recordFallback({ ticker, market, kind: 'HISTORY', source: history.source || 'HISTORY', as_of: history.as_of });
+    return {
+      price: history.price,
+      currency: history.currency,
+      as_of: history.as_of,
+      source: history.source || 'HISTORY',
+      cached: true
+    };
+  }
+  return null;
+};
+
 const getLatestQuote = async ({
   ticker,
   market,
@@ -121,59 +218,135 @@ const getLatestQuote = async ({
   providers: MarketDataProvider[];
   forceRefresh?: boolean;
 }) => {
+  // Manually priced instruments never reach a provider.
+  const manual = getManualInstrument(ticker, market);
+  if (manual) {
+    const quote = getManualQuote(manual);
+    if (!quote) throw new ProviderError(`No price recorded for ${ticker}`);
+    return quote;
+  }
+
   const cached = forceRefresh ? null : getCachedQuote(ticker, market);
+  if (!forceRefresh) recordCacheLookup('quotes', !!cached);
   if (cached) return { ...cached, cached: true };
 
-  const marketProviders = filterProvidersForMarket(providers, market);
-  const exchange = resolveExchange(market);
+  const marketProviders = routeProviders(providers, market);
 
   try {
-    const { provider, result } = await fetchWithProviders(marketProviders, (p) =>
-      p.getQuote({ ticker, market: exchange })
-    );
-
-    cacheQuote({
-      ticker,
-      market,
-      price: result.price,
-      currency: result.currency,
-      asOf: result.asOf,
-      source: provider.name
+    const fetched = await coalesce(quoteKey(ticker, market), async () => {
+      const found = await fetchWithProviders(marketProviders, (p) => p.getQuote(toProviderSymbol(p.name, market, ticker)));
+      recordQuote(ticker, market, found.provider, found.result);
+      return found;
     });
-
-    return {
-      price: result.price,
-      currency: result.currency,
-      as_of: result.asOf,
-      source: provider.name,
-      cached: false
-    };
+    return toLatestQuote(fetched);
   } catch (error) {
-    const stale = getStaleQuote(ticker, market);
-    if (stale) {
-      return {
-        price: stale.price,
-        currency: stale.currency,
-        as_of: stale.as_of,
-        source: stale.source,
-        cached: true
-      };
+    const fallback = getFallbackQuote(ticker, market);
+    if (fallback) return fallback;
+    throw error;
+  }
+};
+
+// Symbols go to their first provider in batches; whatever a provider misses moves on to the
+// next provider in that symbol's chain.
+const fetchQuoteBatch = async (
+  symbols: Array<{ ticker: string; market: string }>,
+  providers: MarketDataProvider[]
+) => {
+  const found = new Map<string, { provider: MarketDataProvider; result: QuoteResult }>();
+  const pending = symbols.map((symbol) => ({
+    ...symbol,
+    candidates: routeProviders(providers, symbol.market)
+  }));
+
+  while (pending.length) {
+    const batches = new Map<MarketDataProvider, typeof pending>();
+    for (const entry of pending.splice(0)) {
+      const provider = entry.candidates.shift();
+      if (!provider) continue;
+      batches.set(provider, [...(batches.get(provider) ?? []), entry]);
     }
-    const history = getLatestHistoryPrice(ticker, market);
-    if (history) {
-      return {
-        price: history.price,
-        currency: history.currency,
-        as_of: history.as_of,
-        source: history.source || 'HISTORY',
-        cached: true
-      };
+
+    await Promise.all(
+      Array.from(batches.entries()).map(async ([provider, entries]) => {
+        let results: Array<QuoteResult | null>;
+        try {
+          results = await getQuotesFrom(
+            provider,
+            entries.map((entry) => toProviderSymbol(provider.name, entry.market, entry.ticker))
+          );
+        } catch {
+          results = [];
+        }
+        entries.forEach((entry, index) => {
+          const result = results[index];
+          if (!result) {
+            pending.push(entry);
+            return;
+          }
+          recordQuote(entry.ticker, entry.market, provider, result);
+          found.set(quoteKey(entry.ticker, entry.market), { provider, result });
+        });
+      })
+    );
+  }
+  return found;
+};
+
+// Quotes for many symbols at once, keyed `ticker|market`. Symbols nothing can price are left out.
+const getLatestQuotes = async ({
+  symbols,
+  providers,
+  forceRefresh = false
+}: {
+  symbols: Array<{ ticker: string; market: string }>;
+  providers: MarketDataProvider[];
+  forceRefresh?: boolean;
+}) => {
+  const quotes = new Map<string, Awaited<ReturnType<typeof getLatestQuote>>>();
+  const missing: Array<{ ticker: string; market: string }> = [];
+  const seen = new Set<string>();
+  for (const { ticker, market } of symbols) {
+    const key = `${ticker}|${market}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const manual = getManualInstrument(ticker, market);
+    if (manual) {
+      const quote = getManualQuote(manual);
+      if (quote) quotes.set(key, quote);
+      continue;
+    }
+    const cached = forceRefresh ? null : getCachedQuote(ticker, market);
+    if (!forceRefresh) recordCacheLookup('quotes', !!cached);
+    if (cached) {
+      quotes.set(key, { ...cached, cached: true });
+    } else {
+      missing.push({ ticker, market });
     }
-    throw error;
   }
+  if (!missing.length) return quotes;
+
+  // Symbols already being fetched by someone else join that call instead of the batch.
+  const toFetch = missing.filter(({ ticker, market }) => !inFlight.has(quoteKey(ticker, market)));
+  const batch = toFetch.length ? fetchQuoteBatch(toFetch, providers) : Promise.resolve(new Map());
+  const settled = await Promise.allSettled(
+    missing.map(({ ticker, market }) =>
+      coalesce(quoteKey(ticker, market), async () => {
+        const found = (await batch).get(quoteKey(ticker, market));
+        if (!found) throw new ProviderError(`No provider returned a quote for ${ticker}`);
+        return found as { provider: MarketDataProvider; result: QuoteResult };
+      })
+    )
+  );
+
+  settled.forEach((outcome, index) => {
+    const { ticker, market } = missing[index];
+    const quote = outcome.status === 'fulfilled' ? toLatestQuote(outcome.value) : getFallbackQuote(ticker, market);
+    if (quote) quotes.set(`${ticker}|${market}`, quote);
+  });
+  return quotes;
 };
 
-const getCachedHistory = ({
+const getHistoryRows = ({
   ticker,
   market,
   interval,
@@ -186,38 +359,121 @@ const getCachedHistory = ({
   from: string;
   to: string;
 }) => {
-  const rows = getHistoryRows({ ticker, market, interval, from, to });
-  if (!rows.length) return null;
+  // Gaps may have been filled by different providers; per date the most recently fetched row wins.
+  const rows = db
+    .prepare(
+      `SELECT date, price, currency, MAX(fetched_at) AS fetched_at
+       FROM price_history
+       WHERE ticker = ? AND market = ? AND interval = ? AND date BETWEEN ? AND ?
+       GROUP BY date
+       ORDER BY date`
+    )
+    .all(ticker, market, interval, from, to) as Array<HistoryPoint & { fetched_at: string }>;
 
-  const earliest = rows[0].date;
-  const latest = rows[rows.length - 1].date;
-  if (earliest <= from && latest >= to) return rows;
-  return null;
+  return rows.map(({ date, price, currency }): HistoryPoint => ({ date, price, currency }));
 };
 
-const getHistoryRows = ({
+type DateRange = { from: string; to: string };
+
+const getHistoryRanges = ({ ticker, market, interval }: { ticker: string; market: string; interval: string }) => {
+  return db
+    .prepare(
+      `SELECT range_from AS "from", range_to AS "to"
+       FROM history_ranges
+       WHERE ticker = ? AND market = ? AND interval = ?
+       ORDER BY range_from`
+    )
+    .all(ticker, market, interval) as DateRange[];
+};
+
+// Stores a fetched range, folding in overlapping or adjacent ranges from the same source.
+const recordHistoryRange = ({
   ticker,
   market,
   interval,
+  source,
   from,
   to
 }: {
   ticker: string;
   market: string;
   interval: string;
+  source: string;
   from: string;
   to: string;
 }) => {
-  const rows = db
-    .prepare(
-      `SELECT date, price, currency
-       FROM price_history
-       WHERE ticker = ? AND market = ? AND interval = ? AND date BETWEEN ? AND ?
-       ORDER BY date`
-    )
-    .all(ticker, market, interval, from, to) as Array<HistoryPoint>;
+  const merge = db.transaction(() => {
+    const touching = db
+      .prepare(
+        `SELECT id, range_from, range_to
+         FROM history_ranges
+         WHERE ticker = ? AND market = ? AND interval = ? AND source = ?
+           AND range_from <= ? AND range_to >= ?`
+      )
+      .all(ticker, market, interval, source, shiftDate(to, 1), shiftDate(from, -1)) as Array<{
+      id: number;
+      range_from: string;
+      range_to: string;
+    }>;
+    const merged = touching.reduce(
+      (range, row) => ({
+        from: row.range_from < range.from ? row.range_from : range.from,
+        to: row.range_to > range.to ? row.range_to : range.to
+      }),
+      { from, to }
+    );
+    const remove = db.prepare('DELETE FROM history_ranges WHERE id = ?');
+    touching.forEach((row) => remove.run(row.id));
+    db.prepare(
+      `INSERT INTO history_ranges (ticker, market, interval, source, range_from, range_to, fetched_at)
+       VALUES (?, ?, ?, ?, ?, ?, datetime('now'))`
+    ).run(ticker, market, interval, source, merged.from, merged.to);
+  });
+  merge();
+};
+
+// Parts of from..to not covered by any fetched range, whichever source fetched it.
+const findMissingRanges = (ranges: DateRange[], from: string, to: string): DateRange[] => {
+  const missing: DateRange[] = [];
+  let cursor = from;
+  for (const range of ranges) {
+    if (range.to < cursor) continue;
+    if (range.from > to) break;
+    if (range.from > cursor) missing.push({ from: cursor, to: shiftDate(range.from, -1) });
+    cursor = shiftDate(range.to, 1);
+    if (cursor > to) return missing;
+  }
+  if (cursor <= to) missing.push({ from: cursor, to });
+  return missing;
+};
 
-  return rows;
+// Daily bars only exist for trading days that have closed, so requests end at the last close and
+// gaps made up of weekends and holidays need no fetch at all.
+const findHistoryGaps = ({
+  ticker,
+  market,
+  interval,
+  from,
+  to,
+  forceRefresh
+}: {
+  ticker: string;
+  market: string;
+  interval: string;
+  from: string;
+  to: string;
+  forceRefresh: boolean;
+}) => {
+  const lastClose = getLastCloseDate(market);
+  const end = to > lastClose ? lastClose : to;
+  if (from > end) return [];
+  const missing = forceRefresh
+    ? [{ from, to: end }]
+    : findMissingRanges(getHistoryRanges({ ticker, market, interval }), from, end);
+  return missing.filter((gap) => {
+    const firstTradingDay = isTradingDay(market, gap.from) ? gap.from : getNextTradingDay(market, gap.from);
+    return firstTradingDay <= gap.to;
+  });
 };
 
 const getLatestHistoryPrice = (ticker: string, market: string) => {
@@ -247,6 +503,20 @@ const getLatestHistoryPrice = (ticker: string, market: string) => {
   };
 };
 
+// Last daily close strictly before `date`, used as the reference for day-over-day moves.
+const getPreviousClose = (ticker: string, market: string, date: string) => {
+  const row = db
+    .prepare(
+      `SELECT price, date
+       FROM price_history
+       WHERE ticker = ? AND market = ? AND interval = '1d' AND date < ?
+       ORDER BY date DESC
+       LIMIT 1`
+    )
+    .get(ticker, market, date) as { price: number; date: string } | undefined;
+  return row ?? null;
+};
+
 const cacheHistoryRows = ({
   ticker,
   market,
@@ -292,26 +562,67 @@ const getHistory = async ({
   providers: MarketDataProvider[];
   forceRefresh?: boolean;
 }) => {
-  const cached = forceRefresh ? null : getCachedHistory({ ticker, market, interval, from, to });
-  if (cached) return { rows: cached, source: 'CACHE' };
+  const manual = getManualInstrument(ticker, market);
+  if (manual) return { rows: getManualHistory(manual, from, to), source: manual.pricing };
 
-  const marketProviders = filterProvidersForMarket(providers, market);
-  const exchange = resolveExchange(market);
+  const gaps = findHistoryGaps({ ticker, market, interval, from, to, forceRefresh });
+  if (!forceRefresh) recordCacheLookup('history', !gaps.length);
+  const marketProviders = routeProviders(providers, market);
+  const lastClose = getLastCloseDate(market);
 
-  const { provider, result } = await fetchWithProviders(marketProviders, (p) =>
-    p.getHistory({ ticker, market: exchange, from, to, interval })
-  );
-
-  cacheHistoryRows({
-    ticker,
-    market,
-    interval,
-    rows: result,
-    source: provider.name
-  });
+  let source = 'CACHE';
+  let failure: unknown = null;
+  for (const gap of gaps) {
+    try {
+      const { provider, result } = await coalesce(
+        `getHistory|${ticker}|${market}|${interval}|${gap.from}|${gap.to}`,
+        async () => {
+          const found = await fetchWithProviders(marketProviders, (p) =>
+            p.getHistory({ ...toProviderSymbol(p.name, market, ticker), from: gap.from, to: gap.to, interval })
+          );
+          const rows = found.result.filter((row) => row.date >= gap.from && row.date <= gap.to);
+          cacheHistoryRows({ ticker, market, interval, rows, source: found.provider.name });
+          // A provider may not have published the latest close yet, so the recent end of a gap only
+          // counts as fetched up to the newest bar that came back.
+          const newest = rows.reduce<string | null>(
+            (latest, row) => (!latest || row.date > latest ? row.date : latest),
+            null
+          );
+          const recordedTo = gap.to < getPreviousTradingDay(market, lastClose) ? gap.to : newest;
+          if (recordedTo) {
+            recordHistoryRange({
+              ticker,
+              market,
+              interval,
+              source: found.provider.name,
+              from: gap.from,
+              to: recordedTo
+            });
+          }
+          return found;
+        }
+      );
+      source = provider.name;
+    } catch (error) {
+      failure = error;
+    }
+  }
 
-  const rows = getCachedHistory({ ticker, market, interval, from, to }) || result;
-  return { rows, source: provider.name };
+  const rows = getHistoryRows({ ticker, market, interval, from, to });
+  // Gaps that could not be filled leave the cached rows usable; only an empty result is an error.
+  if (failure && !rows.length) throw failure;
+  return { rows, source };
 };
 
-export { getLatestQuote, getHistory, fetchWithProviders, getLatestHistoryPrice, getHistoryRows };
+export {
+  getLatestQuote,
+  getLatestQuotes,
+  getHistory,
+  fetchWithProviders,
+  coalesce,
+  getLatestHistoryPrice,
+  getHistoryRows,
+  getPreviousClose,
+  findMissingRanges,
+  onQuoteRefreshed
+};
@@ -1,10 +1,31 @@
 import { db } from '../db/index';
 import { MarketDataProvider } from '../providers/base';
-import { getMarketDefinition } from '../config/markets';
+import { AssetType, getMarketDefinition } from '../config/markets';
 import { getNameOverride } from '../config/nameOverrides';
-import { getLatestQuote, getHistory, getHistoryRows } from './marketDataService';
+import { getLatestQuote, getLatestQuotes, getHistory, getHistoryRows } from './marketDataService';
+import { getPreviousCloseDate, isTradingDay } from './calendarService';
 import { resolveSymbolName } from './validationService';
-import { getFxRate } from './fxService';
+import { createRateResolverCache } from './fxService';
+import { recordFallback } from './diagnosticsService';
+import { getAssetClass, getInstrument, getInstrumentCurrency } from './instrumentService';
+import {
+  allocateLots,
+  getOpenQuantityOn,
+  listBuyFees,
+  listSellTransactions,
+  recordBuyTransaction,
+  updateBuyTransaction
+} from './transactionService';
+import { allocateIncome, listDividends } from './dividendService';
+import { getCashLedger } from './cashService';
+
+export type PortfolioRow = {
+  id: number;
+  name: string;
+  base_currency: string;
+  created_at: string;
+  archived_at: string | null;
+};
 
 export type HoldingRow = {
   id: number;
@@ -19,6 +40,9 @@ export type HoldingRow = {
 
 export type HoldingWithQuote = HoldingRow & {
   company_name: string | null;
+  asset_class: AssetType;
+  native_buy_price: number;
+  native_currency: string;
   latest_quote: {
     price: number;
     currency: string | null;
@@ -26,9 +50,12 @@ export type HoldingWithQuote = HoldingRow & {
     source: string;
     cached: boolean;
   };
+  open_quantity: number;
   market_value: number;
   cost_basis: number;
   unrealized_pnl: number;
+  realized_pnl: number;
+  income_received: number;
 };
 
 const normalizeDate = (date: string) => {
@@ -49,6 +76,95 @@ const createDateRange = (from: string, to: string) => {
   return dates;
 };
 
+const portfolioColumns = `id, name, base_currency, created_at, archived_at`;
+
+const listPortfolios = ({ includeArchived = false }: { includeArchived?: boolean } = {}) => {
+  return db
+    .prepare(
+      `SELECT ${portfolioColumns}
+       FROM portfolios
+       ${includeArchived ? '' : 'WHERE archived_at IS NULL'}
+       ORDER BY id`
+    )
+    .all() as PortfolioRow[];
+};
+
+const getPortfolio = (id: number) => {
+  return db.prepare(`SELECT ${portfolioColumns} FROM portfolios WHERE id = ?`).get(id) as
+    | PortfolioRow
+    | undefined;
+};
+
+const createPortfolio = ({ name, baseCurrency }: { name: string; baseCurrency: string }) => {
+  const result = db
+    .prepare(
+      `INSERT INTO portfolios (name, base_currency)
+       VALUES (?, ?)`
+    )
+    .run(name, baseCurrency);
+  return getPortfolio(Number(result.lastInsertRowid)) as PortfolioRow;
+};
+
+const updatePortfolio = ({
+  id,
+  name,
+  baseCurrency
+}: {
+  id: number;
+  name?: string;
+  baseCurrency?: string;
+}) => {
+  const existing = getPortfolio(id);
+  if (!existing) return null;
+  db.prepare(`UPDATE portfolios SET name = ?, base_currency = ? WHERE id = ?`).run(
+    name ?? existing.name,
+    baseCurrency ?? existing.base_currency,
+    id
+  );
+  return getPortfolio(id) as PortfolioRow;
+};
+
+const setPortfolioArchived = ({ id, archived }: { id: number; archived: boolean }) => {
+  const result = db
+    .prepare(`UPDATE portfolios SET archived_at = ${archived ? "datetime('now')" : 'NULL'} WHERE id = ?`)
+    .run(id);
+  return result.changes > 0 ? (getPortfolio(id) as PortfolioRow) : null;
+};
+
+// Children go first: every per-portfolio table references portfolios(id) with foreign keys on.
+const portfolioTables = [
+  'alerts',
+  'alert_rules',
+  'portfolio_benchmarks',
+  'cash_movements',
+  'cash_accounts',
+  'dividends',
+  'transactions',
+  'holdings'
+];
+
+// Rows per table that deleting the portfolio would remove, leaving out empty tables.
+const countPortfolioData = (id: number) => {
+  const counts: Record<string, number> = {};
+  for (const table of portfolioTables) {
+    const { count } = db.prepare(`SELECT COUNT(*) AS count FROM ${table} WHERE portfolio_id = ?`).get(id) as {
+      count: number;
+    };
+    if (count) counts[table] = count;
+  }
+  return counts;
+};
+
+const deletePortfolio = (id: number) => {
+  const remove = db.transaction(() => {
+    for (const table of portfolioTables) {
+      db.prepare(`DELETE FROM ${table} WHERE portfolio_id = ?`).run(id);
+    }
+    return db.prepare(`DELETE FROM portfolios WHERE id = ?`).run(id).changes > 0;
+  });
+  return remove();
+};
+
 const listHoldings = (portfolioId: number) => {
   return db
     .prepare(
@@ -102,7 +218,8 @@ const addHolding = ({
   market,
   buyDate,
   buyPrice,
-  quantity
+  quantity,
+  fee = 0
 }: {
   portfolioId: number;
   ticker: string;
@@ -110,21 +227,101 @@ const addHolding = ({
   buyDate: string;
   buyPrice: number;
   quantity: number;
+  fee?: number;
 }) => {
-  const result = db
-    .prepare(
-      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
-       VALUES (?, ?, ?, ?, ?, ?)`
-    )
-    .run(portfolioId, ticker, market, buyDate, buyPrice, quantity);
+  const insert = db.transaction(() => {
+    const result = db
+      .prepare(
+        `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(portfolioId, ticker, market, buyDate, buyPrice, quantity);
+
+    const holding = db
+      .prepare(
+        `SELECT id, portfolio_id, ticker, market, buy_date, buy_price, quantity, created_at
+         FROM holdings
+         WHERE id = ?`
+      )
+      .get(result.lastInsertRowid) as HoldingRow;
+
+    recordBuyTransaction({ holding, fee });
+    return holding;
+  });
+
+  return insert();
+};
 
+const getHolding = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
   return db
     .prepare(
       `SELECT id, portfolio_id, ticker, market, buy_date, buy_price, quantity, created_at
        FROM holdings
-       WHERE id = ?`
+       WHERE id = ? AND portfolio_id = ?`
     )
-    .get(result.lastInsertRowid) as HoldingRow;
+    .get(id, portfolioId) as HoldingRow | undefined;
+};
+
+const updateHolding = ({
+  id,
+  portfolioId,
+  ticker,
+  market,
+  buyDate,
+  buyPrice,
+  quantity,
+  fee
+}: {
+  id: number;
+  portfolioId: number;
+  ticker?: string;
+  market?: string;
+  buyDate?: string;
+  buyPrice?: number;
+  quantity?: number;
+  fee?: number;
+}) => {
+  const countUnmatched = () =>
+    Array.from(allocateLots(listHoldings(portfolioId), listSellTransactions(portfolioId)).unmatched.values())
+      .reduce((sum, value) => sum + value, 0);
+
+  const update = db.transaction(() => {
+    const existing = getHolding({ id, portfolioId });
+    if (!existing) return null;
+
+    const before = countUnmatched();
+    db.prepare(
+      `UPDATE holdings
+       SET ticker = ?, market = ?, buy_date = ?, buy_price = ?, quantity = ?
+       WHERE id = ? AND portfolio_id = ?`
+    ).run(
+      ticker ?? existing.ticker,
+      market ?? existing.market,
+      buyDate ?? existing.buy_date,
+      buyPrice ?? existing.buy_price,
+      quantity ?? existing.quantity,
+      id,
+      portfolioId
+    );
+
+    const holding = getHolding({ id, portfolioId }) as HoldingRow;
+    updateBuyTransaction({ holding, fee });
+
+    // Sells already matched against this lot must stay covered after the edit.
+    if (countUnmatched() - before > 1e-9) {
+      throw new Error('Recorded sells exceed the edited position');
+    }
+    return holding;
+  });
+
+  return update();
+};
+
+// Units of a lot that sells have consumed. Deleting such a lot would re-match its sells against
+// other lots or leave them unmatched, so those sells have to go first.
+const getLotSoldQuantity = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  const { allocations } = allocateLots(listHoldings(portfolioId), listSellTransactions(portfolioId));
+  return allocations.get(id)?.sold_quantity ?? 0;
 };
 
 const deleteHolding = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
@@ -132,6 +329,15 @@ const deleteHolding = ({ id, portfolioId }: { id: number; portfolioId: number })
   return result.changes > 0;
 };
 
+const getEarliestActivityDate = (portfolioId: number) => {
+  const dates = [
+    ...listHoldings(portfolioId).map((holding) => holding.buy_date),
+    ...getCashLedger(portfolioId).map((entry) => entry.date)
+  ];
+  if (!dates.length) return null;
+  return dates.reduce((min, date) => (date < min ? date : min));
+};
+
 const listHoldingsWithQuotes = async ({
   portfolioId,
   providers,
@@ -144,24 +350,31 @@ const listHoldingsWithQuotes = async ({
   forceRefresh?: boolean;
 }) => {
   const holdings = listHoldings(portfolioId);
-  const rateCache = new Map<string, number>();
+  const { allocations } = allocateLots(holdings, listSellTransactions(portfolioId), listBuyFees(portfolioId));
+  const incomeShares = allocateIncome(holdings, allocations, listDividends(portfolioId));
   const normalizedBase = baseCurrency.toUpperCase();
+  const earliestBuy = holdings.reduce(
+    (min, holding) => (holding.buy_date < min ? holding.buy_date : min),
+    todayIso()
+  );
+  const resolveRates = createRateResolverCache({
+    baseCurrency: normalizedBase,
+    from: earliestBuy,
+    to: todayIso(),
+    providers
+  });
   let nameLookupsRemaining = 6;
-
-  const resolveRate = async (fromCurrency: string) => {
-    const normalizedFrom = fromCurrency.toUpperCase();
-    if (normalizedFrom === normalizedBase) return 1;
-    if (rateCache.has(normalizedFrom)) return rateCache.get(normalizedFrom) as number;
-    const rate = await getFxRate({ base: normalizedFrom, quote: normalizedBase, providers });
-    rateCache.set(normalizedFrom, rate);
-    return rate;
-  };
+  // One batch for every symbol instead of a provider call per lot.
+  const latestQuotes = await getLatestQuotes({ symbols: holdings, providers, forceRefresh });
 
   const enriched = await Promise.all(
     holdings.map(async (holding) => {
-      const marketCurrency = getMarketDefinition(holding.market)?.currency || 'USD';
-      const fxRate = await resolveRate(marketCurrency);
-      let companyName = getCachedSymbolName(holding.ticker, holding.market);
+      const marketCurrency = getInstrumentCurrency(holding.ticker, holding.market);
+      const rateOn = await resolveRates(marketCurrency);
+      const fxRate = rateOn(todayIso());
+      const buyRate = rateOn(holding.buy_date);
+      let companyName =
+        getInstrument(holding.ticker, holding.market)?.name || getCachedSymbolName(holding.ticker, holding.market);
       if (!companyName && nameLookupsRemaining > 0) {
         nameLookupsRemaining -= 1;
         try {
@@ -174,52 +387,64 @@ const listHoldingsWithQuotes = async ({
           companyName = null;
         }
       }
-      let quote = null as null | {
-        price: number;
-        currency: string | null;
-        as_of: string;
-        source: string;
-        cached: boolean;
-      };
-
-      try {
-        const latest = await getLatestQuote({
+      const latest = latestQuotes.get(`${holding.ticker}|${holding.market}`);
+      if (!latest) {
+        recordFallback({
           ticker: holding.ticker,
           market: holding.market,
-          providers,
-          forceRefresh
-        });
-
-        quote = {
-          price: latest.price * fxRate,
-          currency: normalizedBase,
-          as_of: latest.as_of,
-          source: latest.source,
-          cached: latest.cached
-        };
-      } catch (error) {
-        quote = {
-          price: holding.buy_price * fxRate,
-          currency: normalizedBase,
-          as_of: holding.buy_date,
+          kind: 'BUY_PRICE_FALLBACK',
           source: 'BUY_PRICE_FALLBACK',
-          cached: true
-        };
+          as_of: holding.buy_date
+        });
       }
-
-      const marketValue = quote.price * holding.quantity;
-      const costBasis = holding.buy_price * holding.quantity * fxRate;
+      const quote = latest
+        ? {
+            price: latest.price * fxRate,
+            currency: normalizedBase,
+            as_of: latest.as_of,
+            source: latest.source,
+            cached: latest.cached
+          }
+        : {
+            price: holding.buy_price * fxRate,
+            currency: normalizedBase,
+            as_of: holding.buy_date,
+            source: 'BUY_PRICE_FALLBACK',
+            cached: true
+          };
+
+      const allocation = allocations.get(holding.id);
+      const openQuantity = allocation?.open_quantity ?? holding.quantity;
+      const marketValue = quote.price * openQuantity;
+      const costBasis = holding.buy_price * openQuantity * buyRate;
       const unrealized = marketValue - costBasis;
+      // Proceeds convert at each sell date's rate, the cost and its buy fee at the buy date's rate.
+      const realized = (allocation?.disposals ?? []).reduce((sum, disposal) => {
+        const sellRate = rateOn(disposal.date);
+        const proceeds = (disposal.price * disposal.quantity - disposal.fee) * sellRate;
+        return sum + proceeds - (holding.buy_price * disposal.quantity + disposal.buy_fee) * buyRate;
+      }, 0);
+      let incomeReceived = 0;
+      for (const share of incomeShares.get(holding.id) ?? []) {
+        const incomeRateOn = await resolveRates(share.currency);
+        incomeReceived += share.net_amount * incomeRateOn(share.pay_date);
+      }
 
       return {
         ...holding,
         company_name: companyName,
-        // buy_price is converted to the base currency for display; cost_basis uses the original buy_price * fxRate.
-        buy_price: holding.buy_price * fxRate,
+        asset_class: getAssetClass(holding.ticker, holding.market),
+        // buy_price and cost_basis are converted at the buy date's rate; market values use today's rate.
+        buy_price: holding.buy_price * buyRate,
+        native_buy_price: holding.buy_price,
+        native_currency: marketCurrency,
         latest_quote: quote,
+        open_quantity: openQuantity,
         market_value: marketValue,
         cost_basis: costBasis,
-        unrealized_pnl: unrealized
+        unrealized_pnl: unrealized,
+        realized_pnl: realized,
+        income_received: incomeReceived
       } satisfies HoldingWithQuote;
     })
   );
@@ -233,7 +458,9 @@ const getPerformanceSeries = async ({
   to,
   providers,
   baseCurrency,
-  forceRefresh = false
+  forceRefresh = false,
+  tradingDaysOnly = false,
+  calendarMarkets
 }: {
   portfolioId: number;
   from?: string;
@@ -241,41 +468,60 @@ const getPerformanceSeries = async ({
   providers: MarketDataProvider[];
   baseCurrency: string;
   forceRefresh?: boolean;
+  tradingDaysOnly?: boolean;
+  // Markets whose calendars decide trading days; defaults to the portfolio's own markets.
+  calendarMarkets?: string[];
 }) => {
   const holdings = listHoldings(portfolioId);
-  if (!holdings.length) return { series: [], from, to };
-
-  const earliestBuy = holdings.reduce((min, holding) =>
-    holding.buy_date < min ? holding.buy_date : min
-  , holdings[0].buy_date);
+  const cashLedger = getCashLedger(portfolioId);
+  const markets = calendarMarkets ?? Array.from(new Set(holdings.map((holding) => holding.market)));
+  const previousCloseDate = getPreviousCloseDate(markets);
+  if (!holdings.length && !cashLedger.length) {
+    return { series: [], total_return_series: [], from, to, previous_close_date: previousCloseDate };
+  }
+  const { allocations } = allocateLots(holdings, listSellTransactions(portfolioId));
+  const dividends = listDividends(portfolioId);
 
-  const startDate = normalizeDate(from || earliestBuy);
+  const startDate = normalizeDate(from || (getEarliestActivityDate(portfolioId) as string));
   const endDate = normalizeDate(to || todayIso());
-  const dates = createDateRange(startDate, endDate);
+  // A day is kept when any of the markets trades; cash-only portfolios keep every day.
+  const dates = createDateRange(startDate, endDate).filter(
+    (date) => !tradingDaysOnly || !markets.length || markets.some((market) => isTradingDay(market, date))
+  );
+  // The latest quote lands on the last point of the series, which may precede endDate.
+  const lastDate = dates[dates.length - 1] ?? endDate;
 
+  // Prices are kept in the market's currency and converted per day with that day's FX rate.
   const historyMap = new Map<number, Map<string, number>>();
   const normalizedBase = baseCurrency.toUpperCase();
-  const rateCache = new Map<string, number>();
-
-  const resolveRate = async (fromCurrency: string) => {
-    const normalizedFrom = fromCurrency.toUpperCase();
-    if (normalizedFrom === normalizedBase) return 1;
-    if (rateCache.has(normalizedFrom)) return rateCache.get(normalizedFrom) as number;
-    const rate = await getFxRate({ base: normalizedFrom, quote: normalizedBase, providers });
-    rateCache.set(normalizedFrom, rate);
-    return rate;
-  };
-
+  const resolveRates = createRateResolverCache({
+    baseCurrency: normalizedBase,
+    from: startDate,
+    to: endDate,
+    providers
+  });
+  const rateLookups = new Map<string, (date: string) => number>();
+
+  // Resolved once per lot; the date loop below would otherwise query instruments for every day.
+  const holdingCurrencies = new Map(
+    holdings.map((holding) => [holding.id, getInstrumentCurrency(holding.ticker, holding.market)] as const)
+  );
   const currencies = Array.from(
-    new Set(holdings.map((holding) => getMarketDefinition(holding.market)?.currency || 'USD'))
+    new Set([
+      ...holdingCurrencies.values(),
+      ...dividends.map((dividend) => dividend.currency),
+      ...cashLedger.map((entry) => entry.currency)
+    ])
   );
 
-  await Promise.all(currencies.map((currency) => resolveRate(currency)));
+  await Promise.all(
+    currencies.map(async (currency) => {
+      rateLookups.set(currency, await resolveRates(currency));
+    })
+  );
 
   await Promise.all(
     holdings.map(async (holding) => {
-      const marketCurrency = getMarketDefinition(holding.market)?.currency || 'USD';
-      const fxRate = await resolveRate(marketCurrency);
       try {
         const { rows } = await getHistory({
           ticker: holding.ticker,
@@ -291,15 +537,15 @@ const getPerformanceSeries = async ({
         }
 
         const priceByDate = new Map(
-          rows.map((row) => [row.date, row.price * fxRate] as const)
+          rows.map((row) => [row.date, row.price] as const)
         );
         const earliest = rows[0]?.date;
         const fallbackDate = holding.buy_date > startDate ? holding.buy_date : startDate;
         if (!earliest || earliest > fallbackDate) {
-          priceByDate.set(fallbackDate, holding.buy_price * fxRate);
+          priceByDate.set(fallbackDate, holding.buy_price);
         }
         const latestDate = rows[rows.length - 1]?.date;
-        if (!latestDate || latestDate < endDate) {
+        if (!latestDate || latestDate < lastDate) {
           try {
             const latestQuote = await getLatestQuote({
               ticker: holding.ticker,
@@ -307,10 +553,10 @@ const getPerformanceSeries = async ({
               providers,
               forceRefresh
             });
-            priceByDate.set(endDate, latestQuote.price * fxRate);
+            priceByDate.set(lastDate, latestQuote.price);
           } catch {
             if (!latestDate) {
-              priceByDate.set(endDate, holding.buy_price * fxRate);
+              priceByDate.set(lastDate, holding.buy_price);
             }
           }
         }
@@ -325,14 +571,14 @@ const getPerformanceSeries = async ({
           interval: '1d'
         });
         const priceByDate = new Map(
-          cachedRows.map((row) => [row.date, row.price * fxRate] as const)
+          cachedRows.map((row) => [row.date, row.price] as const)
         );
         if (!priceByDate.size) {
-          priceByDate.set(fallbackDate, holding.buy_price * fxRate);
+          priceByDate.set(fallbackDate, holding.buy_price);
         } else {
           const earliest = cachedRows[0]?.date;
           if (!earliest || earliest > fallbackDate) {
-            priceByDate.set(fallbackDate, holding.buy_price * fxRate);
+            priceByDate.set(fallbackDate, holding.buy_price);
           }
         }
         try {
@@ -342,9 +588,9 @@ const getPerformanceSeries = async ({
             providers,
             forceRefresh
           });
-          priceByDate.set(endDate, latestQuote.price * fxRate);
+          priceByDate.set(lastDate, latestQuote.price);
         } catch {
-          priceByDate.set(endDate, holding.buy_price * fxRate);
+          priceByDate.set(lastDate, holding.buy_price);
         }
         historyMap.set(holding.id, priceByDate);
       }
@@ -352,28 +598,81 @@ const getPerformanceSeries = async ({
   );
 
   const series: Array<{ date: string; value: number }> = [];
+  const totalReturnSeries: Array<{ date: string; value: number }> = [];
   const lastKnown = new Map<number, number>();
+  // Net income converted at each pay date's rate; the total-return series adds what was received so far.
+  // Dividends credited to a cash account are already part of it through the cash balance.
+  const creditedDividends = new Set(
+    cashLedger.filter((entry) => entry.source === 'DIVIDEND').map((entry) => entry.reference_id)
+  );
+  const incomeEvents = dividends
+    .filter((dividend) => !creditedDividends.has(dividend.id))
+    .map((dividend) => ({
+      date: dividend.pay_date,
+      value:
+        (dividend.gross_amount - dividend.withholding_tax) *
+        (rateLookups.get(dividend.currency)?.(dividend.pay_date) ?? 1)
+    }));
+
+  const cashBalances = new Map<string, number>();
+  let ledgerIndex = 0;
 
   for (const date of dates) {
+    while (ledgerIndex < cashLedger.length && cashLedger[ledgerIndex].date <= date) {
+      const entry = cashLedger[ledgerIndex];
+      cashBalances.set(entry.currency, (cashBalances.get(entry.currency) ?? 0) + entry.amount);
+      ledgerIndex += 1;
+    }
+    // Cash only counts towards the total-return series; `series` stays the market value of positions.
+    let cash = 0;
+    cashBalances.forEach((balance, currency) => {
+      cash += balance * (rateLookups.get(currency)?.(date) ?? 1);
+    });
     let total = 0;
     holdings.forEach((holding) => {
-      if (date < holding.buy_date) {
+      // Sold lots keep contributing up to their sell date.
+      const quantity = getOpenQuantityOn(holding, allocations.get(holding.id), date);
+      if (quantity <= 0) {
         return;
       }
       const priceMap = historyMap.get(holding.id);
       if (priceMap?.has(date)) {
         lastKnown.set(holding.id, priceMap.get(date) as number);
       }
-      const marketCurrency = getMarketDefinition(holding.market)?.currency || 'USD';
-      const rate = rateCache.get(marketCurrency) ?? 1;
-      const price = lastKnown.get(holding.id) ?? holding.buy_price * rate;
-      total += price * holding.quantity;
+      const rate = rateLookups.get(holdingCurrencies.get(holding.id) as string)?.(date) ?? 1;
+      const price = lastKnown.get(holding.id) ?? holding.buy_price;
+      total += price * rate * quantity;
     });
 
     series.push({ date, value: total });
+    const income = incomeEvents.reduce((sum, event) => (event.date <= date ? sum + event.value : sum), 0);
+    totalReturnSeries.push({ date, value: total + cash + income });
   }
 
-  return { series, from: startDate, to: endDate };
+  return {
+    series,
+    total_return_series: totalReturnSeries,
+    from: startDate,
+    to: endDate,
+    previous_close_date: previousCloseDate
+  };
 };
 
-export { listHoldings, addHolding, deleteHolding, listHoldingsWithQuotes, getPerformanceSeries };
+export {
+  listPortfolios,
+  getPortfolio,
+  createPortfolio,
+  updatePortfolio,
+  setPortfolioArchived,
+  countPortfolioData,
+  deletePortfolio,
+  listHoldings,
+  addHolding,
+  getHolding,
+  updateHolding,
+  getLotSoldQuantity,
+  deleteHolding,
+  getEarliestActivityDate,
+  listHoldingsWithQuotes,
+  getPerformanceSeries
+};
@@ -0,0 +1,238 @@
+import { MarketDataProvider } from '../providers/base';
+import { getEarliestActivityDate, getPerformanceSeries } from './portfolioService';
+import { listTransactions } from './transactionService';
+import { getCashLedger, listCashAccounts } from './cashService';
+import { createRateResolverCache } from './fxService';
+import { getInstrumentCurrency } from './instrumentService';
+
+export type ReturnPoint = {
+  date: string;
+  value: number;
+  flow: number;
+  daily_return: number;
+  cumulative_return: number;
+};
+
+export type CashFlow = {
+  date: string;
+  amount: number;
+};
+
+const DAYS_PER_YEAR = 365;
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+
+const daysBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / 86_400_000;
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// Money entering (positive) or leaving (negative) the portfolio, in the base currency.
+// Trades count as contributions/withdrawals unless they settle against a tracked cash account,
+// in which case only deposits and withdrawals on that account cross the portfolio boundary.
+const getExternalFlows = async ({
+  portfolioId,
+  baseCurrency,
+  from,
+  to,
+  providers
+}: {
+  portfolioId: number;
+  baseCurrency: string;
+  from: string;
+  to: string;
+  providers: MarketDataProvider[];
+}) => {
+  const accounts = new Set(listCashAccounts(portfolioId).map((account) => account.currency));
+  const raw: Array<{ date: string; currency: string; amount: number }> = [];
+
+  for (const transaction of listTransactions(portfolioId)) {
+    const currency = getInstrumentCurrency(transaction.ticker, transaction.market);
+    if (accounts.has(currency)) continue;
+    const gross = transaction.price * transaction.quantity;
+    raw.push({
+      date: transaction.trade_date,
+      currency,
+      amount: transaction.type === 'BUY' ? gross + transaction.fee : -(gross - transaction.fee)
+    });
+  }
+
+  for (const entry of getCashLedger(portfolioId)) {
+    if (entry.source !== 'DEPOSIT' && entry.source !== 'WITHDRAWAL') continue;
+    raw.push({ date: entry.date, currency: entry.currency, amount: entry.amount });
+  }
+
+  const resolveRates = createRateResolverCache({
+    baseCurrency: baseCurrency.toUpperCase(),
+    from,
+    to,
+    providers
+  });
+
+  const byDate = new Map<string, number>();
+  for (const flow of raw) {
+    if (flow.date < from || flow.date > to) continue;
+    const rateOn = await resolveRates(flow.currency);
+    byDate.set(flow.date, (byDate.get(flow.date) ?? 0) + flow.amount * rateOn(flow.date));
+  }
+  return byDate;
+};
+
+// Trades are booked at roughly the closing price, so flows count at the end of the day:
+// r = (V - F) / V_prev - 1. A day that starts from nothing measures against its own inflow.
+// The first point is the opening value and carries no return.
+const computeTimeWeightedReturns = (
+  series: Array<{ date: string; value: number }>,
+  flows: Map<string, number>
+) => {
+  const points: ReturnPoint[] = [];
+  let growth = 1;
+  let previous: number | null = null;
+
+  for (const point of series) {
+    const flow = flows.get(point.date) ?? 0;
+    let dailyReturn = 0;
+    if (previous !== null && previous > 0) {
+      dailyReturn = (point.value - flow) / previous - 1;
+    } else if (previous !== null && flow > 0) {
+      dailyReturn = (point.value - flow) / flow;
+    }
+    growth *= 1 + dailyReturn;
+    points.push({
+      date: point.date,
+      value: point.value,
+      flow,
+      daily_return: dailyReturn,
+      cumulative_return: growth - 1
+    });
+    previous = point.value;
+  }
+
+  return points;
+};
+
+const annualize = (cumulative: number, days: number) => {
+  if (days < DAYS_PER_YEAR || cumulative <= -1) return null;
+  return Math.pow(1 + cumulative, DAYS_PER_YEAR / days) - 1;
+};
+
+// Annual IRR for dated flows from the investor's side (contributions negative, final value positive).
+const computeXirr = (flows: CashFlow[]) => {
+  if (flows.length < 2) return null;
+  if (!flows.some((flow) => flow.amount > 0) || !flows.some((flow) => flow.amount < 0)) return null;
+
+  const start = flows[0].date;
+  const years = flows.map((flow) => daysBetween(start, flow.date) / DAYS_PER_YEAR);
+  const npv = (rate: number) =>
+    flows.reduce((sum, flow, index) => sum + flow.amount / Math.pow(1 + rate, years[index]), 0);
+  const derivative = (rate: number) =>
+    flows.reduce(
+      (sum, flow, index) => sum - (years[index] * flow.amount) / Math.pow(1 + rate, years[index] + 1),
+      0
+    );
+
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i += 1) {
+    const value = npv(rate);
+    const slope = derivative(rate);
+    if (!Number.isFinite(value) || !Number.isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (next <= -1 || !Number.isFinite(next)) break;
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return next;
+    rate = next;
+  }
+
+  // Newton did not settle; fall back to bisection over a wide bracket.
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i += 1) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < XIRR_TOLERANCE) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+};
+
+const getPortfolioReturns = async ({
+  portfolioId,
+  from,
+  to,
+  providers,
+  baseCurrency
+}: {
+  portfolioId: number;
+  from?: string;
+  to?: string;
+  providers: MarketDataProvider[];
+  baseCurrency: string;
+}) => {
+  const firstDate = from || getEarliestActivityDate(portfolioId);
+  if (!firstDate) return { from, to, series: [], twr: null, mwr: null };
+
+  // Start one day early so the window opens at the previous close and first-day flows are counted.
+  const anchorDate = shiftDate(firstDate.slice(0, 10), -1);
+  const performance = await getPerformanceSeries({ portfolioId, from: anchorDate, to, providers, baseCurrency });
+  const series = performance.total_return_series;
+  if (series.length < 2) {
+    return { from: firstDate, to: performance.to, series: [], twr: null, mwr: null };
+  }
+
+  const endDate = series[series.length - 1].date;
+  const flows = await getExternalFlows({
+    portfolioId,
+    baseCurrency,
+    from: shiftDate(anchorDate, 1),
+    to: endDate,
+    providers
+  });
+  const points = computeTimeWeightedReturns(series, flows).slice(1);
+  const days = daysBetween(anchorDate, endDate);
+  const twrCumulative = points[points.length - 1].cumulative_return;
+
+  const openingValue = series[0].value;
+  const closingValue = series[series.length - 1].value;
+  const investorFlows: CashFlow[] = [];
+  if (openingValue > 0) investorFlows.push({ date: anchorDate, amount: -openingValue });
+  Array.from(flows.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([date, amount]) => investorFlows.push({ date, amount: -amount }));
+  investorFlows.push({ date: endDate, amount: closingValue });
+
+  const xirr = computeXirr(investorFlows);
+  const netContributions = Array.from(flows.values()).reduce((sum, amount) => sum + amount, 0);
+  const flowDays = investorFlows.length ? daysBetween(investorFlows[0].date, endDate) : days;
+
+  return {
+    from: points[0].date,
+    to: endDate,
+    series: points,
+    twr: {
+      cumulative: twrCumulative,
+      annualized: annualize(twrCumulative, days)
+    },
+    mwr: xirr === null
+      ? null
+      : {
+          xirr,
+          cumulative: Math.pow(1 + xirr, flowDays / DAYS_PER_YEAR) - 1
+        },
+    opening_value: openingValue,
+    closing_value: closingValue,
+    net_contributions: netContributions,
+    gain: closingValue - openingValue - netContributions
+  };
+};
+
+export { getPortfolioReturns, computeTimeWeightedReturns, computeXirr, getExternalFlows };
@@ -0,0 +1,122 @@
+export type JobSchedule = { everySeconds: number } | { dailyAtUtc: string };
+
+export type ScheduledJob = {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  runOnStart?: boolean;
+  run: () => Promise<Record<string, unknown>>;
+};
+
+export type JobStatus = {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  running: boolean;
+  run_count: number;
+  last_started_at: string | null;
+  last_finished_at: string | null;
+  last_duration_ms: number | null;
+  last_status: 'ok' | 'error' | null;
+  last_result: Record<string, unknown> | null;
+  last_error: string | null;
+  next_run_at: string | null;
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
+
+const nextRunAfter = (schedule: JobSchedule, now: Date) => {
+  if ('everySeconds' in schedule) {
+    return new Date(now.getTime() + schedule.everySeconds * 1000);
+  }
+  const [hours, minutes] = schedule.dailyAtUtc.split(':').map(Number);
+  const next = new Date(now);
+  next.setUTCHours(hours, minutes, 0, 0);
+  if (next <= now) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+};
+
+// One timer per job; a job never overlaps itself and is rescheduled only after a run finishes.
+const createScheduler = ({ jobs }: { jobs: ScheduledJob[] }) => {
+  const statuses = new Map<string, JobStatus>(
+    jobs.map((job) => [
+      job.name,
+      {
+        name: job.name,
+        description: job.description,
+        schedule: job.schedule,
+        running: false,
+        run_count: 0,
+        last_started_at: null,
+        last_finished_at: null,
+        last_duration_ms: null,
+        last_status: null,
+        last_result: null,
+        last_error: null,
+        next_run_at: null
+      }
+    ])
+  );
+  const timers = new Map<string, NodeJS.Timeout>();
+  let started = false;
+
+  const schedule = (job: ScheduledJob, at: Date) => {
+    const status = statuses.get(job.name) as JobStatus;
+    clearTimeout(timers.get(job.name));
+    status.next_run_at = at.toISOString();
+    const timer = setTimeout(() => {
+      runJob(job.name).catch(() => undefined);
+    }, Math.max(at.getTime() - Date.now(), 0));
+    timer.unref();
+    timers.set(job.name, timer);
+  };
+
+  const runJob = async (name: string) => {
+    const job = jobs.find((candidate) => candidate.name === name);
+    const status = statuses.get(name);
+    if (!job || !status) return null;
+    if (status.running) return { ...status };
+
+    const startedAt = new Date();
+    status.running = true;
+    status.last_started_at = startedAt.toISOString();
+    try {
+      status.last_result = await job.run();
+      status.last_status = 'ok';
+      status.last_error = null;
+    } catch (error) {
+      status.last_status = 'error';
+      status.last_error = error instanceof Error ? error.message : String(error);
+    } finally {
+      const finishedAt = new Date();
+      status.running = false;
+      status.run_count += 1;
+      status.last_finished_at = finishedAt.toISOString();
+      status.last_duration_ms = finishedAt.getTime() - startedAt.getTime();
+      if (started) schedule(job, nextRunAfter(job.schedule, finishedAt));
+    }
+    return { ...status };
+  };
+
+  const start = () => {
+    if (started) return;
+    started = true;
+    const now = new Date();
+    jobs.forEach((job) => schedule(job, job.runOnStart ? now : nextRunAfter(job.schedule, now)));
+  };
+
+  const stop = () => {
+    started = false;
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+    statuses.forEach((status) => {
+      status.next_run_at = null;
+    });
+  };
+
+  const getStatus = () => jobs.map((job) => ({ ...(statuses.get(job.name) as JobStatus) }));
+
+  return { start, stop, runJob, getStatus };
+};
+
+export { createScheduler };
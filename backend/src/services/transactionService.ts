@@ -0,0 +1,271 @@
+import { db } from '../db/index';
+import type { HoldingRow } from './portfolioService';
+
+export type TransactionType = 'BUY' | 'SELL';
+
+export type TransactionRow = {
+  id: number;
+  portfolio_id: number;
+  holding_id: number | null;
+  ticker: string;
+  market: string;
+  type: TransactionType;
+  trade_date: string;
+  price: number;
+  quantity: number;
+  fee: number;
+  created_at: string;
+};
+
+export type LotDisposal = {
+  transaction_id: number;
+  date: string;
+  quantity: number;
+  price: number;
+  fee: number;
+  // The lot's buy fee attributed to the disposed units.
+  buy_fee: number;
+};
+
+export type LotAllocation = {
+  sold_quantity: number;
+  open_quantity: number;
+  realized_pnl: number;
+  disposals: LotDisposal[];
+};
+
+const QUANTITY_EPSILON = 1e-9;
+
+const transactionColumns = `id, portfolio_id, holding_id, ticker, market, type, trade_date, price, quantity, fee, created_at`;
+
+const listTransactions = (portfolioId: number) => {
+  return db
+    .prepare(
+      `SELECT ${transactionColumns}
+       FROM transactions
+       WHERE portfolio_id = ?
+       ORDER BY trade_date, id`
+    )
+    .all(portfolioId) as TransactionRow[];
+};
+
+const listSellTransactions = (portfolioId: number) => {
+  return db
+    .prepare(
+      `SELECT ${transactionColumns}
+       FROM transactions
+       WHERE portfolio_id = ? AND type = 'SELL'
+       ORDER BY trade_date, id`
+    )
+    .all(portfolioId) as TransactionRow[];
+};
+
+const getTransaction = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  return db
+    .prepare(
+      `SELECT ${transactionColumns}
+       FROM transactions
+       WHERE id = ? AND portfolio_id = ?`
+    )
+    .get(id, portfolioId) as TransactionRow | undefined;
+};
+
+const getBuyTransactionForHolding = (holdingId: number) => {
+  return db
+    .prepare(
+      `SELECT ${transactionColumns}
+       FROM transactions
+       WHERE holding_id = ? AND type = 'BUY'`
+    )
+    .get(holdingId) as TransactionRow | undefined;
+};
+
+const recordBuyTransaction = ({ holding, fee = 0 }: { holding: HoldingRow; fee?: number }) => {
+  db.prepare(
+    `INSERT INTO transactions (portfolio_id, holding_id, ticker, market, type, trade_date, price, quantity, fee)
+     VALUES (?, ?, ?, ?, 'BUY', ?, ?, ?, ?)`
+  ).run(
+    holding.portfolio_id,
+    holding.id,
+    holding.ticker,
+    holding.market,
+    holding.buy_date,
+    holding.buy_price,
+    holding.quantity,
+    fee
+  );
+};
+
+// Keeps the ledger mirror of an edited lot in step; the fee is only touched when a new one is given.
+const updateBuyTransaction = ({ holding, fee }: { holding: HoldingRow; fee?: number }) => {
+  db.prepare(
+    `UPDATE transactions
+     SET ticker = ?, market = ?, trade_date = ?, price = ?, quantity = ?, fee = COALESCE(?, fee)
+     WHERE holding_id = ? AND type = 'BUY'`
+  ).run(
+    holding.ticker,
+    holding.market,
+    holding.buy_date,
+    holding.buy_price,
+    holding.quantity,
+    fee ?? null,
+    holding.id
+  );
+};
+
+// Buy fees by holding id, from each lot's BUY entry.
+const listBuyFees = (portfolioId: number) => {
+  const rows = db
+    .prepare(
+      `SELECT holding_id, fee
+       FROM transactions
+       WHERE portfolio_id = ? AND type = 'BUY' AND holding_id IS NOT NULL`
+    )
+    .all(portfolioId) as Array<{ holding_id: number; fee: number }>;
+  return new Map(rows.map((row) => [row.holding_id, row.fee] as const));
+};
+
+// FIFO: each sell consumes the oldest lots of the same ticker/market bought on or before its trade date.
+// Realized P&L is net of the sell fee and of the buy fee share of the matched units.
+const allocateLots = (holdings: HoldingRow[], sells: TransactionRow[], buyFees = new Map<number, number>()) => {
+  const allocations = new Map<number, LotAllocation>();
+  const unmatched = new Map<number, number>();
+
+  holdings.forEach((holding) => {
+    allocations.set(holding.id, {
+      sold_quantity: 0,
+      open_quantity: holding.quantity,
+      realized_pnl: 0,
+      disposals: []
+    });
+  });
+
+  const lotsByKey = new Map<string, HoldingRow[]>();
+  holdings.forEach((holding) => {
+    const key = `${holding.ticker}|${holding.market}`;
+    const lots = lotsByKey.get(key) ?? [];
+    lots.push(holding);
+    lotsByKey.set(key, lots);
+  });
+  lotsByKey.forEach((lots) =>
+    lots.sort((a, b) => a.buy_date.localeCompare(b.buy_date) || a.id - b.id)
+  );
+
+  const orderedSells = [...sells].sort(
+    (a, b) => a.trade_date.localeCompare(b.trade_date) || a.id - b.id
+  );
+
+  for (const sell of orderedSells) {
+    const lots = lotsByKey.get(`${sell.ticker}|${sell.market}`) ?? [];
+    let remaining = sell.quantity;
+
+    for (const lot of lots) {
+      if (remaining <= QUANTITY_EPSILON) break;
+      if (lot.buy_date > sell.trade_date) break;
+      const allocation = allocations.get(lot.id) as LotAllocation;
+      if (allocation.open_quantity <= QUANTITY_EPSILON) continue;
+
+      const matched = Math.min(allocation.open_quantity, remaining);
+      const feeShare = sell.quantity ? (sell.fee * matched) / sell.quantity : 0;
+      const lotFeePerUnit = lot.quantity ? (buyFees.get(lot.id) ?? 0) / lot.quantity : 0;
+      allocation.open_quantity -= matched;
+      allocation.sold_quantity += matched;
+      allocation.realized_pnl += (sell.price - lot.buy_price) * matched - feeShare - lotFeePerUnit * matched;
+      allocation.disposals.push({
+        transaction_id: sell.id,
+        date: sell.trade_date,
+        quantity: matched,
+        price: sell.price,
+        fee: feeShare,
+        buy_fee: lotFeePerUnit * matched
+      });
+      remaining -= matched;
+    }
+
+    if (remaining > QUANTITY_EPSILON) {
+      unmatched.set(sell.id, remaining);
+    }
+  }
+
+  allocations.forEach((allocation) => {
+    if (Math.abs(allocation.open_quantity) < QUANTITY_EPSILON) {
+      allocation.open_quantity = 0;
+    }
+  });
+
+  return { allocations, unmatched };
+};
+
+const getOpenQuantityOn = (holding: HoldingRow, allocation: LotAllocation | undefined, date: string) => {
+  if (date < holding.buy_date) return 0;
+  if (!allocation) return holding.quantity;
+  const sold = allocation.disposals.reduce(
+    (sum, disposal) => (disposal.date <= date ? sum + disposal.quantity : sum),
+    0
+  );
+  return Math.max(holding.quantity - sold, 0);
+};
+
+const addSellTransaction = ({
+  portfolioId,
+  ticker,
+  market,
+  tradeDate,
+  price,
+  quantity,
+  fee = 0,
+  holdings
+}: {
+  portfolioId: number;
+  ticker: string;
+  market: string;
+  tradeDate: string;
+  price: number;
+  quantity: number;
+  fee?: number;
+  holdings: HoldingRow[];
+}) => {
+  const unmatchedTotal = (unmatched: Map<number, number>) =>
+    Array.from(unmatched.values()).reduce((sum, value) => sum + value, 0);
+
+  const insert = db.transaction(() => {
+    const before = unmatchedTotal(allocateLots(holdings, listSellTransactions(portfolioId)).unmatched);
+    const result = db
+      .prepare(
+        `INSERT INTO transactions (portfolio_id, ticker, market, type, trade_date, price, quantity, fee)
+         VALUES (?, ?, ?, 'SELL', ?, ?, ?, ?)`
+      )
+      .run(portfolioId, ticker, market, tradeDate, price, quantity, fee);
+
+    // Re-run the allocation with the new sell in place so later sells stay covered too.
+    const after = unmatchedTotal(allocateLots(holdings, listSellTransactions(portfolioId)).unmatched);
+    if (after - before > QUANTITY_EPSILON) {
+      throw new Error('Sell quantity exceeds the open position on that date');
+    }
+
+    return getTransaction({ id: Number(result.lastInsertRowid), portfolioId }) as TransactionRow;
+  });
+
+  return insert();
+};
+
+const deleteSellTransaction = ({ id, portfolioId }: { id: number; portfolioId: number }) => {
+  const result = db
+    .prepare(`DELETE FROM transactions WHERE id = ? AND portfolio_id = ? AND type = 'SELL'`)
+    .run(id, portfolioId);
+  return result.changes > 0;
+};
+
+export {
+  listTransactions,
+  listSellTransactions,
+  getTransaction,
+  getBuyTransactionForHolding,
+  recordBuyTransaction,
+  updateBuyTransaction,
+  listBuyFees,
+  allocateLots,
+  getOpenQuantityOn,
+  addSellTransaction,
+  deleteSellTransaction
+};
@@ -1,7 +1,9 @@
 import { db } from '../db/index';
 import { MarketDataProvider, ProviderError } from '../providers/base';
-import { getMarketDefinition, getSupportedMarkets } from '../config/markets';
+import { getMarketDefinition, getSupportedMarkets, routeProviders, toProviderSymbol } from '../config/markets';
 import { getNameOverride } from '../config/nameOverrides';
+import { recordCacheLookup } from './diagnosticsService';
+import { getManualInstrument } from './instrumentService';
 
 const getValidationTtlDays = (): number => Number(process.env.VALIDATION_TTL_DAYS || 7);
 
@@ -79,13 +81,6 @@ const normalizeTicker = (ticker: string, market: string) => {
   return ticker;
 };
 
-const orderProvidersForMarket = (providers: MarketDataProvider[], market: string) => {
-  const normalized = market.toUpperCase();
-  const preferStooq = new Set(['XWAR', 'GPW', 'XLON', 'XETR']);
-  if (!preferStooq.has(normalized)) return providers;
-  return [...providers].sort((a, b) => (a.name === 'STOOQ' ? -1 : b.name === 'STOOQ' ? 1 : 0));
-};
-
 const orderProvidersForNames = (providers: MarketDataProvider[]) => {
   return [...providers].sort((a, b) => {
     if (a.name === 'TWELVE_DATA') return -1;
@@ -118,7 +113,25 @@ const validateSymbol = async ({
   const normalizedMarket = marketDefinition.code.toUpperCase();
   const normalizedTicker = normalizeTicker(ticker.toUpperCase(), normalizedMarket);
 
+  // Manually priced instruments are known from their registration; providers have never heard of them.
+  const instrument = getManualInstrument(normalizedTicker, normalizedMarket);
+  if (instrument) {
+    return {
+      valid: true,
+      source: instrument.pricing,
+      symbol: {
+        ticker: instrument.ticker,
+        market: instrument.market,
+        name: instrument.name,
+        currency: instrument.currency,
+        exchange: marketDefinition.providerExchange
+      },
+      normalized: { ticker: instrument.ticker, market: instrument.market }
+    };
+  }
+
   const cached = getCachedValidation({ ticker: normalizedTicker, market: normalizedMarket });
+  recordCacheLookup('validation', !!cached);
   if (cached) return { valid: true, source: 'CACHE', symbol: cached };
 
   const overrideName = getNameOverride(normalizedMarket, normalizedTicker);
@@ -146,20 +159,21 @@ const validateSymbol = async ({
     };
   }
 
-  const orderedProviders = orderProvidersForMarket(providers, normalizedMarket);
+  const orderedProviders = routeProviders(providers, normalizedMarket);
   let lastProvider = 'UNKNOWN';
   for (const provider of orderedProviders) {
     lastProvider = provider.name;
     try {
-      const result = await provider.searchSymbol({
-        ticker: normalizedTicker,
-        market: marketDefinition.providerExchange
-      });
+      const providerSymbol = toProviderSymbol(provider.name, normalizedMarket, normalizedTicker);
+      const result = await provider.searchSymbol(providerSymbol);
 
       if (!result) continue;
 
+      // A provider that needs a rewritten symbol (e.g. 'VOD.L') answers with it; keep ours.
+      const resolvedTicker =
+        providerSymbol.ticker === normalizedTicker ? result.ticker.toUpperCase() : normalizedTicker;
       cacheValidation({
-        ticker: result.ticker.toUpperCase(),
+        ticker: resolvedTicker,
         market: normalizedMarket,
         name: result.name,
         currency: result.currency,
@@ -170,7 +184,7 @@ const validateSymbol = async ({
       return {
         valid: true,
         source: provider.name,
-        symbol: { ...result, ticker: result.ticker.toUpperCase(), market: normalizedMarket },
+        symbol: { ...result, ticker: resolvedTicker, market: normalizedMarket },
         normalized: { ticker: normalizedTicker, market: normalizedMarket }
       };
     } catch (error) {
@@ -218,18 +232,16 @@ const resolveSymbolName = async ({
     return overrideName;
   }
 
-  const orderedProviders = orderProvidersForNames(providers);
+  const orderedProviders = orderProvidersForNames(routeProviders(providers, normalizedMarket));
   for (const provider of orderedProviders) {
     try {
-      const result = await provider.searchSymbol({
-        ticker: normalizedTicker,
-        market: marketDefinition.providerExchange
-      });
+      const providerSymbol = toProviderSymbol(provider.name, normalizedMarket, normalizedTicker);
+      const result = await provider.searchSymbol(providerSymbol);
 
       if (!result?.name) continue;
 
       cacheValidation({
-        ticker: result.ticker.toUpperCase(),
+        ticker: providerSymbol.ticker === normalizedTicker ? result.ticker.toUpperCase() : normalizedTicker,
         market: normalizedMarket,
         name: result.name,
         currency: result.currency,
@@ -247,4 +259,70 @@ const resolveSymbolName = async ({
   return null;
 };
 
-export { validateSymbol, resolveSymbolName };
+// Fills in company names for held symbols that never got one (the holdings view caps lookups per request).
+const backfillSymbolNames = async ({
+  providers,
+  limit = null,
+  dryRun = false
+}: {
+  providers: MarketDataProvider[];
+  limit?: number | null;
+  dryRun?: boolean;
+}) => {
+  const holdings = db
+    .prepare(
+      `SELECT DISTINCT ticker, market
+       FROM holdings
+       ORDER BY ticker`
+    )
+    .all() as Array<{ ticker: string; market: string }>;
+
+  let processed = 0;
+  let enriched = 0;
+  let skipped = 0;
+  let errors = 0;
+
+  for (const holding of holdings) {
+    if (limit !== null && processed >= limit) break;
+    processed += 1;
+
+    const cached = db
+      .prepare(
+        `SELECT name
+         FROM market_symbols
+         WHERE ticker = ? AND market = ?
+         ORDER BY last_verified_at DESC
+         LIMIT 1`
+      )
+      .get(holding.ticker, holding.market) as { name?: string | null } | undefined;
+
+    if (cached?.name) {
+      skipped += 1;
+      continue;
+    }
+
+    try {
+      if (dryRun) {
+        enriched += 1;
+        continue;
+      }
+      const result = await validateSymbol({
+        ticker: holding.ticker,
+        market: holding.market,
+        providers
+      });
+
+      if (result.valid && result.symbol?.name) {
+        enriched += 1;
+      } else {
+        skipped += 1;
+      }
+    } catch (error) {
+      errors += 1;
+    }
+  }
+
+  return { processed, enriched, skipped, errors };
+};
+
+export { validateSymbol, resolveSymbolName, normalizeTicker, backfillSymbolNames };
@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import request from 'supertest';
 import type { MarketDataProvider } from '../src/providers/base';
 
@@ -10,10 +10,26 @@ const { createApp } = await import('../src/app');
 const { db } = await import('../src/db/index');
 
 const resetDb = () => {
+  db.exec('DELETE FROM alerts');
+  db.exec('DELETE FROM alert_rules');
+  db.exec('DELETE FROM portfolio_benchmarks');
+  db.exec('DELETE FROM cash_movements');
+  db.exec('DELETE FROM cash_accounts');
+  db.exec('DELETE FROM dividends');
+  db.exec('DELETE FROM transactions');
   db.exec('DELETE FROM holdings');
+  db.exec('DELETE FROM instrument_prices');
+  db.exec('DELETE FROM instrument_rates');
+  db.exec('DELETE FROM instruments');
   db.exec('DELETE FROM quote_cache');
   db.exec('DELETE FROM price_history');
+  db.exec('DELETE FROM history_ranges');
   db.exec('DELETE FROM market_symbols');
+  db.exec('DELETE FROM fx_rates');
+  db.exec('DELETE FROM fx_history');
+  db.exec('DELETE FROM fx_history_ranges');
+  db.exec('DELETE FROM portfolios WHERE id > 1');
+  db.exec('UPDATE portfolios SET archived_at = NULL');
   const row = db.prepare('SELECT id FROM portfolios ORDER BY id LIMIT 1').get() as
     | { id: number }
     | undefined;
@@ -152,4 +168,1219 @@ describe('portfolio API', () => {
     expect(response.body.series[0].value).toBe(180);
     expect(response.body.series[1].value).toBe(200);
   });
+
+  it('should realize P&L on FIFO sells and keep sold lots in past performance', async () => {
+    const provider = createMockProvider({
+      searchSymbol: async () => ({
+        ticker: 'NVDA',
+        market: 'NASDAQ',
+        name: 'NVIDIA',
+        currency: 'USD',
+        exchange: 'NASDAQ'
+      })
+    });
+
+    const app = createApp({ providers: [provider] });
+
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'NVDA', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 50, quantity: 2 });
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'NVDA', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 80, quantity: 2 });
+
+    const oversell = await request(app)
+      .post('/api/transactions')
+      .send({ type: 'SELL', ticker: 'NVDA', market: 'NASDAQ', trade_date: '2024-01-02', price: 100, quantity: 5 });
+    expect(oversell.status).toBe(400);
+
+    const sell = await request(app)
+      .post('/api/transactions')
+      .send({ type: 'SELL', ticker: 'NVDA', market: 'NASDAQ', trade_date: '2024-01-02', price: 100, quantity: 3 });
+    expect(sell.status).toBe(201);
+
+    const listResponse = await request(app).get('/api/holdings');
+    const lots = listResponse.body.holdings.sort(
+      (a: { id: number }, b: { id: number }) => a.id - b.id
+    );
+    expect(lots[0].open_quantity).toBe(0);
+    expect(lots[0].realized_pnl).toBe(100);
+    expect(lots[1].open_quantity).toBe(1);
+    expect(lots[1].realized_pnl).toBe(20);
+    expect(lots[1].market_value).toBe(100);
+
+    const performance = await request(app)
+      .get('/api/portfolio/performance?from=2024-01-01&to=2024-01-02');
+    expect(performance.body.series[0].value).toBe(360);
+    expect(performance.body.series[1].value).toBe(100);
+
+    const ledger = await request(app).get('/api/transactions');
+    expect(ledger.body.transactions.map((row: { type: string }) => row.type)).toEqual([
+      'BUY',
+      'BUY',
+      'SELL'
+    ]);
+
+    // A lot that sells were matched against cannot be deleted while those sells exist.
+    const blocked = await request(app).delete(`/api/holdings/${lots[0].id}`);
+    expect(blocked.status).toBe(409);
+    expect(blocked.body.sold_quantity).toBe(2);
+    const sellId = ledger.body.transactions.find((row: { type: string }) => row.type === 'SELL').id;
+    await request(app).delete(`/api/transactions/${sellId}`);
+    expect((await request(app).delete(`/api/holdings/${lots[0].id}`)).status).toBe(200);
+  });
+
+  it('should deduct the buy fee share and the sell fee from realized P&L', async () => {
+    const provider = createMockProvider({
+      searchSymbol: async () => ({
+        ticker: 'NVDA',
+        market: 'NASDAQ',
+        name: 'NVIDIA',
+        currency: 'USD',
+        exchange: 'NASDAQ'
+      })
+    });
+    const app = createApp({ providers: [provider] });
+
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'NVDA', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 50, quantity: 4, fee: 4 });
+    const sell = await request(app)
+      .post('/api/transactions')
+      .send({ type: 'SELL', ticker: 'NVDA', market: 'NASDAQ', trade_date: '2024-01-02', price: 100, quantity: 2, fee: 2 });
+    expect(sell.status).toBe(201);
+
+    const listResponse = await request(app).get('/api/holdings');
+    // (100 - 50) * 2 - 2 sell fee - 2 of the 4 buy fee
+    expect(listResponse.body.holdings[0].realized_pnl).toBe(96);
+    expect(listResponse.body.holdings[0].open_quantity).toBe(2);
+  });
+
+  it('should edit a lot in place and keep its BUY entry in sync', async () => {
+    const provider = createMockProvider({
+      searchSymbol: async () => ({
+        ticker: 'NVDA',
+        market: 'NASDAQ',
+        name: 'NVIDIA',
+        currency: 'USD',
+        exchange: 'NASDAQ'
+      })
+    });
+    const app = createApp({ providers: [provider] });
+
+    const created = await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'NVDA', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 50, quantity: 2 });
+    const id = created.body.holding.id;
+    await request(app)
+      .post('/api/transactions')
+      .send({ type: 'SELL', ticker: 'NVDA', market: 'NASDAQ', trade_date: '2024-01-02', price: 100, quantity: 2 });
+
+    const edited = await request(app).patch(`/api/holdings/${id}`).send({ buy_price: 55, quantity: 3 });
+    expect(edited.status).toBe(200);
+    expect(edited.body.holding.buy_price).toBe(55);
+    expect(edited.body.holding.quantity).toBe(3);
+
+    const ledger = await request(app).get('/api/transactions');
+    const buy = ledger.body.transactions.find((row: { type: string }) => row.type === 'BUY');
+    expect(buy.price).toBe(55);
+    expect(buy.quantity).toBe(3);
+
+    const shrink = await request(app).patch(`/api/holdings/${id}`).send({ quantity: 1 });
+    expect(shrink.status).toBe(400);
+
+    const invalid = await request(app).patch(`/api/holdings/${id}`).send({ buy_price: -1 });
+    expect(invalid.status).toBe(400);
+
+    const missing = await request(app).patch('/api/holdings/9999').send({ quantity: 1 });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should convert past values and cost basis with the FX rate of each day', async () => {
+    const provider = createMockProvider({
+      getExchangeRate: async () => ({ rate: 0.25 }),
+      getExchangeRateHistory: async () => ([
+        { date: '2024-01-01', rate: 0.2 },
+        { date: '2024-01-02', rate: 0.25 }
+      ])
+    });
+
+    const app = createApp({ providers: [provider] });
+
+    const created = await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'PKN', market: 'XWAR', buy_date: '2024-01-01', buy_price: 100, quantity: 2 });
+    expect(created.status).toBe(201);
+
+    const performance = await request(app)
+      .get('/api/portfolio/performance?from=2024-01-01&to=2024-01-02&currency=USD');
+    expect(performance.body.series[0].value).toBeCloseTo(36);
+    expect(performance.body.series[1].value).toBeCloseTo(50);
+
+    const listResponse = await request(app).get('/api/holdings?currency=USD');
+    expect(listResponse.body.holdings[0].cost_basis).toBeCloseTo(40);
+    expect(listResponse.body.holdings[0].market_value).toBeCloseTo(50);
+
+    // Separate fetches leave a hole between them; a later wider request fetches only that hole.
+    const { getFxRateHistory } = await import('../src/services/fxService');
+    const requested: string[] = [];
+    const ranged = createMockProvider({
+      getExchangeRateHistory: async ({ from, to }) => {
+        requested.push(`${from}..${to}`);
+        return [{ date: from, rate: 0.25 }, { date: to, rate: 0.25 }];
+      }
+    });
+    const fetchEur = (from: string, to: string) =>
+      getFxRateHistory({ base: 'EUR', quote: 'USD', from, to, providers: [ranged] });
+    await fetchEur('2024-01-08', '2024-01-10');
+    await fetchEur('2024-01-27', '2024-01-31');
+    await fetchEur('2024-01-08', '2024-01-31');
+    await fetchEur('2024-01-08', '2024-01-31');
+    expect(requested).toEqual(['2024-01-01..2024-01-10', '2024-01-20..2024-01-31', '2024-01-11..2024-01-19']);
+  });
+
+  it('should attribute dividends to lots and add them to the total-return series', async () => {
+    const app = createApp({ providers: [createMockProvider()] });
+
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'PZU', market: 'XWAR', buy_date: '2024-01-01', buy_price: 40, quantity: 30 });
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'PZU', market: 'XWAR', buy_date: '2024-01-01', buy_price: 45, quantity: 10 });
+
+    const dividend = await request(app)
+      .post('/api/dividends')
+      .send({ ticker: 'PZU', market: 'XWAR', pay_date: '2024-01-02', gross_amount: 100, withholding_tax: 19 });
+    expect(dividend.status).toBe(201);
+    expect(dividend.body.dividend.currency).toBe('PLN');
+
+    const listResponse = await request(app).get('/api/holdings?currency=PLN');
+    const income = listResponse.body.holdings
+      .map((holding: { quantity: number; income_received: number }) => [holding.quantity, holding.income_received])
+      .sort((a: number[], b: number[]) => a[0] - b[0]);
+    expect(income).toEqual([
+      [10, 20.25],
+      [30, 60.75]
+    ]);
+
+    const performance = await request(app)
+      .get('/api/portfolio/performance?from=2024-01-01&to=2024-01-02&currency=PLN');
+    expect(performance.body.series[1].value).toBe(4000);
+    expect(performance.body.total_return_series[0].value).toBe(3600);
+    expect(performance.body.total_return_series[1].value).toBe(4081);
+  });
+
+  it('should debit buys from a cash account and include cash in totals and total return', async () => {
+    const provider = createMockProvider({
+      searchSymbol: async () => ({
+        ticker: 'AMZN',
+        market: 'NASDAQ',
+        name: 'Amazon',
+        currency: 'USD',
+        exchange: 'NASDAQ'
+      })
+    });
+    const app = createApp({ providers: [provider] });
+
+    const deposit = await request(app)
+      .post('/api/cash/movements')
+      .send({ type: 'DEPOSIT', date: '2024-01-01', currency: 'USD', amount: 1000 });
+    expect(deposit.status).toBe(201);
+
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'AMZN', market: 'NASDAQ', buy_date: '2024-01-02', buy_price: 100, quantity: 5, fee: 2 });
+
+    const listResponse = await request(app).get('/api/holdings');
+    expect(listResponse.body.cash).toEqual([{ currency: 'USD', balance: 498, value: 498 }]);
+    expect(listResponse.body.cash_value).toBe(498);
+
+    const performance = await request(app)
+      .get('/api/portfolio/performance?from=2024-01-01&to=2024-01-02');
+    expect(performance.body.series.map((point: { value: number }) => point.value)).toEqual([0, 500]);
+    expect(performance.body.total_return_series.map((point: { value: number }) => point.value)).toEqual([1000, 998]);
+
+    // No PLN account: the buy is reported instead of settling against cash.
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'PKN', market: 'XWAR', buy_date: '2024-01-03', buy_price: 50, quantity: 2 });
+    const cash = await request(app).get('/api/cash');
+    expect(cash.body.accounts).toEqual([{ currency: 'USD', balance: 498, value: 498 }]);
+    expect(cash.body.unsettled).toEqual([
+      expect.objectContaining({ source: 'BUY', currency: 'PLN', date: '2024-01-03', amount: -100 })
+    ]);
+  });
+
+  it('should separate contributions from performance in time-weighted returns', async () => {
+    const provider = createMockProvider({
+      searchSymbol: async () => ({
+        ticker: 'META',
+        market: 'NASDAQ',
+        name: 'Meta',
+        currency: 'USD',
+        exchange: 'NASDAQ'
+      }),
+      getHistory: async () => ([
+        { date: '2024-01-01', price: 100, currency: 'USD' },
+        { date: '2024-01-02', price: 110, currency: 'USD' },
+        { date: '2024-01-03', price: 121, currency: 'USD' }
+      ])
+    });
+    const app = createApp({ providers: [provider] });
+
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'META', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 100, quantity: 1 });
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'META', market: 'NASDAQ', buy_date: '2024-01-02', buy_price: 110, quantity: 9 });
+
+    const response = await request(app).get('/api/portfolio/returns?from=2024-01-01&to=2024-01-03');
+    expect(response.status).toBe(200);
+    expect(response.body.series.map((point: { flow: number }) => point.flow)).toEqual([100, 990, 0]);
+    expect(response.body.series[1].daily_return).toBeCloseTo(0.1);
+    expect(response.body.twr.cumulative).toBeCloseTo(0.21);
+    expect(response.body.twr.annualized).toBeNull();
+    expect(response.body.net_contributions).toBe(1090);
+    expect(response.body.gain).toBeCloseTo(120);
+    expect(response.body.mwr.xirr).toBeGreaterThan(0);
+  });
+
+  it('should replay portfolio contributions into a benchmark series', async () => {
+    const provider = createMockProvider({
+      searchSymbol: async ({ ticker }) => ({
+        ticker,
+        market: ticker === 'SPY' ? 'AMEX' : 'NASDAQ',
+        name: ticker,
+        currency: 'USD',
+        exchange: ticker === 'SPY' ? 'AMEX' : 'NASDAQ'
+      }),
+      getHistory: async ({ ticker }) => (ticker === 'SPY'
+        ? [
+            { date: '2024-01-01', price: 50, currency: 'USD' },
+            { date: '2024-01-02', price: 50, currency: 'USD' },
+            { date: '2024-01-03', price: 60, currency: 'USD' }
+          ]
+        : ticker === 'VOO'
+        ? []
+        : [
+            { date: '2024-01-01', price: 100, currency: 'USD' },
+            { date: '2024-01-02', price: 110, currency: 'USD' },
+            { date: '2024-01-03', price: 121, currency: 'USD' }
+          ])
+    });
+    const app = createApp({ providers: [provider] });
+
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'META', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 100, quantity: 1 });
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'META', market: 'NASDAQ', buy_date: '2024-01-02', buy_price: 110, quantity: 9 });
+
+    const created = await request(app).post('/api/portfolios/1/benchmarks').send({ ticker: 'spy', market: 'amex' });
+    expect(created.status).toBe(201);
+    expect(created.body.benchmark.ticker).toBe('SPY');
+
+    const performance = await request(app).get('/api/portfolio/performance?from=2024-01-01&to=2024-01-03');
+    expect(performance.status).toBe(200);
+    expect(performance.body.benchmarks).toHaveLength(1);
+    const values = performance.body.benchmarks[0].series.map((point: { value: number }) => point.value);
+    expect(values[0]).toBeCloseTo(100);
+    expect(values[1]).toBeCloseTo(1090);
+    expect(values[2]).toBeCloseTo(1308);
+
+    // A benchmark without history keeps the same shape, with an error instead of points.
+    const empty = await request(app).post('/api/portfolios/1/benchmarks').send({ ticker: 'VOO', market: 'NASDAQ' });
+    const withEmpty = await request(app).get('/api/portfolio/performance?from=2024-01-01&to=2024-01-03');
+    expect(withEmpty.body.benchmarks[1]).toEqual({
+      id: empty.body.benchmark.id,
+      ticker: 'VOO',
+      market: 'NASDAQ',
+      series: [],
+      error: 'No price history for benchmark'
+    });
+  });
+
+  it('should rename, archive and delete portfolios', async () => {
+    const app = createApp({
+      providers: [
+        createMockProvider({
+          searchSymbol: async () => ({
+            ticker: 'AAPL',
+            market: 'NASDAQ',
+            name: 'Apple',
+            currency: 'USD',
+            exchange: 'NASDAQ'
+          })
+        })
+      ]
+    });
+
+    const created = await request(app).post('/api/portfolios').send({ name: 'Side', base_currency: 'EUR' });
+    const id = created.body.portfolio.id;
+    await request(app)
+      .post('/api/holdings')
+      .send({ portfolioId: id, ticker: 'AAPL', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 10, quantity: 1 });
+
+    const renamed = await request(app).patch(`/api/portfolios/${id}`).send({ name: 'Satellite', base_currency: 'PLN' });
+    expect(renamed.status).toBe(200);
+    expect(renamed.body.portfolio).toMatchObject({ name: 'Satellite', base_currency: 'PLN' });
+
+    const archived = await request(app).post(`/api/portfolios/${id}/archive`);
+    expect(archived.body.portfolio.archived_at).toBeTruthy();
+    const active = await request(app).get('/api/portfolios');
+    expect(active.body.portfolios.map((portfolio: { id: number }) => portfolio.id)).not.toContain(id);
+    const all = await request(app).get('/api/portfolios?includeArchived=true');
+    expect(all.body.portfolios.map((portfolio: { id: number }) => portfolio.id)).toContain(id);
+
+    const refused = await request(app).delete(`/api/portfolios/${id}`);
+    expect(refused.status).toBe(409);
+
+    const deleted = await request(app).delete(`/api/portfolios/${id}?cascade=true`);
+    expect(deleted.status).toBe(200);
+    const leftovers = db.prepare('SELECT COUNT(*) AS count FROM transactions WHERE portfolio_id = ?').get(id) as {
+      count: number;
+    };
+    expect(leftovers.count).toBe(0);
+
+    // Cash alone is enough to need cascade=true.
+    const cashOnly = await request(app).post('/api/portfolios').send({ name: 'Cash', base_currency: 'USD' });
+    const cashId = cashOnly.body.portfolio.id;
+    await request(app)
+      .post('/api/cash/movements')
+      .send({ portfolioId: cashId, type: 'DEPOSIT', date: '2024-01-01', currency: 'USD', amount: 100 });
+    const cashRefused = await request(app).delete(`/api/portfolios/${cashId}`);
+    expect(cashRefused.status).toBe(409);
+    expect(cashRefused.body.data).toEqual({ cash_movements: 1, cash_accounts: 1 });
+  });
+
+  it('should combine portfolios into one aggregate view with subtotals', async () => {
+    const app = createApp({
+      providers: [
+        createMockProvider({
+          searchSymbol: async () => ({
+            ticker: 'AAPL',
+            market: 'NASDAQ',
+            name: 'Apple',
+            currency: 'USD',
+            exchange: 'NASDAQ'
+          })
+        })
+      ]
+    });
+
+    const second = await request(app).post('/api/portfolios').send({ name: 'IKE', base_currency: 'USD' });
+    const secondId = second.body.portfolio.id;
+    await request(app)
+      .post('/api/holdings')
+      .send({ ticker: 'AAPL', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 80, quantity: 1 });
+    await request(app)
+      .post('/api/holdings')
+      .send({ portfolioId: secondId, ticker: 'AAPL', market: 'NASDAQ', buy_date: '2024-01-01', buy_price: 80, quantity: 2 });
+
+    const holdings = await request(app).get('/api/holdings?portfolioId=all&currency=USD');
+    expect(holdings.status).toBe(200);
+    expect(holdings.body.holdings).toHaveLength(2);
+    expect(holdings.body.portfolios.map((subtotal: { total_value: number }) => subtotal.total_value)).toEqual([100, 200]);
+
+    const performance = await request(app)
+      .get(`/api/portfolio/performance?portfolioIds=1,${secondId}&currency=USD&from=2024-01-01&to=2024-01-02`);
+    expect(performance.status).toBe(200);
+    expect(performance.body.series.map((point: { value: number }) => point.value)).toEqual([270, 300]);
+    expect(performance.body.portfolios).toHaveLength(2);
+
+    const unknown = await request(app).get('/api/holdings?portfolioIds=1,999');
+    expect(unknown.status).toBe(400);
+  });
+
+  it('should import an IBKR Flex statement once and skip it on re-import', async () => {
+    const app = createApp({ providers: [createMockProvider()] });
+    const statement = [
+      'ClientAccountID,AssetClass,Symbol,ListingExchange,TradeDate,Quantity,TradePrice,IBCommission,Buy/Sell',
+      'U1,STK,AAPL,NASDAQ,20240102,10,150,-1,BUY',
+      'U1,STK,AAPL,NASDAQ,20240105,4,160,-1,SELL',
+      'U1,OPT,AAPL 240119C00150000,CBOE,20240105,1,2,-1,BUY',
+      'ClientAccountID,CurrencyPrimary,Symbol,ListingExchange,SettleDate,Amount,Type',
+      'U1,USD,,,20240101,2000,Deposits/Withdrawals',
+      'U1,USD,AAPL,NASDAQ,20240110,2.4,Dividends',
+      'U1,USD,AAPL,NASDAQ,20240110,-0.36,Withholding Tax'
+    ].join('\n');
+
+    const upload = () =>
+      request(app)
+        .post('/api/import?format=ibkr-flex')
+        .set('Content-Type', 'text/csv')
+        .send(statement);
+
+    const first = await upload();
+    expect(first.status).toBe(201);
+    expect(first.body.inserted).toBe(4);
+    expect(first.body.skipped).toHaveLength(1);
+
+    const dividends = await request(app).get('/api/dividends');
+    expect(dividends.body.dividends[0].withholding_tax).toBeCloseTo(0.36);
+
+    const second = await upload();
+    expect(second.body.inserted).toBe(0);
+    expect(second.body.duplicates).toBe(4);
+  });
+
+  it('should map generic CSV columns and report a dry run', async () => {
+    const app = createApp({ providers: [createMockProvider()] });
+    const mapping = JSON.stringify({ ticker: 'Instrument', date: 'Date', price: 'Price', quantity: 'Qty' });
+    const response = await request(app)
+      .post(`/api/import?format=generic-csv&dryRun=true&mapping=${encodeURIComponent(mapping)}`)
+      .set('Content-Type', 'text/csv')
+      .send('Instrument;Date;Price;Qty\nCDR.PL;02.01.2024;120,5;3\nVOD.XX;02.01.2024;1;1\n');
+
+    expect(response.status).toBe(200);
+    expect(response.body.inserted).toBe(1);
+    expect(response.body.unsupported_markets).toEqual(['XX']);
+
+    const holdings = await request(app).get('/api/holdings');
+    expect(holdings.body.holdings).toHaveLength(0);
+
+    const missing = await request(app)
+      .post('/api/import?format=generic-csv')
+      .set('Content-Type', 'text/csv')
+      .send('a,b\n1,2\n');
+    expect(missing.status).toBe(400);
+
+    const { parseNumber } = await import('../src/importers/shared');
+    expect(parseNumber('1.234,56')).toBe(1234.56);
+    expect(parseNumber('1,234.56')).toBe(1234.56);
+    expect(parseNumber('1 234,56')).toBe(1234.56);
+    expect(parseNumber('120,5')).toBe(120.5);
+  });
+
+  it('should export enriched holdings as CSV, XLSX and JSON', async () => {
+    const app = createApp({ providers: [createMockProvider()] });
+    db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, 'AAPL', 'NASDAQ', '2024-01-01', 80, 2)`
+    ).run();
+
+    const json = await request(app).get('/api/export/holdings?format=json&currency=USD');
+    expect(json.status).toBe(200);
+    expect(json.headers['content-disposition']).toMatch(/attachment; filename="holdings-.*\.json"/);
+    expect(JSON.parse(json.text)[0]).toMatchObject({
+      ticker: 'AAPL',
+      cost_basis: 160,
+      last_price: 100,
+      quote_source: 'MOCK',
+      unrealized_pnl: 40
+    });
+
+    const csv = await request(app).get('/api/export/holdings?format=csv&currency=USD');
+    expect(csv.headers['content-type']).toContain('text/csv');
+    expect(csv.text.split('\n')[0]).toContain('ticker,market,company_name');
+
+    const xlsx = await request(app)
+      .get('/api/export/holdings?format=xlsx&currency=USD')
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(xlsx.status).toBe(200);
+    expect((xlsx.body as Buffer).subarray(0, 2).toString()).toBe('PK');
+
+    const performance = await request(app)
+      .get('/api/export/performance?format=csv&currency=USD&from=2024-01-01&to=2024-01-02');
+    expect(performance.text.trim().split('\n')).toHaveLength(3);
+
+    const invalid = await request(app).get('/api/export/holdings?format=pdf');
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should round-trip a JSON dump and reject dumps that do not fit the schema', async () => {
+    const app = createApp({ providers: [createMockProvider()] });
+    db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, 'AAPL', 'NASDAQ', '2024-01-01', 80, 2)`
+    ).run();
+    db.prepare(`INSERT INTO quote_cache (ticker, market, price, currency, as_of, source, fetched_at, expires_at)
+      VALUES ('AAPL', 'NASDAQ', 100, 'USD', '2024-01-02', 'MOCK', datetime('now'), datetime('now', '+1 day'))`).run();
+
+    const dump = await request(app).get('/api/backup/dump');
+    expect(dump.status).toBe(200);
+    expect(dump.body.tables.holdings).toHaveLength(1);
+    expect(dump.body.tables.quote_cache).toBeUndefined();
+
+    db.exec('DELETE FROM transactions');
+    db.exec('DELETE FROM holdings');
+
+    const broken = structuredClone(dump.body);
+    broken.tables.holdings[0].sector = 'Tech';
+    const rejected = await request(app).post('/api/backup/restore').send(broken);
+    expect(rejected.status).toBe(400);
+    expect(rejected.body.details).toEqual(['holdings[0] has unknown column sector']);
+
+    const restored = await request(app).post('/api/backup/restore').send(dump.body);
+    expect(restored.status).toBe(200);
+    expect(restored.body.tables.holdings).toBe(1);
+    const holdings = await request(app).get('/api/holdings?currency=USD');
+    expect(holdings.body.holdings[0].ticker).toBe('AAPL');
+    expect(holdings.body.holdings[0].id).toBe(dump.body.tables.holdings[0].id);
+
+    const snapshot = await request(app)
+      .get('/api/backup')
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(snapshot.status).toBe(200);
+    expect((snapshot.body as Buffer).subarray(0, 15).toString()).toBe('SQLite format 3');
+  });
+
+  it('should record every migration in schema_version', async () => {
+    const { getMigrationStatus, runMigrations } = await import('../src/db/migrate');
+    const status = getMigrationStatus(db);
+    expect(status.length).toBeGreaterThan(0);
+    expect(status.every((migration) => migration.applied_at !== null)).toBe(true);
+    expect(runMigrations(db)).toEqual([]);
+  });
+
+  it('should fire alert rules once, deliver them and let them be acknowledged', async () => {
+    const { AlertChannel } = await import('../src/alerts/base');
+    const delivered: string[] = [];
+    class RecordingChannel extends AlertChannel {
+      async deliver(alert: { message: string }) {
+        delivered.push(alert.message);
+      }
+    }
+    const app = createApp({
+      providers: [createMockProvider()],
+      alertChannels: [new RecordingChannel('in_app'), new RecordingChannel('webhook')]
+    });
+    db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, 'AAPL', 'NASDAQ', '2024-01-01', 80, 2)`
+    ).run();
+
+    const created = await request(app)
+      .post('/api/alerts/rules')
+      .send({ ticker: 'aapl', market: 'NASDAQ', type: 'PRICE_ABOVE', threshold: 95, channels: ['webhook', 'smtp'] });
+    expect(created.status).toBe(201);
+    await request(app).post('/api/alerts/rules').send({ ticker: 'AAPL', market: 'NASDAQ', type: 'PCT_FROM_BUY', threshold: 30 });
+    await request(app).post('/api/alerts/rules').send({ ticker: 'AAPL', market: 'NASDAQ', type: 'POSITION_WEIGHT', threshold: 50 });
+
+    const first = await request(app).post('/api/alerts/evaluate').send({});
+    expect(first.status).toBe(200);
+    expect(first.body.triggered.map((alert: { type: string }) => alert.type)).toEqual(['PRICE_ABOVE', 'POSITION_WEIGHT']);
+    expect(first.body.triggered[0].deliveries).toEqual([
+      { channel: 'webhook', status: 'sent' },
+      { channel: 'smtp', status: 'skipped', error: 'Channel not configured' }
+    ]);
+    expect(delivered).toHaveLength(2);
+
+    const second = await request(app).post('/api/alerts/evaluate').send({});
+    expect(second.body.triggered).toHaveLength(0);
+
+    const open = await request(app).get('/api/alerts');
+    expect(open.body.alerts).toHaveLength(2);
+    const acknowledged = await request(app).post(`/api/alerts/${open.body.alerts[0].id}/acknowledge`).send({});
+    expect(acknowledged.body.alert.acknowledged_at).toBeTruthy();
+    expect((await request(app).get('/api/alerts')).body.alerts).toHaveLength(1);
+    expect((await request(app).get('/api/alerts?status=all')).body.alerts).toHaveLength(2);
+  });
+
+  it('should refuse SMTP credentials without STARTTLS and fail when the server hangs up', async () => {
+    const net = await import('net');
+    const { SmtpChannel } = await import('../src/alerts/smtp');
+    const received: string[] = [];
+    // Answers EHLO without offering STARTTLS, then drops the connection on the next command.
+    const server = net.createServer((socket) => {
+      socket.write('220 localhost ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        const line = chunk.toString().trim();
+        received.push(line);
+        if (line.startsWith('EHLO')) {
+          socket.write('250-localhost\r\n250 AUTH LOGIN\r\n');
+        } else {
+          socket.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as { port: number }).port;
+    const alert = {
+      id: 1,
+      portfolio_id: 1,
+      rule_id: null,
+      ticker: 'AAPL',
+      market: 'NASDAQ',
+      type: 'PRICE_ABOVE',
+      threshold: 95,
+      value: 100,
+      message: 'AAPL above 95',
+      triggered_at: '2024-01-02 10:00:00'
+    };
+    const config = { host: '127.0.0.1', port, secure: false, from: 'a@localhost', to: ['b@localhost'] };
+
+    try {
+      await expect(
+        new SmtpChannel({ ...config, user: 'user', pass: 'secret' }).deliver(alert)
+      ).rejects.toThrow('refusing to send credentials unencrypted');
+      expect(received.some((line) => line.startsWith('AUTH'))).toBe(false);
+
+      await expect(new SmtpChannel(config).deliver(alert)).rejects.toThrow('SMTP server closed the connection');
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should run scheduled pre-warm jobs on demand and report their status', async () => {
+    const { createScheduler } = await import('../src/services/schedulerService');
+    const { createDefaultJobs } = await import('../src/services/jobService');
+    const providers = [createMockProvider({ getQuote: async () => ({ price: 42000, currency: 'USD', asOf: '2024-01-02' }) })];
+    const scheduler = createScheduler({ jobs: createDefaultJobs({ providers, alertChannels: [] }) });
+    const app = createApp({ providers, scheduler });
+    db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, 'BTC', 'BINANCE', '2024-01-01', 30000, 1)`
+    ).run();
+
+    const listed = await request(app).get('/api/jobs');
+    expect(listed.body.jobs.map((job: { name: string }) => job.name)).toEqual(
+      expect.arrayContaining(['refresh-quotes', 'backfill-history', 'refresh-fx', 'backfill-names'])
+    );
+    expect(listed.body.jobs[0].run_count).toBe(0);
+
+    const run = await request(app).post('/api/jobs/refresh-quotes/run');
+    expect(run.status).toBe(200);
+    expect(run.body.job).toMatchObject({ last_status: 'ok', run_count: 1 });
+    expect(run.body.job.last_result).toMatchObject({ symbols: 1, refreshed: 1, failed: 0 });
+    const cached = db.prepare(`SELECT price FROM quote_cache WHERE ticker = 'BTC'`).get() as { price: number };
+    expect(cached.price).toBe(42000);
+
+    const history = await request(app).post('/api/jobs/backfill-history/run');
+    expect(history.body.job.last_result).toMatchObject({ symbols: 1, updated: 1 });
+    expect(db.prepare(`SELECT COUNT(*) AS count FROM price_history WHERE ticker = 'BTC'`).get()).toEqual({ count: 2 });
+
+    expect((await request(app).post('/api/jobs/unknown/run')).status).toBe(404);
+
+    process.env.SCHEDULER_QUOTE_INTERVAL_SECONDS = '5m';
+    process.env.SCHEDULER_NIGHTLY_UTC = '25:00';
+    const fallbackJobs = createDefaultJobs({ providers, alertChannels: [] });
+    delete process.env.SCHEDULER_QUOTE_INTERVAL_SECONDS;
+    delete process.env.SCHEDULER_NIGHTLY_UTC;
+    expect(fallbackJobs.find((job) => job.name === 'refresh-quotes')?.schedule).toEqual({ everySeconds: 300 });
+    expect(fallbackJobs.find((job) => job.name === 'backfill-history')?.schedule).toEqual({ dailyAtUtc: '02:00' });
+  });
+
+  it('should follow exchange calendars for sessions, holidays and trading-day series', async () => {
+    const { getLastTradingDay, getMarketStatus, getNextOpen, getPreviousCloseDate, isMarketOpen } = await import(
+      '../src/services/calendarService'
+    );
+    expect(isMarketOpen('NYSE', new Date('2024-07-03T14:00:00Z'))).toBe(true);
+    expect(isMarketOpen('NYSE', new Date('2024-07-04T14:00:00Z'))).toBe(false);
+    expect(isMarketOpen('BINANCE', new Date('2024-07-06T03:00:00Z'))).toBe(true);
+    expect(getLastTradingDay('NASDAQ', new Date('2024-07-06T12:00:00Z'))).toBe('2024-07-05');
+    expect(getPreviousCloseDate(['NASDAQ'], new Date('2024-07-06T12:00:00Z'))).toBe('2024-07-03');
+    // Good Friday and Easter Monday closed, and London moves to BST over the weekend.
+    expect(getNextOpen('XLON', new Date('2024-03-28T17:00:00Z'))?.toISOString()).toBe('2024-04-02T07:00:00.000Z');
+    // Past the last listed year the calendar is reported as unknown, with one warning per calendar.
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(getMarketStatus('NYSE', new Date('2024-07-04T14:00:00Z')).calendar).toBe('listed');
+    expect(getMarketStatus('NYSE', new Date('2099-07-06T14:00:00Z')).calendar).toBe('unknown');
+    expect(getMarketStatus('NASDAQ', new Date('2099-07-06T14:00:00Z')).calendar).toBe('unknown');
+    expect(warn.mock.calls.filter(([message]) => String(message).includes('NYSE'))).toHaveLength(1);
+    warn.mockRestore();
+
+    const app = createApp({ providers: [createMockProvider()] });
+    db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, 'AAPL', 'NASDAQ', '2024-01-01', 80, 1)`
+    ).run();
+    const response = await request(app).get('/api/portfolio/performance?from=2024-01-01&to=2024-01-08&tradingDays=true');
+    expect(response.status).toBe(200);
+    expect(response.body.series.map((point: { date: string }) => point.date)).toEqual([
+      '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05', '2024-01-08'
+    ]);
+    expect(response.body.previous_close_date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it('should retry transient provider errors and open the circuit after repeated failures', async () => {
+    const { ProviderError } = await import('../src/providers/base');
+    const { governProvider, getProviderMetrics } = await import('../src/providers/governor');
+    process.env.PROVIDER_LIMITS = JSON.stringify({
+      FLAKY: { maxRetries: 2, retryBaseMs: 1, failureThreshold: 3, cooldownSeconds: 60 }
+    });
+    let calls = 0;
+    const provider = governProvider(
+      createMockProvider({
+        name: 'FLAKY',
+        getQuote: async () => {
+          calls += 1;
+          if (calls === 2 || calls > 3) throw new ProviderError('Too many requests', { code: 429 }, { transient: true });
+          if (calls === 3) throw new ProviderError('Symbol not found');
+          return { price: 10, currency: 'USD', asOf: '2024-01-02' };
+        }
+      })
+    );
+    delete process.env.PROVIDER_LIMITS;
+
+    await expect(provider.getQuote({ ticker: 'AAPL' })).resolves.toMatchObject({ price: 10 });
+    // The retry after the 429 hits a permanent error, which ends the call without further retries.
+    await expect(provider.getQuote({ ticker: 'AAPL' })).rejects.toThrow('Symbol not found');
+    expect(calls).toBe(3);
+    // Three transient failures in a row (one call plus two retries) open the circuit.
+    await expect(provider.getQuote({ ticker: 'AAPL' })).rejects.toThrow('Too many requests');
+    expect(calls).toBe(6);
+    await expect(provider.getQuote({ ticker: 'AAPL' })).rejects.toThrow('cooling down');
+    expect(calls).toBe(6);
+
+    const metrics = getProviderMetrics().find((entry) => entry.provider === 'FLAKY');
+    expect(metrics).toMatchObject({
+      circuit: 'open',
+      calls: 6,
+      successes: 1,
+      failures: 5,
+      transient_failures: 4,
+      retries: 3,
+      short_circuited: 1
+    });
+    expect(metrics?.last_error?.details).toEqual({ code: 429 });
+
+    // After the cool-down a single probe goes out; concurrent calls are turned away until it settles.
+    process.env.PROVIDER_LIMITS = JSON.stringify({
+      PROBED: { maxRetries: 0, failureThreshold: 1, cooldownSeconds: 0 },
+      BATCHED: { requestsPerMinute: 60, burst: 3, maxWaitMs: 0 },
+      CHUNKED: { requestsPerMinute: 6000, burst: 3, maxWaitMs: 1000 }
+    });
+    let release: () => void = () => undefined;
+    let probeCalls = 0;
+    const probed = governProvider(
+      createMockProvider({
+        name: 'PROBED',
+        getQuote: async () => {
+          probeCalls += 1;
+          if (probeCalls === 1) throw new ProviderError('Bad gateway', { code: 502 }, { transient: true });
+          if (probeCalls === 2) await new Promise<void>((resolve) => { release = resolve; });
+          return { price: 10, currency: 'USD', asOf: '2024-01-02' };
+        }
+      })
+    );
+    const batched = governProvider(
+      createMockProvider({
+        name: 'BATCHED',
+        getQuotes: async (params) => params.map(() => ({ price: 10, currency: 'USD', asOf: '2024-01-02' }))
+      })
+    );
+    const chunkSizes: number[] = [];
+    const chunked = governProvider(
+      createMockProvider({
+        name: 'CHUNKED',
+        getQuotes: async (params) => {
+          chunkSizes.push(params.length);
+          return params.map(() => ({ price: 10, currency: 'USD', asOf: '2024-01-02' }));
+        }
+      })
+    );
+    delete process.env.PROVIDER_LIMITS;
+
+    await expect(probed.getQuote({ ticker: 'AAPL' })).rejects.toThrow('Bad gateway');
+    const probe = probed.getQuote({ ticker: 'AAPL' });
+    await expect(probed.getQuote({ ticker: 'AAPL' })).rejects.toThrow('being probed');
+    release();
+    await expect(probe).resolves.toMatchObject({ price: 10 });
+    await expect(probed.getQuote({ ticker: 'AAPL' })).resolves.toMatchObject({ price: 10 });
+    expect(probeCalls).toBe(3);
+
+    // A batch of three symbols spends three tokens of the burst.
+    await expect(batched.getQuotes?.([{ ticker: 'A' }, { ticker: 'B' }, { ticker: 'C' }])).resolves.toHaveLength(3);
+    await expect(batched.getQuote({ ticker: 'A' })).rejects.toThrow('budget exhausted');
+
+    // More symbols than the burst go out in chunks the bucket can afford, waiting for refills in between.
+    const many = Array.from({ length: 8 }, (_, index) => ({ ticker: `S${index}` }));
+    const quotes = await chunked.getQuotes?.(many);
+    expect(quotes?.every((quote) => quote?.price === 10)).toBe(true);
+    expect(quotes).toHaveLength(8);
+    expect(chunkSizes[0]).toBe(3);
+    expect(Math.max(...chunkSizes)).toBeLessThanOrEqual(3);
+    expect(chunkSizes.reduce((sum, size) => sum + size, 0)).toBe(8);
+  });
+
+  it('should batch quotes per provider and share in-flight fetches between concurrent requests', async () => {
+    const requested: string[] = [];
+    const provider = createMockProvider({
+      getQuote: async ({ ticker }) => {
+        requested.push(ticker);
+        return { price: 100, currency: 'USD', asOf: '2024-01-02' };
+      },
+      getQuotes: async (params) => {
+        requested.push(params.map((item) => item.ticker).join(','));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return params.map((item) => (item.ticker === 'MSFT' ? null : { price: 120, currency: 'USD', asOf: '2024-01-02' }));
+      }
+    });
+    const app = createApp({ providers: [provider] });
+    const insert = db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, ?, 'NASDAQ', '2024-01-01', 80, 1)`
+    );
+    ['AAPL', 'AAPL', 'NVDA', 'MSFT'].forEach((ticker) => insert.run(ticker));
+
+    const [holdings, performance] = await Promise.all([
+      request(app).get('/api/holdings'),
+      request(app).get('/api/portfolio/performance?from=2024-01-01')
+    ]);
+    expect(holdings.status).toBe(200);
+    expect(performance.status).toBe(200);
+    // One batch for the three symbols; lots and the concurrent performance request reuse it.
+    expect(requested[0]).toBe('AAPL,NVDA,MSFT');
+    expect(requested.filter((entry) => entry.includes('AAPL') || entry.includes('NVDA'))).toHaveLength(1);
+    const sources = holdings.body.holdings.map(
+      (holding: { ticker: string; latest_quote: { price: number } }) => [holding.ticker, holding.latest_quote.price]
+    );
+    expect(sources).toEqual(expect.arrayContaining([['AAPL', 120], ['NVDA', 120]]));
+  });
+
+  it('should fetch only the history gaps that no earlier request covered', async () => {
+    const { getHistory } = await import('../src/services/marketDataService');
+    const fetched: Array<{ from: string | null; to: string | null }> = [];
+    const provider = createMockProvider({
+      getHistory: async ({ from, to }) => {
+        fetched.push({ from, to });
+        const rows = [];
+        const day = new Date(`${from}T00:00:00Z`);
+        for (; day <= new Date(`${to}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+          if (day.getUTCDay() % 6 === 0) continue;
+          rows.push({ date: day.toISOString().slice(0, 10), price: 100, currency: 'USD' });
+        }
+        return rows;
+      }
+    });
+    const load = (from: string, to: string) =>
+      getHistory({ ticker: 'AAPL', market: 'NASDAQ', from, to, interval: '1d', providers: [provider] });
+
+    await load('2024-01-08', '2024-01-12');
+    const widened = await load('2024-01-01', '2024-01-21');
+    expect(fetched).toEqual([
+      { from: '2024-01-08', to: '2024-01-12' },
+      { from: '2024-01-01', to: '2024-01-07' },
+      { from: '2024-01-13', to: '2024-01-21' }
+    ]);
+    expect(widened.rows[0].date).toBe('2024-01-01');
+    expect(widened.rows[widened.rows.length - 1].date).toBe('2024-01-19');
+
+    // Adjacent ranges merge, and a window of weekend days alone needs no fetch.
+    const ranges = db.prepare('SELECT range_from, range_to FROM history_ranges').all();
+    expect(ranges).toEqual([{ range_from: '2024-01-01', range_to: '2024-01-21' }]);
+    const cached = await load('2024-01-06', '2024-01-21');
+    const weekend = await load('2024-01-27', '2024-01-28');
+    expect(cached.source).toBe('CACHE');
+    expect(weekend.rows).toEqual([]);
+    expect(fetched).toHaveLength(3);
+  });
+
+  it('should report cache hit rates and symbols priced from fallbacks', async () => {
+    const { ProviderError } = await import('../src/providers/base');
+    const { resetDiagnostics } = await import('../src/services/diagnosticsService');
+    resetDiagnostics();
+    let online = false;
+    const provider = createMockProvider({
+      getQuote: async () => {
+        if (!online) throw new ProviderError('Quote fetch failed', { status: 503 });
+        return { price: 130, currency: 'USD', asOf: '2024-01-03' };
+      }
+    });
+    const app = createApp({ providers: [provider] });
+    const insert = db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, ?, 'NASDAQ', '2024-01-01', 80, 1)`
+    );
+    ['AAPL', 'MSFT'].forEach((ticker) => insert.run(ticker));
+    db.prepare(
+      `INSERT INTO quote_cache (ticker, market, price, currency, as_of, source, fetched_at, expires_at)
+       VALUES ('AAPL', 'NASDAQ', 120, 'USD', '2024-01-02', 'TWELVE_DATA', datetime('now', '-2 days'), datetime('now', '-1 day'))`
+    ).run();
+
+    await request(app).get('/api/holdings');
+    const degraded = await request(app).get('/api/diagnostics');
+    expect(degraded.status).toBe(200);
+    expect(degraded.body.fallbacks).toEqual([
+      expect.objectContaining({ ticker: 'AAPL', kind: 'STALE_QUOTE', source: 'TWELVE_DATA', as_of: '2024-01-02' }),
+      expect.objectContaining({ ticker: 'MSFT', kind: 'BUY_PRICE_FALLBACK', as_of: '2024-01-01' })
+    ]);
+    expect(degraded.body.caches).toContainEqual({ cache: 'quotes', hits: 0, misses: 2, hit_rate: 0 });
+
+    online = true;
+    await request(app).get('/api/holdings');
+    await request(app).get('/api/holdings');
+    const recovered = await request(app).get('/api/diagnostics');
+    expect(recovered.body.fallbacks).toEqual([]);
+    expect(recovered.body.caches).toContainEqual({ cache: 'quotes', hits: 2, misses: 4, hit_rate: 0.333 });
+    expect(Array.isArray(recovered.body.providers)).toBe(true);
+  });
+
+  it('should route providers per market from the registry and honour MARKETS_CONFIG', async () => {
+    const asked: string[] = [];
+    const named = (name: string) =>
+      createMockProvider({
+        name,
+        searchSymbol: async ({ ticker, market }) => {
+          asked.push(`${name}:${ticker}@${market}`);
+          if (name !== 'TWELVE_DATA' || ticker !== 'CDP') return null;
+          return { ticker, market: market ?? '', name: 'CD Projekt', currency: 'PLN', exchange: 'XWAR' };
+        }
+      });
+    const app = createApp({ providers: [named('TWELVE_DATA'), named('CUSTOM'), named('STOOQ')] });
+
+    const exchanges = await request(app).get('/api/exchanges');
+    const xwar = exchanges.body.exchanges.find((exchange: { code: string }) => exchange.code === 'XWAR');
+    expect(xwar.providers.map((route: { provider: string }) => route.provider)).toEqual(['STOOQ', 'TWELVE_DATA', 'YAHOO']);
+
+    // Registry order for XWAR, then providers the registry does not know.
+    const validation = await request(app).post('/api/validate').send({ ticker: 'CDP', market: 'XWAR' });
+    expect(validation.body).toMatchObject({ valid: true, source: 'TWELVE_DATA' });
+    expect(asked).toEqual(['STOOQ:CDP@XWAR', 'TWELVE_DATA:CDP@XWAR']);
+    asked.length = 0;
+    await request(app).post('/api/validate').send({ ticker: 'SAP', market: 'XPAR' });
+    expect(asked).toEqual(['TWELVE_DATA:SAP@XPAR', 'CUSTOM:SAP@XPAR']);
+
+    const fs = await import('fs');
+    const os = await import('os');
+    const path = await import('path');
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'markets-')), 'markets.json');
+    fs.writeFileSync(file, JSON.stringify({
+      markets: [{ code: 'XLON', providers: [{ provider: 'YAHOO', symbol: '{ticker}.L' }, { provider: 'TWELVE_DATA' }] }]
+    }));
+    process.env.MARKETS_CONFIG = file;
+    vi.resetModules();
+    const registry = await import('../src/config/markets');
+    delete process.env.MARKETS_CONFIG;
+    expect(registry.getMarketDefinition('XLON')).toMatchObject({ currency: 'GBP', timeZone: 'Europe/London' });
+    expect(registry.routeProviders([{ name: 'STOOQ' }, { name: 'TWELVE_DATA' }, { name: 'YAHOO' }], 'XLON')).toEqual([
+      { name: 'YAHOO' },
+      { name: 'TWELVE_DATA' }
+    ]);
+    expect(registry.toProviderSymbol('YAHOO', 'LSE', 'VOD')).toEqual({ ticker: 'VOD.L', market: 'XLON' });
+  });
+
+  it('should search, quote and load history from Yahoo chart fixtures', async () => {
+    const fs = await import('fs');
+    const { YahooProvider } = await import('../src/providers/yahoo');
+    const { toProviderSymbol } = await import('../src/config/markets');
+    const { createProviderChain } = await import('../src/providers');
+    const fixture = (name: string) => fs.readFileSync(new URL(`./fixtures/yahoo/${name}.json`, import.meta.url), 'utf-8');
+    const urls: string[] = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      urls.push(url);
+      if (url.includes('/search?')) return new Response(fixture('search-CDR.WA'));
+      if (url.includes('/chart/VOD.L?')) return new Response(fixture('chart-VOD.L-quote'));
+      if (url.includes('/chart/CDR.WA?')) return new Response(fixture('chart-CDR.WA-history'));
+      return new Response(fixture('chart-not-found'), { status: 404 });
+    });
+
+    try {
+      const provider = new YahooProvider();
+      const symbol = toProviderSymbol('YAHOO', 'XWAR', 'CDR');
+      expect(symbol).toEqual({ ticker: 'CDR.WA', market: 'XWAR' });
+      await expect(provider.searchSymbol(symbol)).resolves.toMatchObject({ ticker: 'CDR.WA', name: 'CD Projekt S.A.' });
+
+      // London quotes come in pence.
+      const quote = await provider.getQuote(toProviderSymbol('YAHOO', 'XLON', 'VOD'));
+      expect(quote).toEqual({ price: 0.7352, currency: 'GBP', asOf: '2024-05-31T16:00:00.000Z' });
+
+      const history = await provider.getHistory({ ...symbol, from: '2024-01-08', to: '2024-01-11', interval: '1d' });
+      expect(history.map((row) => row.date)).toEqual(['2024-01-08', '2024-01-09', '2024-01-11']);
+      expect(history[0]).toEqual({ date: '2024-01-08', price: 115, currency: 'PLN' });
+      expect(urls[urls.length - 1]).toContain(`period1=${Date.parse('2024-01-08') / 1000}`);
+
+      await expect(provider.getQuote({ ticker: 'NOPE.WA' })).rejects.toMatchObject({
+        message: 'Quote fetch failed',
+        transient: false,
+        details: { code: 'Not Found', description: 'No data found, symbol may be delisted' }
+      });
+
+      process.env.PROVIDER = 'YAHOO';
+      expect(createProviderChain().map((item) => item.name)).toEqual(['YAHOO', 'BINANCE', 'STOOQ']);
+    } finally {
+      delete process.env.PROVIDER;
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should price BINANCE pairs from Binance ticker, klines and exchangeInfo fixtures', async () => {
+    const fs = await import('fs');
+    const { BinanceProvider } = await import('../src/providers/binance');
+    const { routeProviders } = await import('../src/config/markets');
+    const fixture = (name: string) => fs.readFileSync(new URL(`./fixtures/binance/${name}.json`, import.meta.url), 'utf-8');
+    const urls: string[] = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      urls.push(url);
+      if (url.includes('/exchangeInfo?symbol=ETHBTC')) return new Response(fixture('exchangeInfo-ETHBTC'));
+      if (url.includes('/ticker/24hr?symbol=BTCUSDT')) return new Response(fixture('ticker-24hr-BTCUSDT'));
+      if (url.includes('/klines?symbol=BTCUSDT')) return new Response(fixture('klines-BTCUSDT-1d'));
+      return new Response(fixture('invalid-symbol'), { status: 400 });
+    });
+
+    try {
+      const binance = new BinanceProvider();
+      const providers = [createMockProvider({ name: 'TWELVE_DATA' }), binance];
+      expect(routeProviders(providers, 'BINANCE').map((provider) => provider.name)).toEqual(['BINANCE', 'TWELVE_DATA']);
+      expect(routeProviders(providers, 'NASDAQ').map((provider) => provider.name)).toEqual(['TWELVE_DATA']);
+
+      const app = createApp({ providers: [binance] });
+      const validation = await request(app).post('/api/validate').send({ ticker: 'ETH/BTC', market: 'BINANCE' });
+      expect(validation.body).toMatchObject({
+        valid: true,
+        source: 'BINANCE',
+        symbol: { ticker: 'ETH/BTC', market: 'BINANCE', currency: 'BTC' }
+      });
+      await expect(binance.searchSymbol({ ticker: 'FOO/USDT' })).resolves.toBeNull();
+
+      await expect(binance.getQuote({ ticker: 'BTC/USDT' })).resolves.toEqual({
+        price: 45932.78,
+        currency: 'USDT',
+        asOf: '2024-01-10T23:59:59.999Z'
+      });
+      const history = await binance.getHistory({ ticker: 'BTC/USDT', from: '2024-01-08', to: '2024-01-10', interval: '1d' });
+      expect(history).toEqual([
+        { date: '2024-01-08', price: 46951.04, currency: 'USDT' },
+        { date: '2024-01-09', price: 46110, currency: 'USDT' },
+        { date: '2024-01-10', price: 46653.99, currency: 'USDT' }
+      ]);
+      expect(urls[urls.length - 1]).toContain(`startTime=${Date.parse('2024-01-08')}&endTime=${Date.parse('2024-01-11') - 1}`);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should value crypto pairs in their quote asset and convert it through its USDT pair', async () => {
+    const prices: Record<string, number> = { 'ETH/BTC': 0.05, 'BTC/USDT': 40000 };
+    const provider = createMockProvider({
+      getQuote: async ({ ticker }) => ({
+        price: prices[ticker],
+        currency: ticker.split('/')[1],
+        asOf: '2024-01-03'
+      }),
+      getHistory: async ({ ticker }) =>
+        ticker === 'BTC/USDT' ? [{ date: '2024-01-02', price: 42000, currency: 'USDT' }] : []
+    });
+    const app = createApp({ providers: [provider] });
+    db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, 'ETH/BTC', 'BINANCE', '2024-01-02', 0.04, 10)`
+    ).run();
+
+    const response = await request(app).get('/api/holdings?currency=USD');
+    expect(response.status).toBe(200);
+    const [holding] = response.body.holdings;
+    expect(holding).toMatchObject({
+      native_currency: 'BTC',
+      native_buy_price: 0.04,
+      latest_quote: { price: 2000, currency: 'USD' }
+    });
+    expect(holding.market_value).toBeCloseTo(20000);
+    expect(holding.buy_price).toBeCloseTo(1680);
+  });
+
+  it('should value manual and accrual instruments and break holdings down by asset class', async () => {
+    const { getAccruedValue } = await import('../src/services/instrumentService');
+    let providerQuotes = 0;
+    const provider = createMockProvider({
+      getQuote: async () => {
+        providerQuotes += 1;
+        return { price: 100, currency: 'EUR', asOf: '2024-01-02' };
+      },
+      getExchangeRate: async () => ({ rate: 4 }),
+      getExchangeRateHistory: async () => []
+    });
+    const app = createApp({ providers: [provider] });
+
+    const edo = await request(app).post('/api/instruments').send({
+      ticker: 'EDO0534',
+      market: 'MANUAL',
+      name: 'EDO 10-year bond',
+      asset_class: 'bond',
+      currency: 'PLN',
+      pricing: 'ACCRUAL',
+      face_value: 100,
+      issue_date: '2024-05-01'
+    });
+    expect(edo.status).toBe(201);
+    await request(app).post(`/api/instruments/${edo.body.instrument.id}/rates`).send({ from_date: '2024-05-01', rate: 0.068 });
+    await request(app).post(`/api/instruments/${edo.body.instrument.id}/rates`).send({ from_date: '2025-05-01', rate: 0.05 });
+
+    const fund = await request(app).post('/api/instruments').send({
+      ticker: 'PKO-AKCJI',
+      market: 'MANUAL',
+      name: 'PKO Akcji Plus',
+      asset_class: 'fund',
+      currency: 'PLN',
+      pricing: 'MANUAL'
+    });
+    await request(app).post(`/api/instruments/${fund.body.instrument.id}/prices`).send({ date: '2024-01-02', price: 150 });
+    await request(app).post(`/api/instruments/${fund.body.instrument.id}/prices`).send({ date: '2024-06-03', price: 160 });
+    await request(app).post('/api/instruments').send({ ticker: '4GLD', market: 'XETR', asset_class: 'commodity' });
+    const rejected = await request(app).post('/api/instruments').send({
+      ticker: 'COI0528',
+      market: 'MANUAL',
+      asset_class: 'bond',
+      currency: 'PLN',
+      pricing: 'ACCRUAL'
+    });
+    expect(rejected.status).toBe(400);
+
+    // Manual instruments validate from their registration, without asking a provider.
+    const purchases = [
+      { ticker: 'EDO0534', buy_date: '2024-05-01', buy_price: 100, quantity: 10 },
+      { ticker: 'pko-akcji', buy_date: '2024-01-02', buy_price: 150, quantity: 2 }
+    ];
+    for (const purchase of purchases) {
+      const created = await request(app).post('/api/holdings').send({ ...purchase, market: 'MANUAL' });
+      expect(created.status).toBe(201);
+    }
+    db.prepare(
+      `INSERT INTO holdings (portfolio_id, ticker, market, buy_date, buy_price, quantity)
+       VALUES (1, '4GLD', 'XETR', '2024-01-02', 90, 1)`
+    ).run();
+
+    const response = await request(app).get('/api/holdings?currency=PLN');
+    expect(response.status).toBe(200);
+    const bySymbol = new Map(response.body.holdings.map((holding: { ticker: string }) => [holding.ticker, holding]));
+    const edoPricing = await request(app).get(`/api/instruments/${edo.body.instrument.id}/prices`);
+    const { instrument: edoRow, rates } = edoPricing.body;
+    const today = new Date().toISOString().slice(0, 10);
+    expect(bySymbol.get('EDO0534')).toMatchObject({
+      asset_class: 'bond',
+      company_name: 'EDO 10-year bond',
+      native_currency: 'PLN',
+      latest_quote: { source: 'ACCRUAL', currency: 'PLN' }
+    });
+    expect((bySymbol.get('EDO0534') as { market_value: number }).market_value).toBeCloseTo(
+      10 * getAccruedValue(edoRow, rates, today)
+    );
+    expect(bySymbol.get('PKO-AKCJI')).toMatchObject({ asset_class: 'fund', market_value: 320 });
+    expect(bySymbol.get('4GLD')).toMatchObject({ asset_class: 'commodity', market_value: 400 });
+    expect(providerQuotes).toBe(1);
+    expect(response.body.allocation.map((slice: { asset_class: string }) => slice.asset_class).sort()).toEqual([
+      'bond',
+      'commodity',
+      'fund'
+    ]);
+    const weights = response.body.allocation.reduce((sum: number, slice: { weight: number }) => sum + slice.weight, 0);
+    expect(weights).toBeCloseTo(1);
+
+    // EDO capitalizes 6.8% after the first year and accrues 5% through the second.
+    expect(getAccruedValue(edoRow, rates, '2025-11-01')).toBeCloseTo(106.8 * (1 + (0.05 * 184) / 365));
+    // COI-style bonds pay the interest out instead, so each year accrues on the face value again.
+    expect(getAccruedValue({ ...edoRow, capitalization: 'NONE' }, rates, '2025-11-01')).toBeCloseTo(
+      100 * (1 + (0.05 * 184) / 365)
+    );
+
+    const performance = await request(app).get('/api/portfolio/performance?currency=PLN&from=2024-06-01&to=2024-06-04');
+    expect(performance.status).toBe(200);
+    const last = performance.body.series[performance.body.series.length - 1];
+    expect(last.date).toBe('2024-06-04');
+    expect(last.value).toBeCloseTo(1000 * (1 + (0.068 * 34) / 365) + 320 + 400);
+  });
 });
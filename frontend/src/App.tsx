@@ -12,20 +12,48 @@ import {
 } from 'chart.js';
 import { Doughnut, Line } from 'react-chartjs-2';
 import {
+  acknowledgeAlert,
+  createBenchmark,
   createHolding,
   createPortfolio,
+  deleteBenchmark,
   deleteHolding,
+  deleteInstrument,
+  deletePortfolio,
+  getAlerts,
+  getDiagnostics,
   getExchanges,
+  getExportUrl,
   getHoldings,
+  getInstruments,
   getPerformance,
   getPortfolios,
+  getReturns,
+  recordInstrumentValue,
   refreshData,
+  saveInstrument,
+  setPortfolioArchived,
+  updateHolding,
+  updatePortfolio,
   validateSymbol,
+  AllocationSlice,
+  AssetClass,
+  BenchmarkSeries,
+  CashBalance,
+  Diagnostics,
   ExchangeDefinition,
+  ExportFormat,
+  ExportKind,
   Holding,
   HoldingInput,
+  Instrument,
+  InstrumentInput,
   Portfolio,
   PerformancePoint,
+  PortfolioReturns,
+  PortfolioScope,
+  PortfolioSubtotal,
+  PriceAlert,
   ValidationResult
 } from './api';
 
@@ -50,6 +78,41 @@ const defaultForm: HoldingInput = {
   quantity: 0
 };
 
+const ASSET_CLASS_LABELS: Record<AllocationSlice['asset_class'], string> = {
+  equity: 'Equities',
+  etf: 'ETFs',
+  bond: 'Bonds',
+  fund: 'Funds',
+  commodity: 'Commodities',
+  cash_equivalent: 'Cash equivalents',
+  crypto: 'Crypto',
+  cash: 'Cash'
+};
+
+const defaultInstrumentForm: InstrumentInput = {
+  ticker: '',
+  market: 'MANUAL',
+  name: '',
+  asset_class: 'fund',
+  currency: 'PLN',
+  pricing: 'MANUAL'
+};
+
+const BENCHMARK_TONES = ['#f97316', '#7c3aed', '#0ea5e9', '#db2777'];
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+const PORTFOLIO_DATA_LABELS: Record<string, string> = {
+  holdings: 'holdings',
+  transactions: 'transactions',
+  dividends: 'dividends',
+  cash_accounts: 'cash accounts',
+  cash_movements: 'cash movements',
+  alert_rules: 'alert rules',
+  alerts: 'alerts',
+  portfolio_benchmarks: 'benchmarks'
+};
+
 const normalizeMoney = (value: number) => (Math.abs(value) < 0.005 ? 0 : value);
 const PORTFOLIO_STORAGE_KEY = 'portfolio_atlas_portfolio_id';
 
@@ -59,6 +122,9 @@ const formatMoney = (value: number, currency: string) => {
   return display.toLocaleString(undefined, { style: 'currency', currency, maximumFractionDigits: 2 });
 };
 
+const formatPercent = (value: number) =>
+  `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
 const formatAxisCurrency = (value: string | number, currency: string) => {
   const numeric = typeof value === 'string' ? Number(value) : value;
   if (!Number.isFinite(numeric)) return '';
@@ -71,7 +137,20 @@ const formatAxisCurrency = (value: string | number, currency: string) => {
 
 const App = () => {
   const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [cash, setCash] = useState<CashBalance[]>([]);
   const [series, setSeries] = useState<PerformancePoint[]>([]);
+  const [returns, setReturns] = useState<PortfolioReturns | null>(null);
+  const [benchmarks, setBenchmarks] = useState<BenchmarkSeries[]>([]);
+  const [previousCloseDate, setPreviousCloseDate] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [showStatus, setShowStatus] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [showBenchmarks, setShowBenchmarks] = useState(true);
+  const [benchmarkForm, setBenchmarkForm] = useState({ ticker: '', market: 'XETR' });
+  const [addingBenchmark, setAddingBenchmark] = useState(false);
+  const [editingLotId, setEditingLotId] = useState<number | null>(null);
+  const [lotDraft, setLotDraft] = useState({ buy_date: '', buy_price: '', quantity: '' });
+  const [savingLot, setSavingLot] = useState(false);
   const [exchanges, setExchanges] = useState<ExchangeDefinition[]>([]);
   const [form, setForm] = useState<HoldingInput>(defaultForm);
   const [loading, setLoading] = useState(true);
@@ -88,11 +167,25 @@ const App = () => {
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
   const [activePortfolioId, setActivePortfolioId] = useState<number | null>(null);
+  const [showAllPortfolios, setShowAllPortfolios] = useState(false);
+  const [portfolioSubtotals, setPortfolioSubtotals] = useState<PortfolioSubtotal[]>([]);
+  const [allocationMode, setAllocationMode] = useState<'market' | 'class' | 'portfolio'>('market');
+  const [assetAllocation, setAssetAllocation] = useState<AllocationSlice[]>([]);
+  const [showInstruments, setShowInstruments] = useState(false);
+  const [instruments, setInstruments] = useState<Instrument[]>([]);
+  const [instrumentForm, setInstrumentForm] = useState<InstrumentInput>(defaultInstrumentForm);
+  const [instrumentValues, setInstrumentValues] = useState<Record<number, { date: string; value: string }>>({});
   const [portfolioReady, setPortfolioReady] = useState(false);
   const [showPortfolioForm, setShowPortfolioForm] = useState(false);
   const [creatingPortfolio, setCreatingPortfolio] = useState(false);
   const [portfolioName, setPortfolioName] = useState('');
   const [portfolioCurrency, setPortfolioCurrency] = useState<BaseCurrency>('PLN');
+  const [editingPortfolio, setEditingPortfolio] = useState(false);
+  const [portfolioDraft, setPortfolioDraft] = useState<{ name: string; base_currency: BaseCurrency }>({
+    name: '',
+    base_currency: 'PLN'
+  });
+  const [savingPortfolio, setSavingPortfolio] = useState(false);
 
   const getPeriodRange = (period: ChartPeriod) => {
     if (period === 'ALL') return { from: undefined, to: undefined };
@@ -114,7 +207,7 @@ const App = () => {
     return { from, to: end };
   };
 
-  const loadData = async (period: ChartPeriod, currency: BaseCurrency, portfolioId: number) => {
+  const loadData = async (period: ChartPeriod, currency: BaseCurrency, portfolioId: PortfolioScope) => {
     try {
       setLoading(true);
       let loadError: string | null = null;
@@ -122,25 +215,41 @@ const App = () => {
       setExchanges(exchangeData);
 
       const { from, to } = getPeriodRange(period);
-      const [holdingsResult, seriesResult] = await Promise.allSettled([
+      const [holdingsResult, seriesResult, returnsResult, alertsResult] = await Promise.allSettled([
         getHoldings(currency, portfolioId),
-        getPerformance(from, to, currency, portfolioId)
+        getPerformance(from, to, currency, portfolioId),
+        // Returns and alerts are per portfolio; the aggregate view only sums values.
+        portfolioId === 'all' ? Promise.resolve(null) : getReturns(from, to, currency, portfolioId),
+        portfolioId === 'all' ? Promise.resolve([]) : getAlerts(portfolioId)
       ]);
 
       if (holdingsResult.status === 'fulfilled') {
-        setHoldings(holdingsResult.value);
+        setHoldings(holdingsResult.value.holdings);
+        setCash(holdingsResult.value.cash ?? []);
+        setPortfolioSubtotals(holdingsResult.value.portfolios ?? []);
+        setAssetAllocation(holdingsResult.value.allocation ?? []);
       } else {
         setHoldings([]);
+        setCash([]);
+        setPortfolioSubtotals([]);
+        setAssetAllocation([]);
         loadError = 'Holdings failed to load. Check provider settings.';
       }
 
       if (seriesResult.status === 'fulfilled') {
-        setSeries(seriesResult.value);
+        setSeries(seriesResult.value.series);
+        setBenchmarks(seriesResult.value.benchmarks);
+        setPreviousCloseDate(seriesResult.value.previous_close_date);
       } else {
         setSeries([]);
+        setBenchmarks([]);
+        setPreviousCloseDate(null);
         loadError = 'Performance failed to load. Check provider settings.';
       }
 
+      setReturns(returnsResult.status === 'fulfilled' ? returnsResult.value : null);
+      setAlerts(alertsResult.status === 'fulfilled' ? alertsResult.value : []);
+
       setError(loadError);
 
       if (!form.market && exchangeData.length) {
@@ -153,6 +262,119 @@ const App = () => {
     }
   };
 
+  const portfolioScope: PortfolioScope | null = showAllPortfolios ? 'all' : activePortfolioId;
+
+  const reloadData = async () => {
+    if (portfolioScope) {
+      await loadData(chartPeriod, baseCurrency, portfolioScope);
+    }
+  };
+
+  const renderExportLinks = (kind: ExportKind) => {
+    if (!portfolioScope) return null;
+    const range = kind === 'performance' ? getPeriodRange(chartPeriod) : {};
+    return (
+      <div className="export-links">
+        <span>Export</span>
+        {EXPORT_FORMATS.map((format) => (
+          <a
+            key={format}
+            href={getExportUrl(kind, format, { ...range, currency: baseCurrency, portfolioId: portfolioScope })}
+            download
+          >
+            {format.toUpperCase()}
+          </a>
+        ))}
+      </div>
+    );
+  };
+
+  const handleAcknowledgeAlert = async (alert: PriceAlert) => {
+    try {
+      await acknowledgeAlert(alert.id, alert.portfolio_id);
+      setAlerts((prev) => prev.filter((item) => item.id !== alert.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to acknowledge alert');
+    }
+  };
+
+  const loadDiagnostics = async () => {
+    try {
+      setDiagnostics(await getDiagnostics());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load data status');
+    }
+  };
+
+  const handleToggleStatus = () => {
+    if (!showStatus) loadDiagnostics();
+    setShowStatus((prev) => !prev);
+  };
+
+  const loadInstruments = async () => {
+    try {
+      setInstruments(await getInstruments());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load instruments');
+    }
+  };
+
+  const handleToggleInstruments = () => {
+    if (!showInstruments) loadInstruments();
+    setShowInstruments((prev) => !prev);
+  };
+
+  const handleSaveInstrument = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const isAccrual = instrumentForm.pricing === 'ACCRUAL';
+      await saveInstrument({
+        ...instrumentForm,
+        name: instrumentForm.name || undefined,
+        currency: instrumentForm.pricing === 'PROVIDER' ? undefined : instrumentForm.currency,
+        face_value: isAccrual ? instrumentForm.face_value : undefined,
+        issue_date: isAccrual ? instrumentForm.issue_date : undefined,
+        capitalization: isAccrual ? instrumentForm.capitalization : undefined
+      });
+      setInstrumentForm(defaultInstrumentForm);
+      await loadInstruments();
+      await reloadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save instrument');
+    }
+  };
+
+  const handleRecordInstrumentValue = async (instrument: Instrument) => {
+    const draft = instrumentValues[instrument.id];
+    const value = Number(draft?.value);
+    if (!draft?.date || !Number.isFinite(value)) {
+      setError('Enter a date and a value.');
+      return;
+    }
+    try {
+      // Rates are typed as percentages and stored as decimals.
+      await recordInstrumentValue(instrument, {
+        date: draft.date,
+        value: instrument.pricing === 'ACCRUAL' ? value / 100 : value
+      });
+      setInstrumentValues((prev) => ({ ...prev, [instrument.id]: { date: '', value: '' } }));
+      await reloadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record value');
+    }
+  };
+
+  const handleDeleteInstrument = async (instrument: Instrument) => {
+    if (!window.confirm(`Remove ${instrument.ticker} and its recorded prices?`)) return;
+    try {
+      await deleteInstrument(instrument.id);
+      await loadInstruments();
+      await reloadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove instrument');
+    }
+  };
+
   const handleRefresh = async () => {
     try {
       setRefreshing(true);
@@ -161,8 +383,13 @@ const App = () => {
         return;
       }
       const { from, to } = getPeriodRange(chartPeriod);
-      await refreshData(from, to, baseCurrency, activePortfolioId);
-      await loadData(chartPeriod, baseCurrency, activePortfolioId);
+      const targets = showAllPortfolios
+        ? portfolios.filter((portfolio) => !portfolio.archived_at).map((portfolio) => portfolio.id)
+        : [activePortfolioId];
+      for (const portfolioId of targets) {
+        await refreshData(from, to, baseCurrency, portfolioId);
+      }
+      await reloadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Refresh failed');
     } finally {
@@ -171,6 +398,12 @@ const App = () => {
   };
 
   const handlePortfolioChange = (value: string) => {
+    if (value === 'all') {
+      setShowAllPortfolios(true);
+      setEditingPortfolio(false);
+      return;
+    }
+    setShowAllPortfolios(false);
     const nextId = Number(value);
     const selected = portfolios.find((portfolio) => portfolio.id === nextId);
     setActivePortfolioId(nextId);
@@ -181,6 +414,94 @@ const App = () => {
     }
   };
 
+  const selectPortfolio = (portfolio: Portfolio) => {
+    const nextCurrency = portfolio.base_currency.toUpperCase() as BaseCurrency;
+    setActivePortfolioId(portfolio.id);
+    setBaseCurrency(nextCurrency);
+    setPortfolioCurrency(nextCurrency);
+  };
+
+  // The active portfolio was archived or deleted: move to another open one, creating one if none is left.
+  const selectFallbackPortfolio = async (remaining: Portfolio[], removedId: number) => {
+    const fallback = remaining.find((portfolio) => portfolio.id !== removedId && !portfolio.archived_at);
+    if (fallback) {
+      selectPortfolio(fallback);
+      return;
+    }
+    localStorage.removeItem(PORTFOLIO_STORAGE_KEY);
+    const created = await createPortfolio({ name: 'Main Portfolio', base_currency: baseCurrency });
+    setPortfolios([...remaining, created]);
+    selectPortfolio(created);
+  };
+
+  const activePortfolio = portfolios.find((portfolio) => portfolio.id === activePortfolioId);
+
+  const startEditingPortfolio = () => {
+    if (!activePortfolio) return;
+    setShowPortfolioForm(false);
+    setPortfolioDraft({
+      name: activePortfolio.name,
+      base_currency: activePortfolio.base_currency.toUpperCase() as BaseCurrency
+    });
+    setEditingPortfolio(true);
+  };
+
+  const handleUpdatePortfolio = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!activePortfolio || !portfolioDraft.name.trim()) return;
+    setSavingPortfolio(true);
+    try {
+      const updated = await updatePortfolio(activePortfolio.id, {
+        name: portfolioDraft.name.trim(),
+        base_currency: portfolioDraft.base_currency
+      });
+      setPortfolios((prev) => prev.map((portfolio) => (portfolio.id === updated.id ? updated : portfolio)));
+      selectPortfolio(updated);
+      setEditingPortfolio(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update portfolio');
+    } finally {
+      setSavingPortfolio(false);
+    }
+  };
+
+  const handleToggleArchive = async () => {
+    if (!activePortfolio) return;
+    const archiving = !activePortfolio.archived_at;
+    try {
+      const updated = await setPortfolioArchived(activePortfolio.id, archiving);
+      const next = portfolios.map((portfolio) => (portfolio.id === updated.id ? updated : portfolio));
+      setPortfolios(next);
+      setEditingPortfolio(false);
+      if (archiving) {
+        await selectFallbackPortfolio(next, updated.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to archive portfolio');
+    }
+  };
+
+  const handleDeletePortfolio = async () => {
+    if (!activePortfolio) return;
+    if (!window.confirm(`Delete "${activePortfolio.name}"?`)) return;
+    try {
+      const result = await deletePortfolio(activePortfolio.id);
+      if (!result.deleted) {
+        const contents = Object.entries(result.data ?? {})
+          .map(([table, count]) => `${count} ${PORTFOLIO_DATA_LABELS[table] ?? table}`)
+          .join(', ');
+        if (!window.confirm(`"${activePortfolio.name}" still has ${contents}. Delete all of it too?`)) return;
+        await deletePortfolio(activePortfolio.id, true);
+      }
+      const remaining = portfolios.filter((portfolio) => portfolio.id !== activePortfolio.id);
+      setPortfolios(remaining);
+      setEditingPortfolio(false);
+      await selectFallbackPortfolio(remaining, activePortfolio.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete portfolio');
+    }
+  };
+
   const handleCreatePortfolio = async (event: React.FormEvent) => {
     event.preventDefault();
     const name = portfolioName.trim();
@@ -205,7 +526,7 @@ const App = () => {
   useEffect(() => {
     const bootstrap = async () => {
       try {
-        const portfolioList = await getPortfolios();
+        const portfolioList = await getPortfolios(true);
         let updated = portfolioList;
         let selected: Portfolio | undefined;
         const storedId = Number(localStorage.getItem(PORTFOLIO_STORAGE_KEY) || '');
@@ -214,8 +535,8 @@ const App = () => {
           selected = portfolioList.find((p) => p.id === storedId);
         }
 
-        if (!selected && portfolioList.length) {
-          selected = portfolioList[0];
+        if (!selected) {
+          selected = portfolioList.find((p) => !p.archived_at);
         }
 
         if (!selected) {
@@ -238,9 +559,9 @@ const App = () => {
   }, []);
 
   useEffect(() => {
-    if (!portfolioReady || !activePortfolioId) return;
-    loadData(chartPeriod, baseCurrency, activePortfolioId);
-  }, [chartPeriod, baseCurrency, activePortfolioId, portfolioReady]);
+    if (!portfolioReady || !portfolioScope) return;
+    loadData(chartPeriod, baseCurrency, portfolioScope);
+  }, [chartPeriod, baseCurrency, portfolioScope, portfolioReady]);
 
   useEffect(() => {
     if (activePortfolioId) {
@@ -287,15 +608,36 @@ const App = () => {
   }, [form.ticker, form.market]);
 
   const totals = useMemo(() => {
-    const totalValue = holdings.reduce((sum, holding) => sum + holding.market_value, 0);
+    const cashValue = cash.reduce((sum, account) => sum + account.value, 0);
+    const totalValue = holdings.reduce((sum, holding) => sum + holding.market_value, 0) + cashValue;
     const costBasis = holdings.reduce((sum, holding) => sum + holding.cost_basis, 0);
-    const pnl = totalValue - costBasis;
-    return { totalValue, costBasis, pnl, pnlDisplay: normalizeMoney(pnl) };
-  }, [holdings]);
+    const realized = holdings.reduce((sum, holding) => sum + holding.realized_pnl, 0);
+    const income = holdings.reduce((sum, holding) => sum + holding.income_received, 0);
+    const pnl = totalValue - cashValue - costBasis;
+    return {
+      totalValue,
+      cashValue: normalizeMoney(cashValue),
+      costBasis,
+      pnl,
+      pnlDisplay: normalizeMoney(pnl),
+      realized: normalizeMoney(realized),
+      income: normalizeMoney(income)
+    };
+  }, [holdings, cash]);
 
   const dailyChange = useMemo(() => {
     if (series.length < 2) return { delta: 0, pct: 0, label: '24h Change' };
     const last = series[series.length - 1]?.value ?? 0;
+    // Measured from the value at the previous session close of the held markets.
+    let closeIndex = previousCloseDate ? series.length - 1 : -1;
+    while (closeIndex >= 0 && previousCloseDate && series[closeIndex].date > previousCloseDate) {
+      closeIndex -= 1;
+    }
+    if (closeIndex >= 0 && closeIndex < series.length - 1) {
+      const prev = series[closeIndex].value;
+      const delta = normalizeMoney(last - prev);
+      return { delta, pct: prev ? (delta / prev) * 100 : 0, label: 'Since Last Close' };
+    }
     let prevIndex = series.length - 2;
     while (prevIndex >= 0 && series[prevIndex]?.value === last) {
       prevIndex -= 1;
@@ -305,7 +647,7 @@ const App = () => {
     const pct = prev ? (delta / prev) * 100 : 0;
     const label = prevIndex < series.length - 2 ? 'Since Last Close' : '24h Change';
     return { delta, pct, label };
-  }, [series]);
+  }, [series, previousCloseDate]);
 
   const exchangeMap = useMemo(() => {
     return new Map(exchanges.map((exchange) => [exchange.code, exchange]));
@@ -326,7 +668,8 @@ const App = () => {
       lastPrice: number;
     }>();
 
-    holdings.forEach((holding) => {
+    // Fully sold lots only matter for realized P&L, so they stay out of the open positions table.
+    holdings.filter((holding) => holding.open_quantity > 0).forEach((holding) => {
       const key = `${holding.ticker}|${holding.market}`;
       const existing = map.get(key);
       if (!existing) {
@@ -336,7 +679,7 @@ const App = () => {
           market: holding.market,
           company_name: holding.company_name || null,
           lots: [holding],
-          totalQty: holding.quantity,
+          totalQty: holding.open_quantity,
           totalValue: holding.market_value,
           totalCost: holding.cost_basis,
           totalPnl: holding.unrealized_pnl,
@@ -346,7 +689,7 @@ const App = () => {
         return;
       }
       existing.lots.push(holding);
-      existing.totalQty += holding.quantity;
+      existing.totalQty += holding.open_quantity;
       existing.totalValue += holding.market_value;
       existing.totalCost += holding.cost_basis;
       existing.totalPnl += holding.unrealized_pnl;
@@ -423,8 +766,21 @@ const App = () => {
   }, [groupedHoldings]);
 
   const allocation = useMemo(() => {
+    if (allocationMode === 'class') {
+      return assetAllocation.map((slice) => ({
+        label: ASSET_CLASS_LABELS[slice.asset_class] ?? slice.asset_class,
+        value: slice.market_value,
+        pct: slice.weight * 100
+      }));
+    }
     const totals = new Map<string, { label: string; value: number }>();
+    if (showAllPortfolios && allocationMode === 'portfolio') {
+      portfolioSubtotals.forEach((subtotal) => {
+        totals.set(String(subtotal.portfolio_id), { label: subtotal.name, value: subtotal.total_value });
+      });
+    }
     groupedHoldings.forEach((holding) => {
+      if (totals.size && showAllPortfolios && allocationMode === 'portfolio') return;
       const exchange = exchangeMap.get(holding.market);
       const label = exchange ? `${exchange.code} · ${exchange.country}` : holding.market;
       const existing = totals.get(holding.market);
@@ -442,7 +798,7 @@ const App = () => {
         pct: totalValue ? (item.value / totalValue) * 100 : 0
       }))
       .sort((a, b) => b.value - a.value);
-  }, [groupedHoldings, exchangeMap]);
+  }, [groupedHoldings, exchangeMap, showAllPortfolios, allocationMode, portfolioSubtotals, assetAllocation]);
 
   const movers = useMemo(() => {
     return [...groupedHoldings]
@@ -456,17 +812,27 @@ const App = () => {
     }
 
     const dates = series.map((point) => point.date);
-    const sortedHoldings = [...holdings].sort((a, b) => a.buy_date.localeCompare(b.buy_date));
     const costBasis: number[] = [];
-    let runningCost = 0;
-    let idx = 0;
 
-    for (const date of dates) {
-      while (idx < sortedHoldings.length && sortedHoldings[idx].buy_date <= date) {
-        runningCost += sortedHoldings[idx].buy_price * sortedHoldings[idx].quantity;
-        idx += 1;
+    // Net contributions from the returns endpoint; buy lots are the fallback when it is unavailable.
+    const returnPoints = returns?.series ?? [];
+    if (returnPoints.length === dates.length) {
+      let contributed = returns?.opening_value ?? 0;
+      returnPoints.forEach((point) => {
+        contributed += point.flow;
+        costBasis.push(contributed);
+      });
+    } else {
+      const sortedHoldings = [...holdings].sort((a, b) => a.buy_date.localeCompare(b.buy_date));
+      let runningCost = 0;
+      let idx = 0;
+      for (const date of dates) {
+        while (idx < sortedHoldings.length && sortedHoldings[idx].buy_date <= date) {
+          runningCost += sortedHoldings[idx].buy_price * sortedHoldings[idx].quantity;
+          idx += 1;
+        }
+        costBasis.push(runningCost);
       }
-      costBasis.push(runningCost);
     }
 
     const values =
@@ -479,7 +845,7 @@ const App = () => {
           });
 
     return { labels: dates, values, costBasis };
-  }, [series, holdings, chartMode]);
+  }, [series, returns, holdings, chartMode]);
 
   const selectedExchange = exchanges.find((exchange) => exchange.code === form.market);
 
@@ -500,7 +866,7 @@ const App = () => {
     try {
       await createHolding(form, activePortfolioId);
       setForm((prev) => ({ ...defaultForm, market: prev.market }));
-      await loadData(chartPeriod, baseCurrency, activePortfolioId);
+      await reloadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add holding');
     } finally {
@@ -508,16 +874,74 @@ const App = () => {
     }
   };
 
-  const handleDelete = async (id: number) => {
+  const handleDelete = async (lot: Holding) => {
     try {
-      if (!activePortfolioId) return;
-      await deleteHolding(id, activePortfolioId);
-      await loadData(chartPeriod, baseCurrency, activePortfolioId);
+      if (!portfolioScope) return;
+      await deleteHolding(lot.id, lot.portfolio_id);
+      await reloadData();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete holding');
     }
   };
 
+  const startEditingLot = (lot: Holding) => {
+    setEditingLotId(lot.id);
+    setLotDraft({
+      buy_date: lot.buy_date,
+      buy_price: String(lot.native_buy_price),
+      quantity: String(lot.quantity)
+    });
+  };
+
+  const handleSaveLot = async (lot: Holding) => {
+    if (!portfolioScope) return;
+    const changes: Partial<HoldingInput> = {};
+    if (lotDraft.buy_date !== lot.buy_date) changes.buy_date = lotDraft.buy_date;
+    if (Number(lotDraft.buy_price) !== lot.native_buy_price) changes.buy_price = Number(lotDraft.buy_price);
+    if (Number(lotDraft.quantity) !== lot.quantity) changes.quantity = Number(lotDraft.quantity);
+    if (!Object.keys(changes).length) {
+      setEditingLotId(null);
+      return;
+    }
+    setSavingLot(true);
+    try {
+      await updateHolding(lot.id, changes, lot.portfolio_id);
+      setEditingLotId(null);
+      await reloadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update holding');
+    } finally {
+      setSavingLot(false);
+    }
+  };
+
+  const handleAddBenchmark = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const ticker = benchmarkForm.ticker.trim();
+    if (!activePortfolioId || !ticker) return;
+    setAddingBenchmark(true);
+    try {
+      await createBenchmark({ ticker, market: benchmarkForm.market }, activePortfolioId);
+      setBenchmarkForm((prev) => ({ ...prev, ticker: '' }));
+      setShowBenchmarks(true);
+      await reloadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add benchmark');
+    } finally {
+      setAddingBenchmark(false);
+    }
+  };
+
+  const handleDeleteBenchmark = async (id: number) => {
+    try {
+      if (!activePortfolioId) return;
+      await deleteBenchmark(id, activePortfolioId);
+      await reloadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove benchmark');
+    }
+  };
+
   const gainsTone =
     chartSeries.values.length && chartSeries.values[chartSeries.values.length - 1] < 0
       ? '#ef4444'
@@ -564,6 +988,19 @@ const App = () => {
               pointRadius: 0
             }
           ]
+        : []),
+      ...(chartMode === 'value' && showBenchmarks
+        ? benchmarks
+            .filter((benchmark) => benchmark.series.length === chartSeries.labels.length)
+            .map((benchmark, index) => ({
+              label: `${benchmark.ticker} (${benchmark.market})`,
+              data: benchmark.series.map((point) => Math.round(point.value * 100) / 100),
+              fill: false,
+              borderColor: BENCHMARK_TONES[index % BENCHMARK_TONES.length],
+              borderWidth: 1.8,
+              tension: 0.35,
+              pointRadius: 0
+            }))
         : [])
     ]
   };
@@ -611,16 +1048,38 @@ const App = () => {
           <div className="portfolio-switch">
             <span>Portfolio</span>
             <select
-              value={activePortfolioId ?? ''}
+              value={showAllPortfolios ? 'all' : activePortfolioId ?? ''}
               onChange={(event) => handlePortfolioChange(event.target.value)}
               disabled={!portfolios.length}
             >
-              {portfolios.map((portfolio) => (
-                <option key={portfolio.id} value={portfolio.id}>
-                  {portfolio.name}
-                </option>
-              ))}
+              {portfolios
+                .filter((portfolio) => !portfolio.archived_at)
+                .map((portfolio) => (
+                  <option key={portfolio.id} value={portfolio.id}>
+                    {portfolio.name}
+                  </option>
+                ))}
+              {portfolios.length > 1 && <option value="all">All portfolios</option>}
+              {portfolios.some((portfolio) => portfolio.archived_at) && (
+                <optgroup label="Archived">
+                  {portfolios
+                    .filter((portfolio) => portfolio.archived_at)
+                    .map((portfolio) => (
+                      <option key={portfolio.id} value={portfolio.id}>
+                        {portfolio.name}
+                      </option>
+                    ))}
+                </optgroup>
+              )}
             </select>
+            <button
+              type="button"
+              className="ghost"
+              onClick={() => (editingPortfolio ? setEditingPortfolio(false) : startEditingPortfolio())}
+              disabled={!activePortfolio || showAllPortfolios}
+            >
+              {editingPortfolio ? 'Close' : 'Edit'}
+            </button>
             <button
               type="button"
               className="ghost"
@@ -628,6 +1087,7 @@ const App = () => {
                 setShowPortfolioForm((prev) => {
                   if (!prev) {
                     setPortfolioCurrency(baseCurrency);
+                    setEditingPortfolio(false);
                   }
                   return !prev;
                 })
@@ -636,6 +1096,37 @@ const App = () => {
               {showPortfolioForm ? 'Close' : 'New'}
             </button>
           </div>
+          {editingPortfolio && activePortfolio && (
+            <form className="portfolio-form" onSubmit={handleUpdatePortfolio}>
+              <input
+                type="text"
+                placeholder="Portfolio name"
+                value={portfolioDraft.name}
+                onChange={(event) => setPortfolioDraft((prev) => ({ ...prev, name: event.target.value }))}
+              />
+              <select
+                value={portfolioDraft.base_currency}
+                onChange={(event) =>
+                  setPortfolioDraft((prev) => ({ ...prev, base_currency: event.target.value as BaseCurrency }))
+                }
+              >
+                {(['PLN', 'USD', 'EUR', 'GBP'] as BaseCurrency[]).map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+              <button type="submit" className="primary" disabled={savingPortfolio || !portfolioDraft.name.trim()}>
+                {savingPortfolio ? 'Saving...' : 'Save'}
+              </button>
+              <button type="button" className="ghost" onClick={handleToggleArchive}>
+                {activePortfolio.archived_at ? 'Restore' : 'Archive'}
+              </button>
+              <button type="button" className="ghost danger" onClick={handleDeletePortfolio}>
+                Delete
+              </button>
+            </form>
+          )}
           {showPortfolioForm && (
             <form className="portfolio-form" onSubmit={handleCreatePortfolio}>
               <input
@@ -672,6 +1163,12 @@ const App = () => {
               ))}
             </select>
           </div>
+          <button type="button" className="ghost" onClick={handleToggleInstruments}>
+            {showInstruments ? 'Hide instruments' : 'Instruments'}
+          </button>
+          <button type="button" className="ghost" onClick={handleToggleStatus}>
+            {showStatus ? 'Hide status' : 'Data status'}
+          </button>
           <button type="button" className="ghost refresh-button" onClick={handleRefresh} disabled={refreshing}>
             {refreshing ? 'Refreshing...' : 'Refresh data'}
           </button>
@@ -679,6 +1176,215 @@ const App = () => {
       </header>
 
       {error && <div className="alert">{error}</div>}
+      {alerts.length > 0 && (
+        <div className="price-alerts">
+          {alerts.map((alert) => (
+            <div key={alert.id} className="price-alert">
+              <span>{alert.message}</span>
+              <span className="price-alert-time">{alert.triggered_at}</span>
+              <button type="button" className="ghost" onClick={() => handleAcknowledgeAlert(alert)}>
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showStatus && diagnostics && (
+        <div className="card status-panel">
+          <div className="card-header">
+            <span className="card-label">Data status</span>
+            <button type="button" className="ghost" onClick={loadDiagnostics}>
+              Reload
+            </button>
+          </div>
+          <div className="status-grid">
+            {diagnostics.providers.map((provider) => (
+              <div key={provider.provider} className={`status-provider ${provider.circuit}`}>
+                <strong>{provider.provider}</strong>
+                <span>
+                  {provider.successes} ok / {provider.failures} failed
+                  {provider.avg_latency_ms !== null ? ` · ${provider.avg_latency_ms} ms` : ''}
+                </span>
+                {provider.circuit !== 'closed' && <span>Circuit {provider.circuit.replace('_', ' ')}</span>}
+                {provider.last_error && (
+                  <span className="status-error" title={JSON.stringify(provider.last_error.details)}>
+                    {provider.last_error.message} ({provider.last_error.at})
+                  </span>
+                )}
+              </div>
+            ))}
+            {diagnostics.providers.length === 0 && <span className="card-subtitle">No provider calls yet.</span>}
+          </div>
+          <div className="status-caches">
+            {diagnostics.caches.map((cache) => (
+              <span key={cache.cache}>
+                {cache.cache}: {cache.hit_rate === null ? 'n/a' : `${Math.round(cache.hit_rate * 100)}%`} hits
+              </span>
+            ))}
+          </div>
+          {diagnostics.fallbacks.length > 0 && (
+            <div className="status-fallbacks">
+              <span className="card-subtitle">Prices from fallbacks</span>
+              {diagnostics.fallbacks.map((fallback) => (
+                <span key={`${fallback.ticker}|${fallback.market}`}>
+                  {fallback.ticker} ({fallback.market}): {fallback.kind.replace(/_/g, ' ').toLowerCase()} from{' '}
+                  {fallback.source}, as of {fallback.as_of}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showInstruments && (
+        <div className="card instruments-panel">
+          <div className="card-header">
+            <span className="card-label">Instruments</span>
+            <span className="card-subtitle">Asset classes, manual prices and accruing bonds</span>
+          </div>
+          <form className="instrument-form" onSubmit={handleSaveInstrument}>
+            <input
+              placeholder="Ticker"
+              value={instrumentForm.ticker}
+              onChange={(event) => setInstrumentForm((prev) => ({ ...prev, ticker: event.target.value }))}
+              required
+            />
+            <select
+              value={instrumentForm.market}
+              onChange={(event) => setInstrumentForm((prev) => ({ ...prev, market: event.target.value }))}
+            >
+              {exchanges.map((exchange) => (
+                <option key={exchange.code} value={exchange.code}>
+                  {exchange.code}
+                </option>
+              ))}
+            </select>
+            <input
+              placeholder="Name"
+              value={instrumentForm.name ?? ''}
+              onChange={(event) => setInstrumentForm((prev) => ({ ...prev, name: event.target.value }))}
+            />
+            <select
+              value={instrumentForm.asset_class}
+              onChange={(event) =>
+                setInstrumentForm((prev) => ({ ...prev, asset_class: event.target.value as AssetClass }))
+              }
+            >
+              {(Object.keys(ASSET_CLASS_LABELS) as AllocationSlice['asset_class'][])
+                .filter((assetClass) => assetClass !== 'cash')
+                .map((assetClass) => (
+                  <option key={assetClass} value={assetClass}>
+                    {ASSET_CLASS_LABELS[assetClass]}
+                  </option>
+                ))}
+            </select>
+            <select
+              value={instrumentForm.pricing}
+              onChange={(event) =>
+                setInstrumentForm((prev) => ({
+                  ...prev,
+                  pricing: event.target.value as InstrumentInput['pricing']
+                }))
+              }
+            >
+              <option value="PROVIDER">Provider price</option>
+              <option value="MANUAL">Manual price</option>
+              <option value="ACCRUAL">Accruing bond</option>
+            </select>
+            {instrumentForm.pricing !== 'PROVIDER' && (
+              <input
+                placeholder="Currency"
+                maxLength={3}
+                value={instrumentForm.currency ?? ''}
+                onChange={(event) => setInstrumentForm((prev) => ({ ...prev, currency: event.target.value }))}
+                required
+              />
+            )}
+            {instrumentForm.pricing === 'ACCRUAL' && (
+              <>
+                <input
+                  type="number"
+                  placeholder="Face value"
+                  value={instrumentForm.face_value ?? ''}
+                  onChange={(event) =>
+                    setInstrumentForm((prev) => ({ ...prev, face_value: Number(event.target.value) || undefined }))
+                  }
+                  required
+                />
+                <input
+                  type="date"
+                  title="Issue date"
+                  value={instrumentForm.issue_date ?? ''}
+                  onChange={(event) => setInstrumentForm((prev) => ({ ...prev, issue_date: event.target.value }))}
+                  required
+                />
+                <select
+                  value={instrumentForm.capitalization ?? 'ANNUAL'}
+                  onChange={(event) =>
+                    setInstrumentForm((prev) => ({
+                      ...prev,
+                      capitalization: event.target.value as InstrumentInput['capitalization']
+                    }))
+                  }
+                >
+                  <option value="ANNUAL">Capitalized yearly (EDO)</option>
+                  <option value="NONE">Interest paid out (COI)</option>
+                </select>
+              </>
+            )}
+            <button type="submit" className="primary">
+              Save
+            </button>
+          </form>
+          <div className="instrument-list">
+            {instruments.map((instrument) => (
+              <div key={instrument.id} className="instrument-row">
+                <strong>
+                  {instrument.ticker} ({instrument.market})
+                </strong>
+                <span>
+                  {instrument.name ? `${instrument.name} · ` : ''}
+                  {ASSET_CLASS_LABELS[instrument.asset_class]} · {instrument.pricing.toLowerCase()}
+                </span>
+                {instrument.pricing !== 'PROVIDER' && (
+                  <span className="instrument-value">
+                    <input
+                      type="date"
+                      value={instrumentValues[instrument.id]?.date ?? ''}
+                      onChange={(event) =>
+                        setInstrumentValues((prev) => ({
+                          ...prev,
+                          [instrument.id]: { ...(prev[instrument.id] ?? { date: '', value: '' }), date: event.target.value }
+                        }))
+                      }
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      placeholder={instrument.pricing === 'ACCRUAL' ? 'Rate %' : `Price ${instrument.currency}`}
+                      value={instrumentValues[instrument.id]?.value ?? ''}
+                      onChange={(event) =>
+                        setInstrumentValues((prev) => ({
+                          ...prev,
+                          [instrument.id]: { ...(prev[instrument.id] ?? { date: '', value: '' }), value: event.target.value }
+                        }))
+                      }
+                    />
+                    <button type="button" className="ghost" onClick={() => handleRecordInstrumentValue(instrument)}>
+                      Record
+                    </button>
+                  </span>
+                )}
+                <button type="button" className="ghost" onClick={() => handleDeleteInstrument(instrument)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            {instruments.length === 0 && <span className="card-subtitle">No instruments registered yet.</span>}
+          </div>
+        </div>
+      )}
 
       <section className="dashboard">
         <div className="card balance-card">
@@ -694,6 +1400,22 @@ const App = () => {
             {formatMoney(dailyChange.delta, baseCurrency)} ({dailyChange.pct >= 0 ? '+' : ''}
             {dailyChange.pct.toFixed(2)}%)
           </span>
+          {totals.realized !== 0 && (
+            <span className={`delta ${totals.realized >= 0 ? 'positive' : 'negative'}`}>
+              Realized P/L {totals.realized >= 0 ? '+' : ''}
+              {formatMoney(totals.realized, baseCurrency)}
+            </span>
+          )}
+          {cash.length > 0 && (
+            <span className="delta">
+              Cash {formatMoney(totals.cashValue, baseCurrency)}
+            </span>
+          )}
+          {totals.income !== 0 && (
+            <span className="delta positive">
+              Income received +{formatMoney(totals.income, baseCurrency)}
+            </span>
+          )}
         </div>
 
         <div className="card breakdown-card">
@@ -729,8 +1451,16 @@ const App = () => {
               <span className="card-subtitle">
                 {series.length ? `${series[0].date} → ${series[series.length - 1].date}` : 'No data yet'}
               </span>
+              {returns?.twr && (
+                <span className="card-subtitle">
+                  TWR {formatPercent(returns.twr.cumulative)}
+                  {returns.twr.annualized !== null && ` (${formatPercent(returns.twr.annualized)} p.a.)`}
+                  {returns.mwr && ` · IRR ${formatPercent(returns.mwr.xirr)} p.a.`}
+                </span>
+              )}
             </div>
             <div className="chart-controls">
+              {renderExportLinks('performance')}
               <div className="period-toggle">
                 {(['1M', '3M', '6M', 'YTD', '1Y', 'ALL'] as ChartPeriod[]).map((period) => (
                   <button
@@ -761,6 +1491,62 @@ const App = () => {
               </div>
             </div>
           </div>
+          {showAllPortfolios && portfolioSubtotals.length > 0 && (
+            <div className="benchmark-bar">
+              {portfolioSubtotals.map((subtotal) => (
+                <span key={subtotal.portfolio_id} className="benchmark-chip">
+                  {subtotal.name} · {formatMoney(subtotal.total_value, baseCurrency)}
+                </span>
+              ))}
+            </div>
+          )}
+          {!showAllPortfolios && (
+            <div className="benchmark-bar">
+              <button
+                type="button"
+                className={`benchmark-toggle ${showBenchmarks ? 'active' : ''}`}
+                onClick={() => setShowBenchmarks((prev) => !prev)}
+                disabled={!benchmarks.length}
+              >
+                Benchmarks
+              </button>
+              {benchmarks.map((benchmark, index) => (
+                <span
+                  key={benchmark.id}
+                  className="benchmark-chip"
+                  style={{ borderColor: BENCHMARK_TONES[index % BENCHMARK_TONES.length] }}
+                  title={benchmark.error}
+                >
+                  {benchmark.ticker} · {benchmark.market}
+                  {benchmark.error && ' (no data)'}
+                  <button type="button" aria-label="Remove benchmark" onClick={() => handleDeleteBenchmark(benchmark.id)}>
+                    ×
+                  </button>
+                </span>
+              ))}
+              <form className="portfolio-form" onSubmit={handleAddBenchmark}>
+                <input
+                  type="text"
+                  placeholder="e.g. SPYL"
+                  value={benchmarkForm.ticker}
+                  onChange={(event) => setBenchmarkForm((prev) => ({ ...prev, ticker: event.target.value.toUpperCase() }))}
+                />
+                <select
+                  value={benchmarkForm.market}
+                  onChange={(event) => setBenchmarkForm((prev) => ({ ...prev, market: event.target.value }))}
+                >
+                  {exchanges.map((exchange) => (
+                    <option key={exchange.code} value={exchange.code}>
+                      {exchange.code}
+                    </option>
+                  ))}
+                </select>
+                <button type="submit" className="primary" disabled={addingBenchmark || !benchmarkForm.ticker.trim()}>
+                  {addingBenchmark ? 'Adding...' : 'Add'}
+                </button>
+              </form>
+            </div>
+          )}
           <div className="chart-wrapper">
             {loading ? <div className="placeholder">Loading chart...</div> : <Line data={chartData} options={chartOptions} />}
           </div>
@@ -769,9 +1555,20 @@ const App = () => {
         <div className="card allocation-card">
           <div className="card-header">
             <span className="card-label">Asset Allocation</span>
-            <button className="ghost icon" type="button" aria-label="Allocation options">
-              ...
-            </button>
+            <div className="period-toggle">
+              {(showAllPortfolios ? (['market', 'class', 'portfolio'] as const) : (['market', 'class'] as const)).map(
+                (mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    className={allocationMode === mode ? 'active' : ''}
+                    onClick={() => setAllocationMode(mode)}
+                  >
+                    {mode === 'market' ? 'Market' : mode === 'class' ? 'Asset class' : 'Portfolio'}
+                  </button>
+                )
+              )}
+            </div>
           </div>
           <div className="allocation-body">
             <div className="donut">
@@ -841,6 +1638,7 @@ const App = () => {
               <span className="card-label">Holdings</span>
               <span className="card-subtitle">{sortedHoldings.length} positions</span>
             </div>
+            {renderExportLinks('holdings')}
           </div>
           <div className="table">
             <div className="table-row table-head">
@@ -963,6 +1761,50 @@ const App = () => {
                       <div className="lot-rows">
                         {group.lots.map((lot) => {
                           const lotPnl = normalizeMoney(lot.unrealized_pnl);
+                          if (editingLotId === lot.id) {
+                            return (
+                              <div className="table-row lot-row editing" key={lot.id}>
+                                <span className="cell ticker">
+                                  <input
+                                    type="date"
+                                    value={lotDraft.buy_date}
+                                    onChange={(event) => setLotDraft((prev) => ({ ...prev, buy_date: event.target.value }))}
+                                  />
+                                </span>
+                                <span className="cell numeric">
+                                  <input
+                                    type="number"
+                                    step="any"
+                                    min="0"
+                                    aria-label={`Buy price (${lot.latest_quote.currency ?? 'native'})`}
+                                    value={lotDraft.buy_price}
+                                    onChange={(event) => setLotDraft((prev) => ({ ...prev, buy_price: event.target.value }))}
+                                  />
+                                </span>
+                                <span className="cell numeric">
+                                  <input
+                                    type="number"
+                                    step="any"
+                                    min="0"
+                                    aria-label="Quantity"
+                                    value={lotDraft.quantity}
+                                    onChange={(event) => setLotDraft((prev) => ({ ...prev, quantity: event.target.value }))}
+                                  />
+                                </span>
+                                <span className="cell numeric">{formatMoney(lot.latest_quote.price, baseCurrency)}</span>
+                                <span className="cell numeric">{formatMoney(lot.market_value, baseCurrency)}</span>
+                                <span className="cell numeric" />
+                                <span className="cell actions">
+                                  <button className="ghost" disabled={savingLot} onClick={() => handleSaveLot(lot)}>
+                                    {savingLot ? 'Saving...' : 'Save'}
+                                  </button>
+                                  <button className="ghost" disabled={savingLot} onClick={() => setEditingLotId(null)}>
+                                    Cancel
+                                  </button>
+                                </span>
+                              </div>
+                            );
+                          }
                           return (
                             <div className="table-row lot-row" key={lot.id}>
                               <span className="cell ticker">
@@ -971,14 +1813,17 @@ const App = () => {
                                 </span>
                               </span>
                               <span className="cell numeric">{formatMoney(lot.buy_price, baseCurrency)}</span>
-                              <span className="cell numeric">{lot.quantity}</span>
+                              <span className="cell numeric">{lot.open_quantity}</span>
                               <span className="cell numeric">{formatMoney(lot.latest_quote.price, baseCurrency)}</span>
                               <span className="cell numeric">{formatMoney(lot.market_value, baseCurrency)}</span>
                               <span className={`cell numeric ${lotPnl >= 0 ? 'positive' : 'negative'}`}>
                                 {formatMoney(lotPnl, baseCurrency)}
                               </span>
                               <span className="cell actions">
-                                <button className="ghost" onClick={() => handleDelete(lot.id)}>
+                                <button className="ghost" onClick={() => startEditingLot(lot)}>
+                                  Edit
+                                </button>
+                                <button className="ghost" onClick={() => handleDelete(lot)}>
                                   Remove
                                 </button>
                               </span>
@@ -1000,7 +1845,11 @@ const App = () => {
           <div className="card-header">
             <div>
               <span className="card-label">Add Holding</span>
-              <span className="card-subtitle">Validate by ticker + market</span>
+              <span className="card-subtitle">
+                {showAllPortfolios && activePortfolio
+                  ? `Adds to ${activePortfolio.name}`
+                  : 'Validate by ticker + market'}
+              </span>
             </div>
             <button
               type="button"
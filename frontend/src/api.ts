@@ -1,12 +1,18 @@
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
 
+export type AssetClass = 'equity' | 'etf' | 'bond' | 'fund' | 'commodity' | 'cash_equivalent' | 'crypto';
+
 export type Holding = {
   id: number;
+  portfolio_id: number;
   ticker: string;
   market: string;
   company_name?: string | null;
+  asset_class: AssetClass;
   buy_date: string;
   buy_price: number;
+  native_buy_price: number;
+  native_currency: string;
   quantity: number;
   latest_quote: {
     price: number;
@@ -15,9 +21,91 @@ export type Holding = {
     source: string;
     cached: boolean;
   };
+  open_quantity: number;
+  market_value: number;
+  cost_basis: number;
+  unrealized_pnl: number;
+  realized_pnl: number;
+  income_received: number;
+};
+
+export type CashBalance = {
+  currency: string;
+  balance: number;
+  value: number;
+};
+
+export type PortfolioSubtotal = {
+  portfolio_id: number;
+  name: string;
+  base_currency: string;
   market_value: number;
   cost_basis: number;
   unrealized_pnl: number;
+  realized_pnl: number;
+  income_received: number;
+  cash_value: number;
+  total_value: number;
+};
+
+export type AllocationSlice = {
+  asset_class: AssetClass | 'cash';
+  market_value: number;
+  weight: number;
+};
+
+export type HoldingsResponse = {
+  holdings: Holding[];
+  cash: CashBalance[];
+  cash_value: number;
+  allocation: AllocationSlice[];
+  base_currency: string;
+  portfolios?: PortfolioSubtotal[];
+};
+
+// Either one portfolio id or the aggregate view over all open portfolios.
+export type PortfolioScope = number | 'all';
+
+export type PriceAlert = {
+  id: number;
+  portfolio_id: number;
+  rule_id: number | null;
+  ticker: string;
+  market: string;
+  type: 'PRICE_ABOVE' | 'PRICE_BELOW' | 'PCT_FROM_BUY' | 'DAILY_DROP' | 'POSITION_WEIGHT';
+  threshold: number;
+  value: number;
+  message: string;
+  deliveries: Array<{ channel: string; status: 'sent' | 'failed' | 'skipped'; error?: string }>;
+  triggered_at: string;
+  acknowledged_at: string | null;
+};
+
+export type ExportKind = 'holdings' | 'transactions' | 'performance';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type CashMovement = {
+  id: number;
+  portfolio_id: number;
+  type: 'DEPOSIT' | 'WITHDRAWAL' | 'FEE' | 'FX_CONVERSION';
+  date: string;
+  currency: string;
+  amount: number;
+  counter_currency: string | null;
+  counter_amount: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+export type CashMovementInput = {
+  type: CashMovement['type'];
+  date: string;
+  currency: string;
+  amount: number;
+  counter_currency?: string;
+  counter_amount?: number;
+  note?: string;
 };
 
 export type HoldingInput = {
@@ -28,11 +116,57 @@ export type HoldingInput = {
   quantity: number;
 };
 
+export type Transaction = {
+  id: number;
+  portfolio_id: number;
+  holding_id: number | null;
+  ticker: string;
+  market: string;
+  type: 'BUY' | 'SELL';
+  trade_date: string;
+  price: number;
+  quantity: number;
+  fee: number;
+  created_at: string;
+};
+
+export type TransactionInput = {
+  type: 'BUY' | 'SELL';
+  ticker: string;
+  market: string;
+  trade_date: string;
+  price: number;
+  quantity: number;
+  fee?: number;
+};
+
+export type Dividend = {
+  id: number;
+  portfolio_id: number;
+  ticker: string;
+  market: string;
+  pay_date: string;
+  gross_amount: number;
+  withholding_tax: number;
+  currency: string;
+  created_at: string;
+};
+
+export type DividendInput = {
+  ticker: string;
+  market: string;
+  pay_date: string;
+  gross_amount: number;
+  withholding_tax?: number;
+  currency?: string;
+};
+
 export type Portfolio = {
   id: number;
   name: string;
   base_currency: string;
   created_at: string;
+  archived_at: string | null;
 };
 
 export type PerformancePoint = {
@@ -40,6 +174,85 @@ export type PerformancePoint = {
   value: number;
 };
 
+export type Benchmark = {
+  id: number;
+  portfolio_id: number;
+  ticker: string;
+  market: string;
+  created_at: string;
+};
+
+export type BenchmarkSeries = {
+  id: number;
+  ticker: string;
+  market: string;
+  series: PerformancePoint[];
+  error?: string;
+};
+
+export type PerformanceResponse = {
+  series: PerformancePoint[];
+  benchmarks: BenchmarkSeries[];
+  // Close the daily change is measured from, per the held markets' trading calendars.
+  previous_close_date: string | null;
+  portfolios?: Array<{ portfolio_id: number; name: string; series: PerformancePoint[] }>;
+};
+
+export type ReturnPoint = {
+  date: string;
+  value: number;
+  flow: number;
+  daily_return: number;
+  cumulative_return: number;
+};
+
+export type PortfolioReturns = {
+  from?: string;
+  to?: string;
+  series: ReturnPoint[];
+  twr: { cumulative: number; annualized: number | null } | null;
+  mwr: { xirr: number; cumulative: number } | null;
+  opening_value?: number;
+  closing_value?: number;
+  net_contributions?: number;
+  gain?: number;
+};
+
+export type ProviderDiagnostics = {
+  provider: string;
+  circuit: 'closed' | 'open' | 'half_open';
+  open_until: string | null;
+  calls: number;
+  successes: number;
+  failures: number;
+  transient_failures: number;
+  retries: number;
+  throttled: number;
+  short_circuited: number;
+  avg_latency_ms: number | null;
+  last_error: { message: string; details: unknown; at: string } | null;
+  last_success_at: string | null;
+};
+
+export type Diagnostics = {
+  generated_at: string;
+  providers: ProviderDiagnostics[];
+  caches: Array<{
+    cache: 'quotes' | 'history' | 'fx' | 'validation';
+    hits: number;
+    misses: number;
+    hit_rate: number | null;
+  }>;
+  fallbacks: Array<{
+    ticker: string;
+    market: string;
+    kind: 'STALE_QUOTE' | 'HISTORY' | 'BUY_PRICE_FALLBACK';
+    source: string;
+    as_of: string;
+    since: string;
+  }>;
+};
+
 export type ExchangeDefinition = {
   code: string;
   label: string;
@@ -47,10 +260,40 @@ export type ExchangeDefinition = {
   country: string;
   assetType: string;
   providerExchange: string;
+  providers: Array<{ provider: string; exchange?: string; symbol?: string }>;
   defaultQuote?: string;
   notes?: string;
 };
 
+export type InstrumentPricing = 'PROVIDER' | 'MANUAL' | 'ACCRUAL';
+
+export type Instrument = {
+  id: number;
+  ticker: string;
+  market: string;
+  name: string | null;
+  asset_class: AssetClass;
+  currency: string | null;
+  pricing: InstrumentPricing;
+  face_value: number | null;
+  issue_date: string | null;
+  maturity_date: string | null;
+  capitalization: 'ANNUAL' | 'NONE' | null;
+};
+
+export type InstrumentInput = {
+  ticker: string;
+  market: string;
+  name?: string;
+  asset_class: AssetClass;
+  currency?: string;
+  pricing?: InstrumentPricing;
+  face_value?: number;
+  issue_date?: string;
+  maturity_date?: string;
+  capitalization?: 'ANNUAL' | 'NONE';
+};
+
 export type ValidationResult = {
   valid: boolean;
   source: string;
@@ -83,14 +326,48 @@ export const getExchanges = async (): Promise<ExchangeDefinition[]> => {
   return data.exchanges;
 };
 
-export const getHoldings = async (currency?: string, portfolioId?: number): Promise<Holding[]> => {
+export const getHoldings = async (currency?: string, portfolioId?: PortfolioScope): Promise<HoldingsResponse> => {
   const params = new URLSearchParams();
   if (currency) params.set('currency', currency);
   if (portfolioId) params.set('portfolioId', String(portfolioId));
   const query = params.toString();
   const response = await fetch(`${API_URL}/api/holdings${query ? `?${query}` : ''}`);
+  return handleResponse(response);
+};
+
+export const getCash = async (
+  currency?: string,
+  portfolioId?: number
+): Promise<{ accounts: CashBalance[]; movements: CashMovement[] }> => {
+  const params = new URLSearchParams();
+  if (currency) params.set('currency', currency);
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  const response = await fetch(`${API_URL}/api/cash${query ? `?${query}` : ''}`);
+  return handleResponse(response);
+};
+
+export const createCashMovement = async (
+  input: CashMovementInput,
+  portfolioId?: number
+): Promise<CashMovement> => {
+  const response = await fetch(`${API_URL}/api/cash/movements`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(portfolioId ? { ...input, portfolioId } : input)
+  });
   const data = await handleResponse(response);
-  return data.holdings;
+  return data.movement;
+};
+
+export const deleteCashMovement = async (id: number, portfolioId?: number): Promise<void> => {
+  const params = new URLSearchParams();
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  const response = await fetch(`${API_URL}/api/cash/movements/${id}${query ? `?${query}` : ''}`, {
+    method: 'DELETE'
+  });
+  await handleResponse(response);
 };
 
 export const createHolding = async (input: HoldingInput, portfolioId?: number): Promise<Holding> => {
@@ -103,6 +380,20 @@ export const createHolding = async (input: HoldingInput, portfolioId?: number):
   return data.holding;
 };
 
+export const updateHolding = async (
+  id: number,
+  input: Partial<HoldingInput>,
+  portfolioId?: number
+): Promise<Holding> => {
+  const response = await fetch(`${API_URL}/api/holdings/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(portfolioId ? { ...input, portfolioId } : input)
+  });
+  const data = await handleResponse(response);
+  return data.holding;
+};
+
 export const deleteHolding = async (id: number, portfolioId?: number): Promise<void> => {
   const params = new URLSearchParams();
   if (portfolioId) params.set('portfolioId', String(portfolioId));
@@ -113,12 +404,73 @@ export const deleteHolding = async (id: number, portfolioId?: number): Promise<v
   await handleResponse(response);
 };
 
+export const getTransactions = async (portfolioId?: number): Promise<Transaction[]> => {
+  const params = new URLSearchParams();
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  const response = await fetch(`${API_URL}/api/transactions${query ? `?${query}` : ''}`);
+  const data = await handleResponse(response);
+  return data.transactions;
+};
+
+export const createTransaction = async (
+  input: TransactionInput,
+  portfolioId?: number
+): Promise<Transaction> => {
+  const response = await fetch(`${API_URL}/api/transactions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(portfolioId ? { ...input, portfolioId } : input)
+  });
+  const data = await handleResponse(response);
+  return data.transaction;
+};
+
+export const deleteTransaction = async (id: number, portfolioId?: number): Promise<void> => {
+  const params = new URLSearchParams();
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  const response = await fetch(`${API_URL}/api/transactions/${id}${query ? `?${query}` : ''}`, {
+    method: 'DELETE'
+  });
+  await handleResponse(response);
+};
+
+export const getDividends = async (portfolioId?: number): Promise<Dividend[]> => {
+  const params = new URLSearchParams();
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  const response = await fetch(`${API_URL}/api/dividends${query ? `?${query}` : ''}`);
+  const data = await handleResponse(response);
+  return data.dividends;
+};
+
+export const createDividend = async (input: DividendInput, portfolioId?: number): Promise<Dividend> => {
+  const response = await fetch(`${API_URL}/api/dividends`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(portfolioId ? { ...input, portfolioId } : input)
+  });
+  const data = await handleResponse(response);
+  return data.dividend;
+};
+
+export const deleteDividend = async (id: number, portfolioId?: number): Promise<void> => {
+  const params = new URLSearchParams();
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  const response = await fetch(`${API_URL}/api/dividends/${id}${query ? `?${query}` : ''}`, {
+    method: 'DELETE'
+  });
+  await handleResponse(response);
+};
+
 export const getPerformance = async (
   from?: string,
   to?: string,
   currency?: string,
-  portfolioId?: number
-): Promise<PerformancePoint[]> => {
+  portfolioId?: PortfolioScope
+): Promise<PerformanceResponse> => {
   const params = new URLSearchParams();
   if (from) params.set('from', from);
   if (to) params.set('to', to);
@@ -127,7 +479,42 @@ export const getPerformance = async (
   const query = params.toString();
   const response = await fetch(`${API_URL}/api/portfolio/performance${query ? `?${query}` : ''}`);
   const data = await handleResponse(response);
-  return data.series;
+  return {
+    series: data.series,
+    benchmarks: data.benchmarks ?? [],
+    previous_close_date: data.previous_close_date ?? null,
+    portfolios: data.portfolios
+  };
+};
+
+export const getReturns = async (
+  from?: string,
+  to?: string,
+  currency?: string,
+  portfolioId?: number
+): Promise<PortfolioReturns> => {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  if (currency) params.set('currency', currency);
+  if (portfolioId) params.set('portfolioId', String(portfolioId));
+  const query = params.toString();
+  const response = await fetch(`${API_URL}/api/portfolio/returns${query ? `?${query}` : ''}`);
+  return handleResponse(response);
+};
+
+// Exports are plain downloads, so the UI links to the URL instead of fetching it.
+export const getExportUrl = (
+  kind: ExportKind,
+  format: ExportFormat,
+  options: { currency?: string; portfolioId?: PortfolioScope; from?: string; to?: string } = {}
+) => {
+  const params = new URLSearchParams({ format });
+  if (options.currency) params.set('currency', options.currency);
+  if (options.portfolioId) params.set('portfolioId', String(options.portfolioId));
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+  return `${API_URL}/api/export/${kind}?${params.toString()}`;
 };
 
 export const refreshData = async (
@@ -144,8 +531,8 @@ export const refreshData = async (
   await handleResponse(response);
 };
 
-export const getPortfolios = async (): Promise<Portfolio[]> => {
-  const response = await fetch(`${API_URL}/api/portfolios`);
+export const getPortfolios = async (includeArchived = false): Promise<Portfolio[]> => {
+  const response = await fetch(`${API_URL}/api/portfolios${includeArchived ? '?includeArchived=true' : ''}`);
   const data = await handleResponse(response);
   return data.portfolios;
 };
@@ -163,6 +550,90 @@ export const createPortfolio = async (payload: {
   return data.portfolio;
 };
 
+export const updatePortfolio = async (
+  id: number,
+  payload: { name?: string; base_currency?: string }
+): Promise<Portfolio> => {
+  const response = await fetch(`${API_URL}/api/portfolios/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  const data = await handleResponse(response);
+  return data.portfolio;
+};
+
+export const setPortfolioArchived = async (id: number, archived: boolean): Promise<Portfolio> => {
+  const response = await fetch(`${API_URL}/api/portfolios/${id}/${archived ? 'archive' : 'restore'}`, {
+    method: 'POST'
+  });
+  const data = await handleResponse(response);
+  return data.portfolio;
+};
+
+// Without cascade a portfolio that still has data is not deleted; its row counts per table come back instead.
+export const deletePortfolio = async (
+  id: number,
+  cascade = false
+): Promise<{ deleted: boolean; data?: Record<string, number> }> => {
+  const response = await fetch(`${API_URL}/api/portfolios/${id}${cascade ? '?cascade=true' : ''}`, {
+    method: 'DELETE'
+  });
+  if (response.status === 409 && !cascade) {
+    const body = await response.json();
+    return { deleted: false, data: body.data };
+  }
+  await handleResponse(response);
+  return { deleted: true };
+};
+
+export const getBenchmarks = async (portfolioId: number): Promise<Benchmark[]> => {
+  const response = await fetch(`${API_URL}/api/portfolios/${portfolioId}/benchmarks`);
+  const data = await handleResponse(response);
+  return data.benchmarks;
+};
+
+export const createBenchmark = async (
+  input: { ticker: string; market: string },
+  portfolioId: number
+): Promise<Benchmark> => {
+  const response = await fetch(`${API_URL}/api/portfolios/${portfolioId}/benchmarks`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  });
+  const data = await handleResponse(response);
+  return data.benchmark;
+};
+
+export const deleteBenchmark = async (id: number, portfolioId: number): Promise<void> => {
+  const response = await fetch(`${API_URL}/api/portfolios/${portfolioId}/benchmarks/${id}`, {
+    method: 'DELETE'
+  });
+  await handleResponse(response);
+};
+
+export const getAlerts = async (portfolioId: number): Promise<PriceAlert[]> => {
+  const response = await fetch(`${API_URL}/api/alerts?portfolioId=${portfolioId}`);
+  const data = await handleResponse(response);
+  return data.alerts;
+};
+
+export const acknowledgeAlert = async (id: number, portfolioId: number): Promise<PriceAlert> => {
+  const response = await fetch(`${API_URL}/api/alerts/${id}/acknowledge`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ portfolioId })
+  });
+  const data = await handleResponse(response);
+  return data.alert;
+};
+
+export const getDiagnostics = async (): Promise<Diagnostics> => {
+  const response = await fetch(`${API_URL}/api/diagnostics`);
+  return handleResponse(response);
+};
+
 export const validateSymbol = async (ticker: string, market: string): Promise<ValidationResult> => {
   const response = await fetch(`${API_URL}/api/validate`, {
     method: 'POST',
@@ -171,3 +642,40 @@ export const validateSymbol = async (ticker: string, market: string): Promise<Va
   });
   return handleResponse(response);
 };
+
+export const getInstruments = async (): Promise<Instrument[]> => {
+  const response = await fetch(`${API_URL}/api/instruments`);
+  const data = await handleResponse(response);
+  return data.instruments;
+};
+
+export const saveInstrument = async (input: InstrumentInput): Promise<Instrument> => {
+  const response = await fetch(`${API_URL}/api/instruments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input)
+  });
+  const data = await handleResponse(response);
+  return data.instrument;
+};
+
+export const deleteInstrument = async (id: number): Promise<void> => {
+  const response = await fetch(`${API_URL}/api/instruments/${id}`, { method: 'DELETE' });
+  await handleResponse(response);
+};
+
+// MANUAL instruments take a price per date; ACCRUAL ones an annual rate (0.068 for 6.8%) from a date on.
+export const recordInstrumentValue = async (
+  instrument: Instrument,
+  payload: { date: string; value: number }
+): Promise<void> => {
+  const isAccrual = instrument.pricing === 'ACCRUAL';
+  const response = await fetch(`${API_URL}/api/instruments/${instrument.id}/${isAccrual ? 'rates' : 'prices'}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(
+      isAccrual ? { from_date: payload.date, rate: payload.value } : { date: payload.date, price: payload.value }
+    )
+  });
+  await handleResponse(response);
+};